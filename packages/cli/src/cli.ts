@@ -3,8 +3,26 @@
  */
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { MCPServer } from '@cqm/server';
-import { RAGEngine } from '@cqm/rag';
+import { join } from 'path';
+import { modelRegistry } from '@cqm/shared';
+import { MCPServer, ConfigManager as ServerConfigManager } from '@cqm/server';
+import {
+  RAGEngine,
+  VectorStore,
+  EmbeddingFingerprint,
+  createVectorStore,
+  describeDocumentPrompts,
+  describeEnrichment,
+  describeDistance,
+  exportIndexSnapshot,
+  importIndexSnapshot
+} from '@cqm/rag';
+
+interface SnapshotCommandOptions {
+  config: string;
+  workspace: string;
+  dataDir: string;
+}
 
 export class CQMCli {
   private program: Command;
@@ -36,13 +54,29 @@ export class CQMCli {
       .action(this.stopServer.bind(this));
 
     // Index commands
-    this.program
+    const index = this.program
       .command('index')
       .description('Index management commands')
       .option('--rebuild', 'Rebuild entire index')
       .option('--stats', 'Show index statistics')
       .action(this.manageIndex.bind(this));
 
+    index
+      .command('export <archive>')
+      .description('Export the index to a portable snapshot archive (.jsonl.gz)')
+      .option('--config <path>', 'Configuration file path', './cqm.config.json')
+      .option('--workspace <path>', 'Workspace root the index was built from', '.')
+      .option('--data-dir <path>', 'Local data directory containing the index', '.cqm')
+      .action(this.exportIndex.bind(this));
+
+    index
+      .command('import <archive>')
+      .description('Import a snapshot archive into the configured vector store (stop the server first)')
+      .option('--config <path>', 'Configuration file path', './cqm.config.json')
+      .option('--workspace <path>', 'Workspace root to resolve file paths against', '.')
+      .option('--data-dir <path>', 'Local data directory to write the index manifest to', '.cqm')
+      .action(this.importIndex.bind(this));
+
     // Status command
     this.program
       .command('status')
@@ -96,6 +130,75 @@ export class CQMCli {
     }
   }
 
+  private async exportIndex(archive: string, options: SnapshotCommandOptions): Promise<void> {
+    console.log(chalk.blue(`📦 Exporting index to ${archive}...`));
+
+    try {
+      const { store } = await this.openIndexStore(options);
+      const result = await exportIndexSnapshot({
+        store,
+        workspaceRoot: options.workspace,
+        manifestPath: join(options.dataDir, 'index', 'manifest.json'),
+        archivePath: archive
+      });
+      console.log(chalk.green(`✅ Exported ${result.chunkCount} chunks (${result.embedding.model}, ${result.embedding.dimensions}d)`));
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to export index: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  }
+
+  private async importIndex(archive: string, options: SnapshotCommandOptions): Promise<void> {
+    console.log(chalk.blue(`📥 Importing index from ${archive}...`));
+
+    try {
+      const { store, embedding } = await this.openIndexStore(options);
+      const result = await importIndexSnapshot({
+        store,
+        workspaceRoot: options.workspace,
+        sourceBase: options.workspace, // サーバーと同じくワークスペース基準の相対パスで索引する
+        archivePath: archive,
+        manifestPath: join(options.dataDir, 'index', 'manifest.json'),
+        lexicalIndexPath: join(options.dataDir, 'index', 'lexical.json'),
+        embedding
+      });
+      console.log(chalk.green(`✅ Imported ${result.chunkCount} chunks into ${result.collection}`));
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to import index: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * 設定のベクトルストアと埋め込みモデル（サーバーと同じ設定ファイル）を解決する
+   */
+  private async openIndexStore(options: SnapshotCommandOptions): Promise<{ store: VectorStore; embedding: EmbeddingFingerprint }> {
+    const ragConfig = new ServerConfigManager(options.config).getConfig().rag;
+    const store = createVectorStore({
+      type: ragConfig.vectorStore?.type,
+      url: process.env.QDRANT_URL || 'http://localhost:6333',
+      apiKey: process.env.QDRANT_API_KEY,
+      persistPath: ragConfig.vectorStore?.persistPath,
+      directory: ragConfig.vectorStore?.directory || join(options.dataDir, 'vectors')
+    });
+    await store.initialize();
+
+    // サーバーと同じく設定のカスタムモデルを登録してから解決する
+    modelRegistry.registerAll(ragConfig.models ?? []);
+    const model = modelRegistry.resolve(ragConfig.model, ragConfig.provider);
+    return {
+      store,
+      embedding: {
+        provider: ragConfig.provider,
+        model: model.name,
+        dimensions: model.dimensions,
+        documentPrompts: describeDocumentPrompts(model.prompts),
+        enrichment: describeEnrichment(ragConfig.enrichment),
+        distance: describeDistance(model.distance)
+      }
+    };
+  }
+
   private async showStatus(): Promise<void> {
     console.log(chalk.blue('📋 CQM System Status:'));
     console.log(`  Server: ${this.server?.isStarted() ? chalk.green('Running') : chalk.red('Stopped')}`);
@@ -1,6 +1,19 @@
 /**
  * キャッシュシステム
  */
+import { readFile, writeFile, rename, mkdir, rm } from 'fs/promises';
+import { join, dirname } from 'path';
+import { createHash } from 'crypto';
+import { CQMError } from '@cqm/shared';
+import {
+  isPartialEmbeddingError,
+  EmbeddingProvider,
+  EmbeddingModelInfo,
+  EmbeddingItemFailure,
+  EmbeddingInputOptions,
+  formatEmbeddingInputs
+} from '../embedding/index.js';
+
 export interface CacheProvider {
   get<T>(key: string): Promise<T | null>;
   set<T>(key: string, value: T, ttl?: number): Promise<void>;
@@ -43,4 +56,189 @@ export class MemoryCache implements CacheProvider {
   async clear(): Promise<void> {
     this.cache.clear();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * ファイルベースの永続キャッシュ
+ * キーのSHA256をファイル名とし、書き込みは一時ファイル経由のリネームで行う
+ */
+export class FileCache implements CacheProvider {
+  constructor(private readonly directory: string) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const filePath = this.getFilePath(key);
+
+    let entry: { value: T; expires?: number };
+    try {
+      entry = JSON.parse(await readFile(filePath, 'utf-8'));
+    } catch {
+      // 未作成・破損したエントリはキャッシュミスとして扱う
+      return null;
+    }
+
+    if (entry.expires && Date.now() > entry.expires) {
+      await this.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    const entry: { value: T; expires?: number } = { value };
+
+    if (ttl) {
+      entry.expires = Date.now() + ttl * 1000;
+    }
+
+    const filePath = this.getFilePath(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+    await rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.getFilePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.directory, { recursive: true, force: true });
+  }
+
+  private getFilePath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return join(this.directory, hash.substring(0, 2), `${hash}.json`);
+  }
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+/**
+ * 埋め込みキャッシュ付きプロバイダー
+ * (モデル名, 次元数, テキストのハッシュ) をキーに任意の EmbeddingProvider をラップし、
+ * 未キャッシュのテキストのみ下位プロバイダーに問い合わせる
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly provider: EmbeddingProvider,
+    private readonly cache: CacheProvider
+  ) {}
+
+  async generateEmbedding(text: string, input?: EmbeddingInputOptions): Promise<number[]> {
+    const [embedding] = await this.generateBatchEmbeddings([text], input);
+    return embedding;
+  }
+
+  async generateBatchEmbeddings(texts: string[], input?: EmbeddingInputOptions): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    // テンプレートは下位プロバイダーが適用するが、キーは適用後のテキストで作る
+    const prompts = this.provider.getModelInfo().prompts;
+    const keys = formatEmbeddingInputs(texts, prompts, input).map(text => this.getCacheKey(text));
+    const results: Array<number[] | null> = await Promise.all(
+      keys.map(key => this.cache.get<number[]>(key))
+    );
+
+    // 未キャッシュのテキストを重複排除して一括生成
+    const pending = new Map<string, number[]>();
+    results.forEach((result, index) => {
+      if (result) {
+        this.hits++;
+        return;
+      }
+
+      this.misses++;
+      const indexes = pending.get(keys[index]) || [];
+      indexes.push(index);
+      pending.set(keys[index], indexes);
+    });
+
+    if (pending.size > 0) {
+      const missingIndexes = Array.from(pending.values());
+      let embeddings: Array<number[] | null>;
+      let failures: EmbeddingItemFailure[] = [];
+
+      try {
+        embeddings = await this.provider.generateBatchEmbeddings(
+          missingIndexes.map(indexes => texts[indexes[0]]),
+          input
+        );
+      } catch (error) {
+        // 一部失敗時は成功分をキャッシュしてから元のインデックスで再送出する
+        if (!isPartialEmbeddingError(error)) {
+          throw error;
+        }
+        embeddings = error.details.embeddings;
+        failures = error.details.failures.flatMap((failure: EmbeddingItemFailure) =>
+          missingIndexes[failure.index].map(index => ({ index, error: failure.error }))
+        );
+      }
+
+      await Promise.all(missingIndexes.map(async (indexes, i) => {
+        const embedding = embeddings[i];
+        if (!embedding) {
+          return;
+        }
+
+        indexes.forEach(index => { results[index] = embedding; });
+
+        try {
+          await this.cache.set(keys[indexes[0]], embedding);
+        } catch (error) {
+          console.warn('Failed to write embedding cache entry:', error);
+        }
+      }));
+
+      if (failures.length > 0) {
+        throw new CQMError(
+          `Failed to embed ${failures.length} of ${texts.length} texts`,
+          'PARTIAL_EMBEDDING_ERROR',
+          { embeddings: results, failures: failures.sort((a, b) => a.index - b.index) }
+        );
+      }
+    }
+
+    return results as number[][];
+  }
+
+  isModelAvailable(): Promise<boolean> {
+    return this.provider.isModelAvailable();
+  }
+
+  getDimensions(): number {
+    return this.provider.getDimensions();
+  }
+
+  getMaxTokens(): number {
+    return this.provider.getMaxTokens();
+  }
+
+  getModelInfo(): EmbeddingModelInfo {
+    return this.provider.getModelInfo();
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0
+    };
+  }
+
+  private getCacheKey(text: string): string {
+    const textHash = createHash('sha256').update(text, 'utf-8').digest('hex');
+    return `embedding:${this.provider.getModelInfo().name}:${this.provider.getDimensions()}:${textHash}`;
+  }
+}
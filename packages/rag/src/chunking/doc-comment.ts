@@ -0,0 +1,205 @@
+/**
+ * TSDoc・JSDoc とシグネチャの抽出
+ *
+ * 宣言のチャンクに API の契約（概要、引数、戻り値、非推奨、使用例、シグネチャ）を構造化して持たせ、
+ * 本体を読まなくても使い方が分かるようにする。
+ */
+import * as ts from 'typescript';
+
+export interface DocComment {
+  summary?: string;
+  params?: Array<{ name: string; description?: string }>;
+  returns?: string;
+  deprecated?: string; // 非推奨の理由（理由のない @deprecated は空文字）
+  examples?: string[];
+  tags?: Record<string, string[]>; // 上記以外のタグ（@throws、@since、@internal など）
+}
+
+export interface CodeSignature {
+  text: string; // 本体・初期化式を除いた宣言（空白は1つにまとめる）
+  parameters?: Array<{ name: string; type?: string; optional?: boolean }>;
+  returnType?: string;
+  modifiers: string[]; // export 以外の修飾子（async、static、private、readonly、default、declare など）
+  exported: boolean; // モジュールの外から参照できるか（export 済みのクラスの public メンバーを含む）
+}
+
+/**
+ * 宣言の直前の JSDoc を解析する（JSDoc がなければ undefined）
+ */
+export function parseDocComment(node: ts.Node): DocComment | undefined {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  // 複数ある場合は宣言に最も近いもの
+  const doc = docs[docs.length - 1];
+  if (!doc) {
+    return undefined;
+  }
+
+  const result: DocComment = {};
+  const summary = commentText(doc.comment);
+  if (summary) {
+    result.summary = summary;
+  }
+
+  for (const tag of doc.tags || []) {
+    const text = commentText(tag.comment);
+    if (ts.isJSDocParameterTag(tag)) {
+      (result.params ||= []).push({ name: tag.name.getText(), description: text || undefined });
+    } else if (ts.isJSDocReturnTag(tag)) {
+      result.returns = text;
+    } else if (ts.isJSDocDeprecatedTag(tag)) {
+      result.deprecated = text;
+    } else if (tag.tagName.text === 'example') {
+      (result.examples ||= []).push(text);
+    } else {
+      const tags = result.tags ||= {};
+      (tags[tag.tagName.text] ||= []).push(text);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 宣言のシグネチャを抽出する
+ *
+ * @param exportedNames export { a, b as c }・export default a で公開されるトップレベルの名前
+ */
+export function extractSignature(
+  node: ts.Node,
+  sourceFile: ts.SourceFile,
+  exportedNames: Set<string>
+): CodeSignature | undefined {
+  const start = node.getStart(sourceFile);
+  const textUntil = (end: number) => normalize(sourceFile.text.substring(start, end));
+  const modifiers = (ts.canHaveModifiers(node) ? ts.getModifiers(node) || [] : [])
+    .filter(modifier => modifier.kind !== ts.SyntaxKind.ExportKeyword)
+    .map(modifier => modifier.getText(sourceFile));
+  const signature = { modifiers, exported: isExported(node, exportedNames) };
+
+  if (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) || ts.isAccessor(node)) {
+    return { text: textUntil(node.body ? node.body.getStart(sourceFile) : node.getEnd()), ...functionParts(node, sourceFile), ...signature };
+  }
+
+  if (ts.isVariableStatement(node)) {
+    const declarations = node.declarationList.declarations;
+    const initializer = declarations.length === 1 ? unwrapFunction(declarations[0].initializer) : undefined;
+    if (initializer) {
+      const end = ts.isArrowFunction(initializer) && !ts.isBlock(initializer.body)
+        ? initializer.equalsGreaterThanToken.getEnd()
+        : initializer.body.getStart(sourceFile);
+      return { text: textUntil(end), ...functionParts(initializer, sourceFile), ...signature };
+    }
+
+    // 初期化式は省き、名前と型注釈のみにする
+    const names = declarations
+      .map(declaration => declaration.type
+        ? `${declaration.name.getText(sourceFile)}: ${declaration.type.getText(sourceFile)}`
+        : declaration.name.getText(sourceFile))
+      .join(', ');
+    return { text: normalize(`${textUntil(declarations[0].getStart(sourceFile))} ${names}`), ...signature };
+  }
+
+  if (ts.isClassLike(node) || ts.isInterfaceDeclaration(node) || ts.isEnumDeclaration(node)) {
+    return { text: textUntil(node.members.pos).replace(/\s*\{$/, ''), ...signature };
+  }
+
+  if (ts.isTypeAliasDeclaration(node)) {
+    const text = ts.isTypeLiteralNode(node.type)
+      ? `${textUntil(node.type.getStart(sourceFile))} { … }`
+      : textUntil(node.getEnd()).replace(/;$/, '');
+    return { text, ...signature };
+  }
+
+  if (ts.isModuleDeclaration(node)) {
+    let body = node.body;
+    while (body && ts.isModuleDeclaration(body)) {
+      body = body.body;
+    }
+    return { text: textUntil(body ? body.getStart(sourceFile) : node.getEnd()), ...signature };
+  }
+
+  return undefined;
+}
+
+/**
+ * ソースファイルで export { ... }・export default により公開されるローカルの名前
+ */
+export function collectExportedNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  sourceFile.statements.forEach(statement => {
+    if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause
+      && ts.isNamedExports(statement.exportClause)) {
+      statement.exportClause.elements.forEach(element => names.add((element.propertyName || element.name).text));
+    } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+      names.add(statement.expression.text);
+    }
+  });
+  return names;
+}
+
+function functionParts(
+  node: ts.SignatureDeclaration,
+  sourceFile: ts.SourceFile
+): Pick<CodeSignature, 'parameters' | 'returnType'> {
+  return {
+    parameters: node.parameters.map(parameter => ({
+      name: parameter.name.getText(sourceFile),
+      type: parameter.type?.getText(sourceFile),
+      optional: parameter.questionToken !== undefined || parameter.initializer !== undefined || undefined
+    })),
+    returnType: node.type?.getText(sourceFile)
+  };
+}
+
+function isExported(node: ts.Node, exportedNames: Set<string>): boolean {
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) || [] : [];
+  const parent = node.parent;
+
+  // クラスのメンバーは、クラスが公開されていて private・protected・#private でなければ公開
+  if (ts.isClassLike(parent)) {
+    const hidden = modifiers.some(modifier =>
+      modifier.kind === ts.SyntaxKind.PrivateKeyword || modifier.kind === ts.SyntaxKind.ProtectedKeyword
+    ) || ((node as ts.ClassElement).name !== undefined && ts.isPrivateIdentifier((node as ts.ClassElement).name!));
+    return !hidden && isExported(parent, exportedNames);
+  }
+
+  if (ts.isModuleDeclaration(parent)) {
+    return isExported(parent, exportedNames);
+  }
+
+  const hasExport = modifiers.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+  if (ts.isModuleBlock(parent)) {
+    return hasExport && isExported(parent.parent, exportedNames);
+  }
+  if (ts.isSourceFile(parent)) {
+    return hasExport || declaredNames(node).some(name => exportedNames.has(name));
+  }
+  return false;
+}
+
+function declaredNames(node: ts.Node): string[] {
+  if (ts.isVariableStatement(node)) {
+    return node.declarationList.declarations
+      .map(declaration => declaration.name)
+      .filter(ts.isIdentifier)
+      .map(name => name.text);
+  }
+  const name = (node as ts.DeclarationStatement).name;
+  return name && ts.isIdentifier(name) ? [name.text] : [];
+}
+
+function unwrapFunction(node: ts.Expression | undefined): ts.ArrowFunction | ts.FunctionExpression | undefined {
+  while (node && (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node))) {
+    node = node.expression;
+  }
+  return node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) ? node : undefined;
+}
+
+function commentText(comment: string | ts.NodeArray<ts.JSDocComment> | undefined): string {
+  // @param name - 説明 の区切りのハイフンは説明に含めない
+  return (ts.getTextOfJSDocComment(comment) || '').trim().replace(/^-\s+/, '');
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -5,9 +5,13 @@ import { readFileSync } from 'fs';
 // import { parse as parseYaml } from 'yaml';
 import { CQMError } from '@cqm/shared';
 import * as ts from 'typescript';
+import { Tokenizer, TextSplit, BpeApproxTokenizer, splitByTokens } from '../tokenizer/index.js';
+import { DocComment, CodeSignature, parseDocComment, extractSignature, collectExportedNames } from './doc-comment.js';
 
 export interface ChunkStrategy {
-  type: 'function' | 'class' | 'interface' | 'section' | 'paragraph' | 'issue' | 'comment';
+  type:
+    | 'function' | 'class' | 'interface' | 'variable' | 'enum' | 'namespace' | 'module'
+    | 'section' | 'paragraph' | 'issue' | 'comment';
   maxTokens: number;
   overlap: number;
   preserveContext: boolean;
@@ -30,11 +34,21 @@ export interface ChunkMetadata {
   title?: string;
   startLine?: number;
   endLine?: number;
+  lineMap?: number[]; // 本文の各行が始まるファイルの行番号（本体を省略したアウトラインで行が連続しない場合のみ）
   symbols?: string[];
   context?: string;
+  breadcrumbs?: string[]; // チャンクを囲むクラス・名前空間・見出し（外側から順）
   tags?: string[];
-  parentId?: string;
+  parentId?: string; // 親チャンクのID（クラスのメソッドではクラスのアウトライン、分割された部分では分割元の親か分割元）
   language?: string;
+  tokenCount?: number;
+  // 戦略の maxTokens またはモデルの入力上限を超えて分割された場合の分割元情報
+  splitFrom?: string;
+  partIndex?: number;
+  partCount?: number;
+  // TypeScript の宣言のチャンクでは JSDoc とシグネチャ
+  doc?: DocComment;
+  signature?: CodeSignature;
 }
 
 export interface ChunkingMetadata {
@@ -52,7 +66,21 @@ export interface DocumentInput {
   type: 'typescript' | 'javascript' | 'markdown' | 'github-issue' | 'github-pr' | 'text';
 }
 
+export interface ChunkerOptions {
+  tokenizer?: Tokenizer;
+  maxTokens?: number; // 埋め込みモデルの入力上限。戦略の maxTokens と小さい方を超えたチャンクは分割する
+  strategies?: Record<string, ChunkStrategy>; // ドキュメントタイプごとの戦略の上書き（RAGConfigManager.getChunkingStrategies）
+}
+
+const CODE_CHUNK_TYPES = new Set<ChunkStrategy['type']>(['function', 'class', 'interface', 'variable', 'enum', 'namespace', 'module']);
+
+// 分割位置の候補（チャンク内の文字オフセット）。優先度の高い順に並べ、上限に収まらない部分だけ次の候補で分割する
+type SplitLevels = number[][];
+
 export class MultimodalChunker {
+  private readonly tokenizer: Tokenizer;
+  private readonly maxTokens?: number;
+
   private readonly strategies: Map<string, ChunkStrategy> = new Map([
     ['typescript', { type: 'function', maxTokens: 512, overlap: 50, preserveContext: true }],
     ['javascript', { type: 'function', maxTokens: 512, overlap: 50, preserveContext: true }],
@@ -62,10 +90,23 @@ export class MultimodalChunker {
     ['text', { type: 'paragraph', maxTokens: 512, overlap: 50, preserveContext: false }]
   ]);
 
-  async processDocument(input: DocumentInput): Promise<ChunkResult> {
+  constructor(options: ChunkerOptions = {}) {
+    this.tokenizer = options.tokenizer || new BpeApproxTokenizer();
+    this.maxTokens = options.maxTokens;
+    Object.entries(options.strategies || {}).forEach(([documentType, strategy]) => {
+      this.strategies.set(documentType, strategy);
+    });
+  }
+
+  /**
+   * @param reservedTokens チャンクごとに埋め込み時に付加されるトークン数（文脈付加・プロンプトテンプレート）。
+   *   モデルの入力上限から差し引いて分割する
+   */
+  async processDocument(input: DocumentInput, reservedTokens?: (chunk: DocumentChunk) => number): Promise<ChunkResult> {
     const startTime = Date.now();
     const strategy = this.strategies.get(input.type) || this.strategies.get('text')!;
     const warnings: string[] = [];
+    const splitLevels = new Map<string, SplitLevels>(); // コードチャンクの構文上の分割位置
 
     try {
       let chunks: DocumentChunk[];
@@ -73,7 +114,7 @@ export class MultimodalChunker {
       switch (input.type) {
         case 'typescript':
         case 'javascript':
-          chunks = await this.chunkTypeScriptCode(input, strategy, warnings);
+          chunks = await this.chunkTypeScriptCode(input, strategy, warnings, splitLevels);
           break;
         case 'markdown':
           chunks = await this.chunkMarkdown(input, strategy, warnings);
@@ -88,6 +129,8 @@ export class MultimodalChunker {
           chunks = await this.chunkText(input, strategy, warnings);
       }
 
+      chunks = this.enforceTokenBudget(chunks, strategy, splitLevels, warnings, reservedTokens);
+
       return {
         chunks,
         metadata: {
@@ -110,7 +153,8 @@ export class MultimodalChunker {
   private async chunkTypeScriptCode(
     input: DocumentInput, 
     strategy: ChunkStrategy, 
-    warnings: string[]
+    warnings: string[],
+    splitLevels: Map<string, SplitLevels>
   ): Promise<DocumentChunk[]> {
     const chunks: DocumentChunk[] = [];
     
@@ -124,23 +168,91 @@ export class MultimodalChunker {
 
       let chunkIndex = 0;
 
-      // 関数とクラスを抽出
+      // クラス・名前空間のアウトラインのチャンクID（メンバーのチャンクの parentId にする）
+      const outlineChunkIds = new Map<ts.Node, string>();
+
+      const exportedNames = collectExportedNames(sourceFile);
+
+      const add = (chunk: DocumentChunk | null, node: ts.Node, levels?: SplitLevels) => {
+        if (chunk) {
+          const parentId = outlineChunkIds.get(outlineOwner(node));
+          if (parentId) {
+            chunk.metadata.parentId = parentId;
+          }
+          const breadcrumbs = enclosingScopes(node, sourceFile);
+          if (breadcrumbs.length > 0) {
+            chunk.metadata.breadcrumbs = breadcrumbs;
+          }
+          chunk.metadata.doc = parseDocComment(node);
+          chunk.metadata.signature = extractSignature(node, sourceFile, exportedNames);
+          chunks.push(chunk);
+          splitLevels.set(chunk.id, levels || codeSplitLevels(node, sourceFile));
+        }
+      };
+
+      // 宣言を抽出する。クラス・名前空間はメンバーの本体を省いたアウトラインにしてメンバーを個別に抽出し、
+      // それ以外の宣言は入れ子の関数なども本文に含むため、中を重ねて抽出しない
       const visit = (node: ts.Node) => {
-        if (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) {
-          const chunk = this.extractFunctionChunk(node, sourceFile, chunkIndex++, input.content);
-          if (chunk) chunks.push(chunk);
-        } else if (ts.isClassDeclaration(node)) {
-          const chunk = this.extractClassChunk(node, sourceFile, chunkIndex++, input.content);
-          if (chunk) chunks.push(chunk);
-        } else if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
-          const chunk = this.extractTypeChunk(node, sourceFile, chunkIndex++, input.content);
-          if (chunk) chunks.push(chunk);
+        if (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || isClassMemberWithBody(node)) {
+          add(this.extractFunctionChunk(node, sourceFile, chunkIndex++, input.content), node);
+          return;
+        }
+        if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+          add(this.extractTypeChunk(node, sourceFile, chunkIndex++, input.content), node);
+          return;
+        }
+        if (ts.isVariableStatement(node) && (ts.isSourceFile(node.parent) || ts.isModuleBlock(node.parent))) {
+          add(this.extractVariableChunk(node, sourceFile, chunkIndex++, input.content), node);
+          return;
+        }
+        if (ts.isEnumDeclaration(node)) {
+          add(this.extractEnumChunk(node, sourceFile, chunkIndex++, input.content), node);
+          return;
+        }
+
+        if (ts.isClassDeclaration(node)) {
+          const outline = classOutline(node, sourceFile);
+          const chunk = this.extractClassChunk(node, sourceFile, chunkIndex++, outline);
+          if (chunk) {
+            outlineChunkIds.set(node, chunk.id);
+          }
+          add(chunk, node, [outline.memberOffsets]);
+        } else if (ts.isModuleDeclaration(node) && !ts.isModuleDeclaration(node.parent)) {
+          const outline = namespaceOutline(node, sourceFile);
+          const chunk = this.extractNamespaceChunk(node, sourceFile, chunkIndex++, outline);
+          if (chunk) {
+            outlineChunkIds.set(node, chunk.id);
+          }
+          add(chunk, node, [outline.memberOffsets]);
         }
 
         ts.forEachChild(node, visit);
       };
 
-      visit(sourceFile);
+      // 宣言以外のトップレベルの文（インポート、再エクスポート、初期化処理など）は連続する範囲ごとに
+      // モジュール本体のチャンクにまとめ、ファイルのすべての行を検索対象にする
+      let residual: ts.Node[] = [];
+      const flushResidual = () => {
+        if (residual.length > 0) {
+          const chunk = this.createModuleBodyChunk(residual, sourceFile, chunkIndex++, input.content);
+          if (chunk) {
+            chunks.push(chunk);
+            splitLevels.set(chunk.id, moduleSplitLevels(residual, sourceFile));
+          }
+          residual = [];
+        }
+      };
+
+      for (const statement of [...sourceFile.statements, sourceFile.endOfFileToken]) {
+        if (isDeclarationStatement(statement)) {
+          flushResidual();
+          visit(statement);
+        } else {
+          residual.push(statement);
+          ts.forEachChild(statement, visit);
+        }
+      }
+      flushResidual();
 
       // インポート文をコンテキストとして保持
       const imports = this.extractImports(sourceFile, input.content);
@@ -160,7 +272,7 @@ export class MultimodalChunker {
   }
 
   private extractFunctionChunk(
-    node: ts.FunctionDeclaration | ts.MethodDeclaration,
+    node: ts.FunctionDeclaration | ts.MethodDeclaration | ts.ConstructorDeclaration | ts.AccessorDeclaration,
     sourceFile: ts.SourceFile,
     index: number,
     fullContent: string
@@ -169,10 +281,12 @@ export class MultimodalChunker {
     const end = node.getEnd();
     const content = fullContent.substring(start, end);
     
-    const startPos = sourceFile.getLineAndCharacterOfPosition(start);
+    const startPos = sourceFile.getLineAndCharacterOfPosition(start + content.length - content.trimStart().length);
     const endPos = sourceFile.getLineAndCharacterOfPosition(end);
     
-    const name = node.name?.getText(sourceFile) || `anonymous-${index}`;
+    const name = ts.isConstructorDeclaration(node)
+      ? 'constructor'
+      : node.name?.getText(sourceFile) || `anonymous-${index}`;
     
     return {
       id: `func-${index}-${name}`,
@@ -189,17 +303,21 @@ export class MultimodalChunker {
     };
   }
 
+  /**
+   * クラスのアウトライン（シグネチャ、フィールド、メンバーのシグネチャ）のチャンク
+   * メソッドの本体は子チャンクにあるため、ここでは省略した outline を本文にする
+   */
   private extractClassChunk(
     node: ts.ClassDeclaration,
     sourceFile: ts.SourceFile,
     index: number,
-    fullContent: string
+    outline: Outline
   ): DocumentChunk | null {
     const start = node.getFullStart();
     const end = node.getEnd();
-    const content = fullContent.substring(start, end);
+    const raw = sourceFile.text.substring(start, end);
     
-    const startPos = sourceFile.getLineAndCharacterOfPosition(start);
+    const startPos = sourceFile.getLineAndCharacterOfPosition(start + raw.length - raw.trimStart().length);
     const endPos = sourceFile.getLineAndCharacterOfPosition(end);
     
     const name = node.name?.getText(sourceFile) || `anonymous-class-${index}`;
@@ -214,13 +332,14 @@ export class MultimodalChunker {
 
     return {
       id: `class-${index}-${name}`,
-      content: content.trim(),
+      content: outline.content,
       type: 'class',
       metadata: {
         index,
         title: name,
         startLine: startPos.line + 1,
         endLine: endPos.line + 1,
+        lineMap: outline.lineMap,
         symbols,
         language: 'typescript'
       }
@@ -237,7 +356,7 @@ export class MultimodalChunker {
     const end = node.getEnd();
     const content = fullContent.substring(start, end);
     
-    const startPos = sourceFile.getLineAndCharacterOfPosition(start);
+    const startPos = sourceFile.getLineAndCharacterOfPosition(start + content.length - content.trimStart().length);
     const endPos = sourceFile.getLineAndCharacterOfPosition(end);
     
     const name = node.name.getText(sourceFile);
@@ -257,6 +376,150 @@ export class MultimodalChunker {
     };
   }
 
+  /**
+   * トップレベル・名前空間直下の変数宣言（関数を代入した定数は関数として扱う）
+   */
+  private extractVariableChunk(
+    node: ts.VariableStatement,
+    sourceFile: ts.SourceFile,
+    index: number,
+    fullContent: string
+  ): DocumentChunk | null {
+    const start = node.getFullStart();
+    const end = node.getEnd();
+    const content = fullContent.substring(start, end);
+
+    const startPos = sourceFile.getLineAndCharacterOfPosition(start + content.length - content.trimStart().length);
+    const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+
+    const declarations = node.declarationList.declarations;
+    const names = declarations.map(declaration => declaration.name.getText(sourceFile));
+    const isFunction = declarations.length === 1 && isFunctionExpression(declarations[0].initializer);
+
+    return {
+      id: isFunction ? `func-${index}-${names[0]}` : `const-${index}-${names.join('-')}`,
+      content: content.trim(),
+      type: isFunction ? 'function' : 'variable',
+      metadata: {
+        index,
+        title: names.join(', '),
+        startLine: startPos.line + 1,
+        endLine: endPos.line + 1,
+        symbols: names,
+        language: 'typescript'
+      }
+    };
+  }
+
+  private extractEnumChunk(
+    node: ts.EnumDeclaration,
+    sourceFile: ts.SourceFile,
+    index: number,
+    fullContent: string
+  ): DocumentChunk | null {
+    const start = node.getFullStart();
+    const end = node.getEnd();
+    const content = fullContent.substring(start, end);
+
+    const startPos = sourceFile.getLineAndCharacterOfPosition(start + content.length - content.trimStart().length);
+    const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+
+    const name = node.name.getText(sourceFile);
+
+    return {
+      id: `enum-${index}-${name}`,
+      content: content.trim(),
+      type: 'enum',
+      metadata: {
+        index,
+        title: name,
+        startLine: startPos.line + 1,
+        endLine: endPos.line + 1,
+        symbols: [name, ...node.members.map(member => `${name}.${member.name.getText(sourceFile)}`)],
+        language: 'typescript'
+      }
+    };
+  }
+
+  /**
+   * 名前空間・アンビエントモジュールのアウトライン（namespace A.B は外側の宣言で1つにまとめる）
+   * メンバーの宣言は子チャンクにあるため、本体・初期化式を省略した outline を本文にする
+   */
+  private extractNamespaceChunk(
+    node: ts.ModuleDeclaration,
+    sourceFile: ts.SourceFile,
+    index: number,
+    outline: Outline
+  ): DocumentChunk | null {
+    const start = node.getFullStart();
+    const end = node.getEnd();
+    const raw = sourceFile.text.substring(start, end);
+
+    const startPos = sourceFile.getLineAndCharacterOfPosition(start + raw.length - raw.trimStart().length);
+    const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+
+    const names: string[] = [node.name.getText(sourceFile)];
+    for (let body = node.body; body && ts.isModuleDeclaration(body); body = body.body) {
+      names.push(body.name.getText(sourceFile));
+    }
+    const name = names.join('.');
+
+    return {
+      id: `namespace-${index}-${name}`,
+      content: outline.content,
+      type: 'namespace',
+      metadata: {
+        index,
+        title: name,
+        startLine: startPos.line + 1,
+        endLine: endPos.line + 1,
+        lineMap: outline.lineMap,
+        symbols: [name],
+        language: 'typescript'
+      }
+    };
+  }
+
+  private createModuleBodyChunk(
+    statements: ts.Node[],
+    sourceFile: ts.SourceFile,
+    index: number,
+    fullContent: string
+  ): DocumentChunk | null {
+    const start = statements[0].getFullStart();
+    const end = statements[statements.length - 1].getEnd();
+    const raw = fullContent.substring(start, end);
+    const content = raw.trim();
+    if (!content) return null;
+
+    const startPos = sourceFile.getLineAndCharacterOfPosition(start + raw.length - raw.trimStart().length);
+    const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+
+    // 再エクスポート・default エクスポートされる名前
+    const symbols: string[] = [];
+    statements.forEach(statement => {
+      if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        statement.exportClause.elements.forEach(element => symbols.push(element.name.getText(sourceFile)));
+      } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+        symbols.push(statement.expression.getText(sourceFile));
+      }
+    });
+
+    return {
+      id: `module-${index}`,
+      content,
+      type: 'module',
+      metadata: {
+        index,
+        title: 'module body',
+        startLine: startPos.line + 1,
+        endLine: endPos.line + 1,
+        symbols: symbols.length > 0 ? symbols : undefined,
+        language: 'typescript'
+      }
+    };
+  }
+
   private extractImports(sourceFile: ts.SourceFile, fullContent: string): string {
     const imports: string[] = [];
     
@@ -286,7 +549,10 @@ export class MultimodalChunker {
       title: string;
       content: string[];
       startLine: number;
+      breadcrumbs: string[];
     } | null = null;
+    // 現在の見出しの祖先（セクションのパンくずに使う）
+    const headings: Array<{ level: number; title: string }> = [];
     
     let chunkIndex = 0;
 
@@ -302,12 +568,18 @@ export class MultimodalChunker {
         }
         
         // 新しいセクション開始
+        const level = headerMatch[1].length;
+        while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+          headings.pop();
+        }
         currentSection = {
-          level: headerMatch[1].length,
+          level,
           title: headerMatch[2],
           content: [line],
-          startLine: i + 1
+          startLine: i + 1,
+          breadcrumbs: headings.map(heading => heading.title)
         };
+        headings.push({ level, title: headerMatch[2] });
       } else {
         // 現在のセクションにコンテンツを追加
         if (currentSection) {
@@ -319,7 +591,8 @@ export class MultimodalChunker {
               level: 0,
               title: 'Document Header',
               content: [line],
-              startLine: i + 1
+              startLine: i + 1,
+              breadcrumbs: []
             };
           }
         }
@@ -336,7 +609,7 @@ export class MultimodalChunker {
   }
 
   private createMarkdownChunk(
-    section: { level: number; title: string; content: string[]; startLine: number },
+    section: { level: number; title: string; content: string[]; startLine: number; breadcrumbs: string[] },
     index: number,
     endLine: number
   ): DocumentChunk | null {
@@ -352,6 +625,7 @@ export class MultimodalChunker {
         title: section.title,
         startLine: section.startLine,
         endLine,
+        breadcrumbs: section.breadcrumbs.length > 0 ? section.breadcrumbs : undefined,
         language: 'markdown'
       }
     };
@@ -480,6 +754,150 @@ export class MultimodalChunker {
     return chunks;
   }
 
+  /**
+   * トークン数を記録し、戦略の maxTokens（モデルの入力上限の方が小さければそちら）を超えるチャンクを
+   * 構文上の区切り（文・メンバー、段落、文章、行の順）で分割し、隣接する部分を overlap トークン重複させる
+   * （モデル側での切り捨てによる内容の欠落を防ぐ）。モデルの入力上限からは付加されるトークン数を差し引く
+   */
+  private enforceTokenBudget(
+    chunks: DocumentChunk[],
+    strategy: ChunkStrategy,
+    splitLevels: Map<string, SplitLevels>,
+    warnings: string[],
+    reservedTokens?: (chunk: DocumentChunk) => number
+  ): DocumentChunk[] {
+    const result: DocumentChunk[] = [];
+    let didSplit = false;
+
+    for (const chunk of chunks) {
+      const limit = Math.min(strategy.maxTokens || Infinity, this.modelBudget(chunk, reservedTokens));
+      const tokenCount = this.tokenizer.countTokens(chunk.content);
+      if (tokenCount <= limit) {
+        result.push({ ...chunk, metadata: { ...chunk.metadata, tokenCount } });
+        continue;
+      }
+
+      const levels = splitLevels.get(chunk.id) || proseSplitLevels(chunk);
+      const splits = this.splitAtBoundaries(chunk.content, [...levels, lineStarts(chunk.content)], limit, strategy.overlap);
+      warnings.push(`Chunk ${chunk.id} has ${tokenCount} tokens (limit ${limit}), split into ${splits.length} parts`);
+      didSplit = true;
+
+      splits.forEach((split, partIndex) => {
+        const firstLine = countLines(chunk.content.substring(0, split.start)) - 1; // 本文内の行（0始まり）
+        const lineCount = countLines(split.content);
+        const lineMap = chunk.metadata.lineMap;
+        let startLine = chunk.metadata.startLine !== undefined ? chunk.metadata.startLine + firstLine : undefined;
+        let endLine = startLine !== undefined ? startLine + lineCount - 1 : chunk.metadata.endLine;
+        if (lineMap) {
+          // アウトラインは省略した本体の分だけ行が飛ぶため、対応表から引く
+          startLine = lineMap[firstLine];
+          endLine = firstLine + lineCount < lineMap.length ? lineMap[firstLine + lineCount] - 1 : chunk.metadata.endLine;
+        }
+
+        result.push({
+          id: `${chunk.id}-part-${partIndex + 1}`,
+          content: split.content,
+          type: chunk.type,
+          metadata: {
+            ...chunk.metadata,
+            startLine,
+            endLine,
+            lineMap: lineMap?.slice(firstLine, firstLine + lineCount),
+            tokenCount: split.tokenCount,
+            parentId: chunk.metadata.parentId ?? chunk.id,
+            splitFrom: chunk.id,
+            partIndex,
+            partCount: splits.length
+          }
+        });
+      });
+    }
+
+    // 分割が発生した場合はチャンク番号を振り直す
+    if (didSplit) {
+      result.forEach((chunk, index) => { chunk.metadata.index = index; });
+    }
+
+    return result;
+  }
+
+  /**
+   * チャンクの本文に使えるモデルの入力上限
+   * 付加される文脈が長すぎる場合も、本文には入力上限の半分を残す
+   */
+  private modelBudget(chunk: DocumentChunk, reservedTokens?: (chunk: DocumentChunk) => number): number {
+    if (!this.maxTokens) {
+      return Infinity;
+    }
+    const reserved = Math.max(0, reservedTokens?.(chunk) || 0);
+    return this.maxTokens - Math.min(reserved, Math.floor(this.maxTokens / 2));
+  }
+
+  /**
+   * 上限に収まる単位まで区切り位置で細かくし、上限まで詰めて部分を作る
+   * 重複部分も区切り位置から始め、文や行の途中から始まらないようにする
+   */
+  private splitAtBoundaries(content: string, levels: SplitLevels, maxTokens: number, overlap: number): TextSplit[] {
+    const budget = maxTokens - this.tokenizer.specialTokens;
+    const count = (start: number, end: number) => this.tokenizer.tokenize(content.substring(start, end)).length;
+    const boundaries = [...new Set(levels.flat())].sort((a, b) => a - b);
+
+    // 上限を超える単位を次の優先度の区切り位置で分割し、それでも超えるものはトークン単位で分割する
+    const segment = (start: number, end: number, depth: number): Array<{ start: number; end: number }> => {
+      if (count(start, end) <= budget) {
+        return [{ start, end }];
+      }
+      if (depth >= levels.length) {
+        return splitByTokens(content.substring(start, end), this.tokenizer, maxTokens)
+          .map(split => ({ start: start + split.start, end: start + split.end }));
+      }
+
+      const cuts = levels[depth].filter(position => position > start && position < end);
+      const edges = [start, ...cuts, end];
+      return edges.slice(1).flatMap((edge, i) => segment(edges[i], edge, depth + 1));
+    };
+    const units = segment(0, content.length, 0);
+
+    const splits: TextSplit[] = [];
+    let next = 0;
+    let overlapStart: number | undefined;
+
+    while (next < units.length) {
+      let start = overlapStart ?? units[next].start;
+      if (count(start, units[next].end) > budget) {
+        start = units[next].start;
+      }
+
+      let end = units[next].end;
+      next++;
+      while (next < units.length && count(start, units[next].end) <= budget) {
+        end = units[next].end;
+        next++;
+      }
+
+      const split = trimSplit(content, start, end);
+      if (split.content) {
+        splits.push({ ...split, tokenCount: this.tokenizer.countTokens(split.content) });
+      }
+
+      // 次の部分は、直前の部分の末尾 overlap トークン以内にある最も前の区切り位置から始める
+      overlapStart = undefined;
+      if (overlap > 0) {
+        for (let i = boundaries.length - 1; i >= 0 && boundaries[i] > start; i--) {
+          if (boundaries[i] >= end) {
+            continue;
+          }
+          if (count(boundaries[i], end) > overlap) {
+            break;
+          }
+          overlapStart = boundaries[i];
+        }
+      }
+    }
+
+    return splits;
+  }
+
   setStrategy(documentType: string, strategy: ChunkStrategy): void {
     this.strategies.set(documentType, strategy);
   }
@@ -493,6 +911,288 @@ export class MultimodalChunker {
   }
 }
 
+function countLines(text: string): number {
+  return text.split('\n').length;
+}
+
+function isDeclarationStatement(node: ts.Node): boolean {
+  return ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) ||
+    ts.isTypeAliasDeclaration(node) || ts.isVariableStatement(node) || ts.isEnumDeclaration(node) ||
+    ts.isModuleDeclaration(node);
+}
+
+// 括弧・型アサーションを外した初期化子が関数式・アロー関数か
+function isFunctionExpression(node: ts.Expression | undefined): boolean {
+  while (node && (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node))) {
+    node = node.expression;
+  }
+  return node !== undefined && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+// 宣言を囲むクラス・名前空間の名前（外側から順）
+function enclosingScopes(node: ts.Node, sourceFile: ts.SourceFile): string[] {
+  const scopes: string[] = [];
+  for (let current = node.parent; current && !ts.isSourceFile(current); current = current.parent) {
+    if ((ts.isClassLike(current) || ts.isModuleDeclaration(current)) && current.name) {
+      scopes.unshift(current.name.getText(sourceFile));
+    }
+  }
+  return scopes;
+}
+
+// 本体のあるコンストラクター・アクセサー（メソッドと同じく子チャンクにする）
+function isClassMemberWithBody(node: ts.Node): node is ts.ConstructorDeclaration | ts.AccessorDeclaration {
+  return (ts.isConstructorDeclaration(node) || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node))
+    && node.body !== undefined
+    && ts.isClassLike(node.parent);
+}
+
+// メンバーのチャンクを結び付けるアウトライン（クラス、namespace A.B は外側の宣言）のノード
+function outlineOwner(node: ts.Node): ts.Node {
+  let owner = node.parent;
+  if (ts.isModuleBlock(owner)) {
+    owner = owner.parent;
+  }
+  while (owner.parent && ts.isModuleDeclaration(owner.parent)) {
+    owner = owner.parent;
+  }
+  return owner;
+}
+
+const ELIDED_BODY = '{ … }';
+const ELIDED_INITIALIZER = '…';
+
+// アウトラインで置き換えるソース上の範囲
+interface Elision {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+interface Outline {
+  content: string;
+  memberOffsets: number[]; // アウトライン上のメンバーの行頭オフセット
+  lineMap?: number[]; // 各行が始まるファイルの行番号（複数行を省略した場合のみ）
+}
+
+/**
+ * クラスのアウトライン（メソッド・コンストラクター・アクセサーの本体を省略した本文）
+ */
+function classOutline(node: ts.ClassDeclaration, sourceFile: ts.SourceFile): Outline {
+  const elisions = node.members
+    .filter(member => ts.isMethodDeclaration(member) || isClassMemberWithBody(member))
+    .map(member => (member as ts.FunctionLikeDeclaration).body)
+    .filter((body): body is ts.Block => body !== undefined && ts.isBlock(body))
+    .map(body => ({ start: body.getStart(sourceFile), end: body.getEnd(), replacement: ELIDED_BODY }));
+
+  return elide(node, sourceFile, node.members, elisions);
+}
+
+/**
+ * 名前空間のアウトライン（子チャンクになる宣言の本体・初期化式を省略した本文）
+ */
+function namespaceOutline(node: ts.ModuleDeclaration, sourceFile: ts.SourceFile): Outline {
+  const body = innermostModuleBody(node);
+  if (!body || !ts.isModuleBlock(body)) {
+    return elide(node, sourceFile, [], []);
+  }
+
+  const block = (start: number, end: number): Elision[] => [{ start, end, replacement: ELIDED_BODY }];
+  const elisions = body.statements.flatMap((statement): Elision[] => {
+    if (ts.isFunctionDeclaration(statement)) {
+      return statement.body ? block(statement.body.getStart(sourceFile), statement.body.getEnd()) : [];
+    }
+    if (ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+      // members の位置は { の直後
+      return block(statement.members.pos - 1, statement.getEnd());
+    }
+    if (ts.isTypeAliasDeclaration(statement)) {
+      return ts.isTypeLiteralNode(statement.type) ? block(statement.type.getStart(sourceFile), statement.type.getEnd()) : [];
+    }
+    if (ts.isModuleDeclaration(statement)) {
+      const nested = innermostModuleBody(statement);
+      return nested ? block(nested.getStart(sourceFile), nested.getEnd()) : [];
+    }
+    if (ts.isVariableStatement(statement)) {
+      return statement.declarationList.declarations
+        .filter(declaration => declaration.initializer)
+        .map(declaration => ({
+          start: declaration.initializer!.getStart(sourceFile),
+          end: declaration.initializer!.getEnd(),
+          replacement: ELIDED_INITIALIZER
+        }));
+    }
+    return [];
+  });
+
+  return elide(node, sourceFile, body.statements, elisions);
+}
+
+function innermostModuleBody(node: ts.ModuleDeclaration): ts.ModuleBody | undefined {
+  let body = node.body;
+  while (body && ts.isModuleDeclaration(body)) {
+    body = body.body;
+  }
+  return body;
+}
+
+/**
+ * 宣言の本文のうち、elisions の範囲（ソース上の位置の昇順）を置き換えたアウトラインを作る
+ */
+function elide(node: ts.Node, sourceFile: ts.SourceFile, members: readonly ts.Node[], elisions: Elision[]): Outline {
+  const text = sourceFile.text;
+  const raw = text.substring(node.getFullStart(), node.getEnd());
+  const contentStart = node.getFullStart() + raw.length - raw.trimStart().length;
+  const toOffset = lineOffsetFrom(node, sourceFile);
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+  let content = '';
+  let position = contentStart;
+  let removed = 0;
+  const removedBefore: Array<{ end: number; removed: number }> = [];
+  let line = lineOf(contentStart);
+  const lineMap = [line];
+  const copy = (end: number) => {
+    const source = text.substring(position, end);
+    content += source;
+    for (let i = source.indexOf('\n'); i !== -1; i = source.indexOf('\n', i + 1)) {
+      lineMap.push(++line);
+    }
+  };
+
+  for (const elision of elisions) {
+    copy(elision.start);
+    content += elision.replacement;
+    position = elision.end;
+    line = lineOf(elision.end);
+    removed += elision.end - elision.start - elision.replacement.length;
+    removedBefore.push({ end: elision.end - contentStart, removed });
+  }
+  copy(node.getEnd());
+
+  // 省略した範囲より後ろのメンバーは、省略で短くなった分だけ前にずらす
+  const memberOffsets = members
+    .map(toOffset)
+    .map(offset => offset - (removedBefore.filter(entry => entry.end <= offset).pop()?.removed || 0))
+    .filter(offset => offset > 0);
+
+  content = content.trim();
+  const lines = lineMap.slice(0, countLines(content));
+  const contiguous = lines.every((value, i) => value === lines[0] + i);
+
+  return { content, memberOffsets, lineMap: contiguous ? undefined : lines };
+}
+
+/**
+ * コードチャンクの分割位置（直下の文・メンバー、入れ子のブロック内の文の順）
+ * 先頭の JSDoc・コメントを含めるため、各文の行頭を分割位置にする
+ */
+function codeSplitLevels(node: ts.Node, sourceFile: ts.SourceFile): SplitLevels {
+  const toOffset = lineOffsetFrom(node, sourceFile);
+  const direct = directMembers(node).map(toOffset);
+  const nested: number[] = [];
+  const visit = (child: ts.Node) => {
+    directMembers(child).forEach(member => nested.push(toOffset(member)));
+    ts.forEachChild(child, visit);
+  };
+  ts.forEachChild(node, visit);
+
+  return [direct, nested].map(level => level.filter(offset => offset > 0));
+}
+
+/**
+ * モジュール本体のチャンクの分割位置（トップレベルの文の順）
+ */
+function moduleSplitLevels(statements: ts.Node[], sourceFile: ts.SourceFile): SplitLevels {
+  const toOffset = lineOffsetFrom(statements[0], sourceFile);
+  return [statements.slice(1).map(toOffset).filter(offset => offset > 0)];
+}
+
+// チャンク本文（node の先頭の空白を除いた位置）から、子ノードの行頭までのオフセット
+function lineOffsetFrom(node: ts.Node, sourceFile: ts.SourceFile): (child: ts.Node) => number {
+  const text = sourceFile.text;
+  const raw = text.substring(node.getFullStart(), node.getEnd());
+  const contentStart = node.getFullStart() + raw.length - raw.trimStart().length;
+  return child => text.lastIndexOf('\n', child.getStart(sourceFile, true) - 1) + 1 - contentStart;
+}
+
+function directMembers(node: ts.Node): readonly ts.Node[] {
+  if (ts.isClassLike(node) || ts.isInterfaceDeclaration(node) || ts.isTypeLiteralNode(node) || ts.isEnumDeclaration(node)) {
+    return node.members;
+  }
+  if (ts.isVariableStatement(node)) {
+    const declarations = node.declarationList.declarations;
+    return declarations.length === 1 && declarations[0].initializer ? directMembers(declarations[0].initializer) : declarations;
+  }
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    return directMembers(node.expression);
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    return node.properties;
+  }
+  if (ts.isModuleDeclaration(node)) {
+    return node.body ? directMembers(node.body) : [];
+  }
+  if (ts.isTypeAliasDeclaration(node)) {
+    return ts.isTypeLiteralNode(node.type) ? node.type.members : [];
+  }
+  if (ts.isFunctionLike(node)) {
+    const body = (node as ts.FunctionLikeDeclaration).body;
+    return body && ts.isBlock(body) ? body.statements : [];
+  }
+  if (ts.isBlock(node) || ts.isModuleBlock(node) || ts.isCaseClause(node) || ts.isDefaultClause(node)) {
+    return node.statements;
+  }
+  return [];
+}
+
+/**
+ * 文章チャンクの分割位置（段落、文の順）。コードブロック内の空行では分割しない
+ */
+function proseSplitLevels(chunk: DocumentChunk): SplitLevels {
+  const content = chunk.content;
+  if (CODE_CHUNK_TYPES.has(chunk.type)) {
+    return [];
+  }
+
+  const paragraphs: number[] = [];
+  let inFence = false;
+  let offset = 0;
+  let previousBlank = false;
+  for (const line of content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const blank = !line.trim();
+    if (!inFence && previousBlank && !blank) {
+      paragraphs.push(offset);
+    }
+    previousBlank = blank && !inFence;
+    offset += line.length + 1;
+  }
+
+  const sentences = [...content.matchAll(/[.!?](?:\s+)|[。！？]/g)]
+    .map(match => match.index! + match[0].length)
+    .filter(position => position < content.length);
+
+  return [paragraphs, sentences];
+}
+
+function lineStarts(content: string): number[] {
+  const starts: number[] = [];
+  for (let i = content.indexOf('\n'); i !== -1 && i < content.length - 1; i = content.indexOf('\n', i + 1)) {
+    starts.push(i + 1);
+  }
+  return starts;
+}
+
+function trimSplit(content: string, start: number, end: number): { content: string; start: number; end: number } {
+  const text = content.substring(start, end);
+  const trimmedStart = start + text.length - text.trimStart().length;
+  const trimmed = text.trim();
+  return { content: trimmed, start: trimmedStart, end: trimmedStart + trimmed.length };
+}
+
 // ユーティリティ関数
 export function estimateTokenCount(text: string): number {
   // GPT-4 tokenizer を近似した単純な実装
@@ -556,4 +1256,7 @@ export function detectDocumentType(content: string, filePath?: string): Document
   }
 
   return 'text';
-}
\ No newline at end of file
+}
+
+export { parseDocComment, extractSignature, collectExportedNames } from './doc-comment.js';
+export type { DocComment, CodeSignature } from './doc-comment.js';
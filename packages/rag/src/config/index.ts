@@ -3,18 +3,13 @@
  */
 import { readFileSync } from 'fs';
 import { join } from 'path';
-
-export interface EmbeddingModelInfo {
-  dimensions: number;
-  description: string;
-  downloadUrl?: string;
-}
+import { EmbeddingModelDefinition, EmbeddingPrompts, modelRegistry, validateModelDefinition } from '@cqm/shared';
 
 export interface RAGConfig {
   embedding: {
-    provider: 'ollama' | 'openai';
+    provider: 'ollama' | 'openai' | 'local';
     defaultModel: string;
-    models: Record<string, EmbeddingModelInfo>;
+    models: EmbeddingModelDefinition[]; // カスタムモデル（組み込みモデルは @cqm/shared のレジストリで定義）
     retries: {
       maxAttempts: number;
       baseDelay: number;
@@ -52,8 +47,24 @@ export interface RAGConfig {
   };
 }
 
+/**
+ * 旧形式（モデル名をキーとするオブジェクト）の embedding.models の値
+ * @deprecated embedding.models は EmbeddingModelDefinition の配列で指定してください
+ */
+export interface LegacyEmbeddingModelInfo {
+  dimensions: number;
+  description: string;
+  downloadUrl?: string;
+  prompts?: EmbeddingPrompts;
+}
+
+// 旧形式ではコンテキスト長を持たないため、未登録モデルは最も短い組み込みモデルに合わせる
+const LEGACY_CONTEXT_LENGTH = 256;
+
 export interface ChunkingStrategy {
-  type: 'function' | 'class' | 'interface' | 'section' | 'paragraph' | 'issue' | 'comment';
+  type:
+    | 'function' | 'class' | 'interface' | 'variable' | 'enum' | 'namespace' | 'module'
+    | 'section' | 'paragraph' | 'issue' | 'comment';
   maxTokens: number;
   overlap: number;
   preserveContext: boolean;
@@ -65,6 +76,7 @@ export class RAGConfigManager {
 
   private constructor(configPath?: string) {
     this.config = this.loadConfig(configPath);
+    this.registerCustomModels();
   }
 
   static getInstance(configPath?: string): RAGConfigManager {
@@ -80,24 +92,7 @@ export class RAGConfigManager {
       embedding: {
         provider: 'ollama',
         defaultModel: 'nomic-embed-text',
-        models: {
-          'nomic-embed-text': {
-            dimensions: 768,
-            description: 'General purpose embedding model optimized for search'
-          },
-          'mxbai-embed-large': {
-            dimensions: 1024,
-            description: 'High-dimensional model for precise semantic matching'
-          },
-          'all-minilm': {
-            dimensions: 384,
-            description: 'Lightweight model for fast processing'
-          },
-          'text-embedding-3-small': {
-            dimensions: 1536,
-            description: 'OpenAI embedding model (requires API key)'
-          }
-        },
+        models: [],
         retries: {
           maxAttempts: 3,
           baseDelay: 1000
@@ -162,10 +157,10 @@ export class RAGConfigManager {
       embedding: {
         ...defaultConfig.embedding,
         ...userConfig.embedding,
-        models: {
-          ...defaultConfig.embedding.models,
-          ...userConfig.embedding?.models
-        },
+        models: normalizeCustomModels(
+          userConfig.embedding?.models,
+          userConfig.embedding?.provider ?? defaultConfig.embedding.provider
+        ) ?? defaultConfig.embedding.models,
         retries: {
           ...defaultConfig.embedding.retries,
           ...userConfig.embedding?.retries
@@ -202,10 +197,17 @@ export class RAGConfigManager {
     };
   }
 
+  // 検証を通ったカスタムモデルのみ登録し、不正な定義は validateConfig で報告する
+  private registerCustomModels(): void {
+    modelRegistry.registerAll(
+      this.config.embedding.models.filter(model => validateModelDefinition(model).length === 0)
+    );
+  }
+
   private applyEnvironmentOverrides(config: RAGConfig): RAGConfig {
     // 環境変数からの設定上書き
     if (process.env.CQM_EMBEDDING_PROVIDER) {
-      config.embedding.provider = process.env.CQM_EMBEDDING_PROVIDER as 'ollama' | 'openai';
+      config.embedding.provider = process.env.CQM_EMBEDDING_PROVIDER as 'ollama' | 'openai' | 'local';
     }
 
     if (process.env.CQM_EMBEDDING_MODEL) {
@@ -259,16 +261,39 @@ export class RAGConfigManager {
     return { ...this.config.performance };
   }
 
-  getModelInfo(modelName: string): EmbeddingModelInfo | undefined {
-    return this.config.embedding.models[modelName];
+  getModelInfo(modelName: string): EmbeddingModelDefinition | undefined {
+    return modelRegistry.get(modelName);
   }
 
+  /**
+   * ドキュメントタイプの戦略（maxTokens・overlap の省略時は chunking.defaults）
+   */
   getChunkingStrategy(documentType: string): ChunkingStrategy | undefined {
-    return this.config.chunking.strategies[documentType];
+    const strategy = this.config.chunking.strategies[documentType];
+    if (!strategy) {
+      return undefined;
+    }
+
+    const { defaults } = this.config.chunking;
+    return {
+      ...strategy,
+      maxTokens: strategy.maxTokens ?? defaults.maxTokens,
+      overlap: strategy.overlap ?? defaults.overlap
+    };
+  }
+
+  /**
+   * 設定されたすべての戦略（MultimodalChunker の strategies に渡す）
+   */
+  getChunkingStrategies(): Record<string, ChunkingStrategy> {
+    return Object.fromEntries(
+      Object.keys(this.config.chunking.strategies).map(documentType => [documentType, this.getChunkingStrategy(documentType)!])
+    );
   }
 
   updateConfig(updates: Partial<RAGConfig>): void {
     this.config = this.mergeConfigs(this.config, updates);
+    this.registerCustomModels();
   }
 
   saveConfig(configPath: string): void {
@@ -280,8 +305,15 @@ export class RAGConfigManager {
     const errors: string[] = [];
 
     // 埋め込み設定の検証
-    if (!this.config.embedding.models[this.config.embedding.defaultModel]) {
-      errors.push(`Default embedding model '${this.config.embedding.defaultModel}' not found in models configuration`);
+    this.config.embedding.models.forEach(model => errors.push(...validateModelDefinition(model)));
+
+    const { provider, defaultModel } = this.config.embedding;
+    const registered = modelRegistry.get(defaultModel);
+    if (registered && registered.provider !== provider) {
+      errors.push(`Default embedding model '${defaultModel}' is registered for provider '${registered.provider}', not '${provider}'`);
+    } else if (!registered && provider !== 'openai') {
+      // OpenAI互換サーバーのモデルは未登録でも初回レスポンスで次元数を確定できる
+      errors.push(`Default embedding model '${defaultModel}' is not registered in the model registry`);
     }
 
     // ベクトル設定の検証
@@ -324,4 +356,36 @@ export function loadConfigFromFile(configPath: string): RAGConfig {
 
 export function getEnvironmentConfig(): RAGConfig {
   return RAGConfigManager.getInstance().getConfig();
+}
+
+/**
+ * embedding.models を配列形式にする。旧形式のオブジェクトは警告を出して変換し、
+ * 組み込みモデルはプロンプトを変更している場合のみ上書き定義として残す
+ */
+function normalizeCustomModels(
+  models: EmbeddingModelDefinition[] | Record<string, LegacyEmbeddingModelInfo> | undefined,
+  provider: RAGConfig['embedding']['provider']
+): EmbeddingModelDefinition[] | undefined {
+  if (models === undefined || Array.isArray(models)) {
+    return models;
+  }
+
+  console.warn('⚠️  embedding.models uses the legacy object format; converting it to a model list. Rewrite it as an array of model definitions.');
+
+  return Object.entries(models).flatMap(([name, info]): EmbeddingModelDefinition[] => {
+    const builtin = modelRegistry.get(name);
+    if (builtin) {
+      return info.prompts && JSON.stringify(info.prompts) !== JSON.stringify(builtin.prompts)
+        ? [{ ...builtin, prompts: info.prompts }]
+        : [];
+    }
+    return [{
+      name,
+      provider,
+      dimensions: info.dimensions,
+      contextLength: LEGACY_CONTEXT_LENGTH,
+      description: info.description,
+      prompts: info.prompts
+    }];
+  });
 }
\ No newline at end of file
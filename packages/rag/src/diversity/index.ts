@@ -0,0 +1,108 @@
+/**
+ * 検索結果の多様化 - Maximal Marginal Relevance（MMR）
+ *
+ * 大きなクラスに一致したクエリで、同じファイルのクラス・メソッドのチャンクが上位を占めるのを防ぐ。
+ * 候補から1件ずつ、関連度と選択済みの結果との類似度の差が最大のものを選ぶ。類似度はベクトルの
+ * コサイン類似度で測り、ベクトルのない結果（語彙検索のみの一致）は語彙の重なり（Jaccard 係数）で代用する。
+ */
+import { tokenizeForLexicalSearch } from '../lexical/index.js';
+import type { SearchResult } from '../vector/index.js';
+
+export interface DiversityOptions {
+  lambda?: number; // 関連度の重み（1 で関連度順のまま、0 で多様性のみ。既定: 0.5）
+  maxPerFile?: number; // 同じファイルから返す最大件数
+  candidates?: number; // 多様化の対象にする上位候補数（既定: 100）
+}
+
+export function maximalMarginalRelevance<T extends SearchResult>(
+  candidates: T[],
+  options: DiversityOptions & { limit?: number } = {}
+): T[] {
+  const lambda = Math.min(1, Math.max(0, options.lambda ?? 0.5));
+  const limit = options.limit ?? candidates.length;
+  const maxScore = Math.max(0, ...candidates.map(candidate => candidate.score));
+  const relevance = candidates.map(candidate => maxScore > 0 ? candidate.score / maxScore : 0);
+
+  const terms = new Map<number, Set<string>>();
+  const termsOf = (index: number) => {
+    let set = terms.get(index);
+    if (!set) {
+      set = new Set(tokenizeForLexicalSearch(candidates[index].document.payload.content));
+      terms.set(index, set);
+    }
+    return set;
+  };
+  const similarity = (a: number, b: number) => {
+    const vectorA = candidates[a].document.vector;
+    const vectorB = candidates[b].document.vector;
+    return vectorA.length > 0 && vectorA.length === vectorB.length
+      ? cosineSimilarity(vectorA, vectorB)
+      : jaccard(termsOf(a), termsOf(b));
+  };
+
+  const selected: number[] = [];
+  const perFile = new Map<string, number>();
+  // 選択済みの結果との最大類似度（選択のたびに更新する）
+  const redundancy = new Array<number>(candidates.length).fill(0);
+  const remaining = new Set(candidates.keys());
+
+  while (selected.length < limit && remaining.size > 0) {
+    let best = -1;
+    let bestValue = -Infinity;
+
+    for (const index of remaining) {
+      const source = candidates[index].document.payload.metadata.source;
+      if (options.maxPerFile !== undefined && (perFile.get(source) || 0) >= options.maxPerFile) {
+        remaining.delete(index);
+        continue;
+      }
+
+      // 同点の場合は元の順位が高い方を選ぶ
+      const value = lambda * relevance[index] - (1 - lambda) * redundancy[index];
+      if (value > bestValue) {
+        best = index;
+        bestValue = value;
+      }
+    }
+
+    if (best === -1) {
+      break;
+    }
+
+    remaining.delete(best);
+    selected.push(best);
+    const source = candidates[best].document.payload.metadata.source;
+    perFile.set(source, (perFile.get(source) || 0) + 1);
+    remaining.forEach(index => {
+      redundancy[index] = Math.max(redundancy[index], similarity(index, best));
+    });
+  }
+
+  return selected.map(index => candidates[index]);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  a.forEach(term => {
+    if (b.has(term)) {
+      shared++;
+    }
+  });
+  return shared / (a.size + b.size - shared);
+}
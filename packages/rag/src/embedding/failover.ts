@@ -0,0 +1,286 @@
+/**
+ * 埋め込みプロバイダーのフェイルオーバーチェーン
+ *
+ * 優先順に並べたプロバイダーをプロバイダーごとのサーキットブレーカーで保護し、
+ * 障害時は次のプロバイダーへ切り替える。次元数の異なるプロバイダーは混在させない。
+ * 切り替えるのはクエリの埋め込みだけで、インデックスに保存するベクトルは getPrimaryProvider で
+ * プライマリのみから生成する（同じ次元数でも別モデルのベクトルは埋め込み空間が異なるため）。
+ */
+import { CQMError } from '@cqm/shared';
+import type { EmbeddingProvider, EmbeddingModelInfo } from './index.js';
+import type { EmbeddingInputOptions } from './prompts.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // open に遷移する連続失敗回数
+  resetTimeout?: number; // open から half-open プローブまでの待機時間（ms）
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  failures: number;
+  lastFailure?: Date;
+  lastError?: string;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private lastFailure?: Date;
+  private lastError?: string;
+  private readonly options: Required<CircuitBreakerOptions>;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      failureThreshold: options.failureThreshold || 3,
+      resetTimeout: options.resetTimeout ?? 30000
+    };
+  }
+
+  /**
+   * リクエスト可否を判定する。open 状態で待機時間を過ぎていれば
+   * half-open に遷移し、1件だけプローブを通す
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.options.resetTimeout) {
+        return false;
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.probeInFlight) {
+      return false;
+    }
+
+    this.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(error?: unknown): void {
+    this.failures++;
+    this.lastFailure = new Date();
+    this.lastError = error instanceof Error ? error.message : error !== undefined ? String(error) : undefined;
+
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+
+    this.probeInFlight = false;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    // 待機時間経過後は次のリクエストでプローブされることを反映する
+    const state = this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeout
+      ? 'half-open'
+      : this.state;
+
+    return {
+      state,
+      failures: this.failures,
+      lastFailure: this.lastFailure,
+      lastError: this.lastError
+    };
+  }
+}
+
+export interface ProviderChainEntry {
+  name: string;
+  provider: EmbeddingProvider;
+}
+
+type FailoverEntry = ProviderChainEntry & { breaker: CircuitBreaker };
+
+export class FailoverEmbeddingProvider implements EmbeddingProvider {
+  private readonly chain: FailoverEntry[];
+  private dimensions: number;
+  private readonly warnedMismatches = new Set<string>();
+
+  constructor(chain: ProviderChainEntry[], options: CircuitBreakerOptions = {}) {
+    if (chain.length === 0) {
+      throw new CQMError('Failover chain requires at least one provider', 'PROVIDER_ERROR');
+    }
+
+    this.chain = chain.map(entry => ({ ...entry, breaker: new CircuitBreaker(options) }));
+    // 次元数未確定（OpenAI互換の未知モデル等）の場合は最初の成功時に確定する
+    this.dimensions = chain[0].provider.getDimensions();
+  }
+
+  // プロンプトテンプレートは切り替え先のプロバイダーが自身のモデルのものを適用する
+  generateEmbedding(text: string, input?: EmbeddingInputOptions): Promise<number[]> {
+    return this.embed(this.chain, text, input);
+  }
+
+  generateBatchEmbeddings(texts: string[], input?: EmbeddingInputOptions): Promise<number[][]> {
+    return this.embedBatch(this.chain, texts, input);
+  }
+
+  /**
+   * プライマリだけで埋め込むプロバイダー（インデックス・埋め込みキャッシュ用）
+   *
+   * ブレーカーはチェーンと共有し、open の間はフォールバックせずに失敗する。
+   */
+  getPrimaryProvider(): EmbeddingProvider {
+    const primary = [this.chain[0]];
+    return {
+      generateEmbedding: (text, input) => this.embed(primary, text, input),
+      generateBatchEmbeddings: (texts, input) => this.embedBatch(primary, texts, input),
+      getDimensions: () => this.getDimensions(),
+      getMaxTokens: () => this.getMaxTokens(),
+      isModelAvailable: () => this.chain[0].provider.isModelAvailable(),
+      getModelInfo: () => this.getModelInfo()
+    };
+  }
+
+  async isModelAvailable(): Promise<boolean> {
+    for (const entry of this.chain) {
+      if (!this.isCompatible(entry)) {
+        continue;
+      }
+
+      try {
+        if (await entry.provider.isModelAvailable()) {
+          if (this.dimensions === 0) {
+            this.dimensions = entry.provider.getDimensions();
+          }
+          return true;
+        }
+      } catch {
+        // 利用不可として次のプロバイダーを確認
+      }
+    }
+
+    return false;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  getMaxTokens(): number {
+    return this.chain[0].provider.getMaxTokens();
+  }
+
+  getModelInfo(): EmbeddingModelInfo {
+    return { ...this.chain[0].provider.getModelInfo(), dimensions: this.dimensions };
+  }
+
+  getActiveProviderName(): string | null {
+    const active = this.chain.find(entry => entry.breaker.getStatus().state !== 'open' && this.isCompatible(entry));
+    return active ? active.name : null;
+  }
+
+  getBreakerStatus(): Record<string, CircuitBreakerStatus> {
+    const status: Record<string, CircuitBreakerStatus> = {};
+    for (const entry of this.chain) {
+      status[entry.name] = entry.breaker.getStatus();
+    }
+    return status;
+  }
+
+  private embed(entries: FailoverEntry[], text: string, input?: EmbeddingInputOptions): Promise<number[]> {
+    return this.execute(entries, async provider => {
+      const embedding = await provider.generateEmbedding(text, input);
+      this.assertDimensions([embedding]);
+      return embedding;
+    });
+  }
+
+  private embedBatch(entries: FailoverEntry[], texts: string[], input?: EmbeddingInputOptions): Promise<number[][]> {
+    if (texts.length === 0) {
+      return Promise.resolve([]);
+    }
+
+    return this.execute(entries, async provider => {
+      const embeddings = await provider.generateBatchEmbeddings(texts, input);
+      this.assertDimensions(embeddings);
+      return embeddings;
+    });
+  }
+
+  private async execute<T>(entries: FailoverEntry[], operation: (provider: EmbeddingProvider) => Promise<T>): Promise<T> {
+    const failures: string[] = [];
+
+    for (const entry of entries) {
+      if (!this.isCompatible(entry)) {
+        failures.push(`${entry.name}: dimension mismatch`);
+        continue;
+      }
+
+      if (!entry.breaker.tryAcquire()) {
+        failures.push(`${entry.name}: circuit open`);
+        continue;
+      }
+
+      try {
+        const result = await operation(entry.provider);
+        entry.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        // 入力不正・一部テキストのみの失敗はプロバイダー障害として扱わない
+        if (error instanceof CQMError && (error.code === 'INVALID_INPUT' || error.code === 'PARTIAL_EMBEDDING_ERROR')) {
+          entry.breaker.recordSuccess();
+          throw error;
+        }
+
+        entry.breaker.recordFailure(error);
+        failures.push(`${entry.name}: ${error instanceof Error ? error.message : String(error)}`);
+
+        if (entry !== entries[entries.length - 1]) {
+          console.warn(`Embedding provider ${entry.name} failed, falling back to next provider`);
+        }
+      }
+    }
+
+    throw new CQMError(
+      entries.length === 1
+        ? `Embedding provider failed (${failures.join('; ')})`
+        : `All embedding providers failed (${failures.join('; ')})`,
+      'PROVIDER_ERROR'
+    );
+  }
+
+  private isCompatible(entry: ProviderChainEntry): boolean {
+    const dimensions = entry.provider.getDimensions();
+    if (this.dimensions === 0 || dimensions === 0 || dimensions === this.dimensions) {
+      return true;
+    }
+
+    if (!this.warnedMismatches.has(entry.name)) {
+      this.warnedMismatches.add(entry.name);
+      console.warn(
+        `Skipping embedding provider ${entry.name}: ${dimensions}d does not match index dimensions ${this.dimensions}d`
+      );
+    }
+    return false;
+  }
+
+  private assertDimensions(embeddings: number[][]): void {
+    for (const embedding of embeddings) {
+      if (this.dimensions === 0) {
+        this.dimensions = embedding.length;
+      }
+
+      if (embedding.length !== this.dimensions) {
+        throw new CQMError(
+          `Embedding dimensions mismatch: got ${embedding.length}, expected ${this.dimensions}`,
+          'EMBEDDING_ERROR'
+        );
+      }
+    }
+  }
+}
@@ -2,11 +2,15 @@
  * 埋め込み生成プロバイダー - CQM-TEC-002設計に基づく実装
  */
 import { Ollama } from 'ollama';
-import { CQMError } from '@cqm/shared';
+import { CQMError, DistanceMetric, EmbeddingModelDefinition, EmbeddingProviderName, BUILTIN_EMBEDDING_MODELS, modelRegistry } from '@cqm/shared';
+import { FailoverEmbeddingProvider, CircuitBreakerOptions } from './failover.js';
+import { Tokenizer, getTokenizerForModel } from '../tokenizer/index.js';
+import { formatEmbeddingInputs, type EmbeddingPrompts, type EmbeddingInputOptions } from './prompts.js';
 
 export interface EmbeddingProvider {
-  generateEmbedding(text: string): Promise<number[]>;
-  generateBatchEmbeddings(texts: string[]): Promise<number[][]>;
+  // input を指定すると、埋め込むモデル自身のプロンプトテンプレートを適用してから埋め込む
+  generateEmbedding(text: string, input?: EmbeddingInputOptions): Promise<number[]>;
+  generateBatchEmbeddings(texts: string[], input?: EmbeddingInputOptions): Promise<number[][]>;
   getDimensions(): number;
   getMaxTokens(): number;
   isModelAvailable(): Promise<boolean>;
@@ -19,6 +23,8 @@ export interface EmbeddingModelInfo {
   maxTokens: number;
   contextLength: number;
   description: string;
+  distance?: DistanceMetric;
+  prompts?: EmbeddingPrompts; // クエリ／ドキュメント用プロンプトテンプレート
 }
 
 export interface EmbeddingProviderOptions {
@@ -26,127 +32,305 @@ export interface EmbeddingProviderOptions {
   timeout?: number;
   maxRetries?: number;
   batchSize?: number;
+  retryDelay?: number; // リトライ初回待機時間（ms）、以降は指数バックオフ
+  prompts?: EmbeddingPrompts; // モデル定義のテンプレートを上書き
 }
 
-// Ollama モデル定義
-export const OLLAMA_MODELS = {
-  'nomic-embed-text': {
-    name: 'nomic-embed-text',
-    dimensions: 768,
-    maxTokens: 8192,
-    contextLength: 8192,
-    description: 'Nomic Embed Text v1.5 - High quality text embeddings'
-  },
-  'mxbai-embed-large': {
-    name: 'mxbai-embed-large',
-    dimensions: 1024,
-    maxTokens: 512,
-    contextLength: 512,
-    description: 'MixedBread AI Large Embeddings - Multilingual support'
-  },
-  'all-minilm': {
-    name: 'all-minilm',
-    dimensions: 384,
-    maxTokens: 256,
-    contextLength: 256,
-    description: 'All-MiniLM-L6-v2 - Fast and lightweight embeddings'
-  }
-} as const;
-
-export type OllamaModelName = keyof typeof OLLAMA_MODELS;
+export interface OllamaEmbeddingProviderOptions extends EmbeddingProviderOptions {
+  concurrency?: number; // 同時に送信するバッチリクエスト数
+  maxBatchTokens?: number; // 1リクエストあたりの推定トークン上限（既定: モデルの maxTokens）
+}
+
+export interface EmbeddingItemFailure {
+  index: number;
+  error: string;
+}
+
+export interface PartialEmbeddingErrorDetails {
+  embeddings: Array<number[] | null>;
+  failures: EmbeddingItemFailure[];
+}
+
+/**
+ * モデルレジストリの定義をプロバイダーのモデル情報に変換する
+ */
+export function toEmbeddingModelInfo(definition: EmbeddingModelDefinition): EmbeddingModelInfo {
+  return {
+    name: definition.name,
+    dimensions: definition.dimensions,
+    maxTokens: definition.contextLength,
+    contextLength: definition.contextLength,
+    description: definition.description || definition.name,
+    distance: definition.distance,
+    prompts: definition.prompts
+  };
+}
+
+// Ollama の 429 以外の 4xx（コンテキスト長超過など入力起因のエラー）か
+function isInputError(error: unknown): boolean {
+  const status = (error as { status_code?: number }).status_code;
+  return status !== undefined && status >= 400 && status < 500 && status !== 429;
+}
+
+/**
+ * バッチ内の一部テキストのみ埋め込みに失敗したことを示すエラーか判定する
+ * details.embeddings には成功分のベクトル（失敗分は null）が入る
+ */
+export function isPartialEmbeddingError(
+  error: unknown
+): error is CQMError & { details: PartialEmbeddingErrorDetails } {
+  return error instanceof CQMError && error.code === 'PARTIAL_EMBEDDING_ERROR';
+}
+
+export interface OpenAIEmbeddingProviderOptions extends EmbeddingProviderOptions {
+  apiKey?: string;
+  dimensions?: number; // text-embedding-3 系では次元削減として送信
+}
+
+// 組み込みモデルのプロバイダー別モデル情報（旧定数の互換用）
+function builtinModelInfos<Name extends string>(provider: EmbeddingProviderName): Readonly<Record<Name, EmbeddingModelInfo>> {
+  return Object.fromEntries(BUILTIN_EMBEDDING_MODELS
+    .filter(definition => definition.provider === provider)
+    .map(definition => [definition.name, toEmbeddingModelInfo(definition)])) as Record<Name, EmbeddingModelInfo>;
+}
+
+/**
+ * Ollama モデル定義
+ * @deprecated modelRegistry（@cqm/shared）を使用してください
+ */
+export const OLLAMA_MODELS = builtinModelInfos<OllamaModelName>('ollama');
+
+/** @deprecated modelRegistry に登録された任意のモデル名を指定できます */
+export type OllamaModelName = 'nomic-embed-text' | 'mxbai-embed-large' | 'all-minilm';
 
 export class OllamaEmbeddingProvider implements EmbeddingProvider {
-  private ollama: Ollama;
+  private client: Ollama;
   private readonly model: string;
   private readonly modelInfo: EmbeddingModelInfo;
-  private readonly options: Required<EmbeddingProviderOptions>;
+  private readonly options: Required<Omit<OllamaEmbeddingProviderOptions, 'prompts'>>;
+  private readonly tokenizer: Tokenizer;
   private isAvailable: boolean | null = null;
 
   constructor(
-    model: OllamaModelName = 'nomic-embed-text',
-    options: EmbeddingProviderOptions = {}
+    model: string = 'nomic-embed-text',
+    options: OllamaEmbeddingProviderOptions = {}
   ) {
     this.model = model;
-    this.modelInfo = OLLAMA_MODELS[model];
+    // 組み込み・カスタム定義のいずれにもないモデルは MODEL_NOT_FOUND
+    this.modelInfo = toEmbeddingModelInfo(modelRegistry.resolve(model, 'ollama'));
+    if (options.prompts) {
+      this.modelInfo.prompts = options.prompts;
+    }
+    this.tokenizer = getTokenizerForModel(model);
     
     this.options = {
       baseUrl: options.baseUrl || 'http://localhost:11434',
       timeout: options.timeout || 30000,
       maxRetries: options.maxRetries || 3,
-      batchSize: options.batchSize || 10
+      batchSize: options.batchSize || 32,
+      retryDelay: options.retryDelay ?? 1000,
+      concurrency: options.concurrency || 2,
+      maxBatchTokens: options.maxBatchTokens || this.modelInfo.maxTokens
     };
 
-    this.ollama = new Ollama({
+    this.client = new Ollama({
       host: this.options.baseUrl
     });
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string, input?: EmbeddingInputOptions): Promise<number[]> {
     if (!text.trim()) {
       throw new CQMError('Empty text provided for embedding', 'INVALID_INPUT');
     }
+    [text] = formatEmbeddingInputs([text], this.modelInfo.prompts, input);
 
     // テキスト長チェック
-    if (text.length > this.modelInfo.maxTokens * 4) { // 概算チェック
-      console.warn(`Text length (${text.length}) may exceed model limit`);
+    const tokenCount = this.tokenizer.countTokens(text);
+    if (tokenCount > this.modelInfo.maxTokens) {
+      console.warn(`Text (~${tokenCount} tokens) may exceed model limit of ${this.modelInfo.maxTokens}`);
     }
 
     try {
-      const response = await this.retryOperation(async () => {
-        return await this.ollama.embeddings({
-          model: this.model,
-          prompt: text
-        });
-      });
+      const [embedding] = await this.embedBatch([text]);
+      return embedding;
+    } catch (error) {
+      throw this.toEmbeddingError(error);
+    }
+  }
 
-      if (!response.embedding || response.embedding.length === 0) {
-        throw new CQMError('Empty embedding response from Ollama', 'EMBEDDING_ERROR');
-      }
+  /**
+   * /api/embed の複数入力で1リクエストずつ送信する。
+   * バッチは件数（batchSize）と推定トークン数（maxBatchTokens）の両方で区切り、
+   * concurrency 件まで並列に処理する。失敗したバッチは分割して原因のテキストを特定し、
+   * 他のテキストの結果は保持する
+   */
+  async generateBatchEmbeddings(texts: string[], input?: EmbeddingInputOptions): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
 
-      if (response.embedding.length !== this.modelInfo.dimensions) {
-        throw new CQMError(
-          `Unexpected embedding dimensions: got ${response.embedding.length}, expected ${this.modelInfo.dimensions}`,
-          'EMBEDDING_ERROR'
-        );
+    texts.forEach(text => {
+      if (!text.trim()) {
+        throw new CQMError('Empty text provided for embedding', 'INVALID_INPUT');
+      }
+    });
+    texts = formatEmbeddingInputs(texts, this.modelInfo.prompts, input);
+
+    const results: Array<number[] | null> = new Array(texts.length).fill(null);
+    const failures: EmbeddingItemFailure[] = [];
+    const batches = this.planBatches(texts);
+
+    let next = 0;
+    const worker = async () => {
+      while (next < batches.length) {
+        const indexes = batches[next++];
+        try {
+          await this.embedIsolated(texts, indexes, results, failures);
+        } catch (error) {
+          // サーバー側の障害では残りのバッチも失敗するため、新しいバッチを取らせない
+          next = batches.length;
+          throw error;
+        }
       }
+    };
 
-      return response.embedding;
+    try {
+      await Promise.all(
+        Array.from({ length: Math.min(this.options.concurrency, batches.length) }, worker)
+      );
     } catch (error) {
-      if (error instanceof CQMError) {
-        throw error;
-      }
-      
+      throw this.toEmbeddingError(error);
+    }
+
+    if (failures.length === texts.length) {
       throw new CQMError(
-        `Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `Failed to generate embeddings: ${failures[0].error}`,
         'EMBEDDING_ERROR',
-        error instanceof Error ? error : new Error(String(error))
+        { failures }
+      );
+    }
+
+    if (failures.length > 0) {
+      failures.sort((a, b) => a.index - b.index);
+      throw new CQMError(
+        `Failed to embed ${failures.length} of ${texts.length} texts`,
+        'PARTIAL_EMBEDDING_ERROR',
+        { embeddings: results, failures } satisfies PartialEmbeddingErrorDetails
       );
     }
+
+    return results as number[][];
   }
 
-  async generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
-    if (texts.length === 0) {
-      return [];
+  private planBatches(texts: string[]): number[][] {
+    const batches: number[][] = [];
+    let current: number[] = [];
+    let currentTokens = 0;
+
+    texts.forEach((text, index) => {
+      const tokens = this.tokenizer.countTokens(text);
+      const full = current.length >= this.options.batchSize
+        || (current.length > 0 && currentTokens + tokens > this.options.maxBatchTokens);
+
+      if (full) {
+        batches.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+
+      current.push(index);
+      currentTokens += tokens;
+    });
+
+    if (current.length > 0) {
+      batches.push(current);
     }
 
-    // バッチサイズに分割して処理
-    const results: number[][] = [];
-    
-    for (let i = 0; i < texts.length; i += this.options.batchSize) {
-      const batch = texts.slice(i, i + this.options.batchSize);
-      
-      const batchPromises = batch.map(text => this.generateEmbedding(text));
-      const batchResults = await Promise.all(batchPromises);
-      
-      results.push(...batchResults);
-      
-      // バッチ間の遅延（レート制限対策）
-      if (i + this.options.batchSize < texts.length) {
-        await this.delay(100);
+    return batches;
+  }
+
+  private async embedIsolated(
+    texts: string[],
+    indexes: number[],
+    results: Array<number[] | null>,
+    failures: EmbeddingItemFailure[]
+  ): Promise<void> {
+    try {
+      const embeddings = await this.embedBatch(indexes.map(index => texts[index]));
+      indexes.forEach((index, i) => { results[index] = embeddings[i]; });
+      return;
+    } catch (error) {
+      // 接続エラー・タイムアウト・5xx はテキストによらず失敗するため、分割せずにフェイルオーバーへ任せる
+      if (!isInputError(error)) {
+        throw error;
+      }
+
+      if (indexes.length > 1) {
+        // 二分割して失敗原因のテキストを絞り込む
+        const middle = Math.ceil(indexes.length / 2);
+        await this.embedIsolated(texts, indexes.slice(0, middle), results, failures);
+        await this.embedIsolated(texts, indexes.slice(middle), results, failures);
+        return;
+      }
+
+      // コンテキスト長超過の単一テキストは切り詰めて再試行
+      const text = texts[indexes[0]];
+      if (this.tokenizer.countTokens(text) > this.modelInfo.maxTokens) {
+        try {
+          console.warn(`Text at index ${indexes[0]} exceeds model context, embedding truncated input`);
+          const [embedding] = await this.embedBatch([text], true);
+          results[indexes[0]] = embedding;
+          return;
+        } catch (truncatedError) {
+          error = truncatedError;
+        }
       }
+
+      failures.push({
+        index: indexes[0],
+        error: error instanceof Error ? error.message : String(error)
+      });
     }
+  }
 
-    return results;
+  private async embedBatch(input: string[], truncate = false): Promise<number[][]> {
+    const response = await this.retryOperation(async () => {
+      return await this.client.embed({
+        model: this.model,
+        input,
+        truncate
+      });
+    });
+
+    if (!response.embeddings || response.embeddings.length !== input.length) {
+      throw new CQMError(
+        `Unexpected embedding count from Ollama: got ${response.embeddings?.length ?? 0}, expected ${input.length}`,
+        'EMBEDDING_ERROR'
+      );
+    }
+
+    for (const embedding of response.embeddings) {
+      if (embedding.length !== this.modelInfo.dimensions) {
+        throw new CQMError(
+          `Unexpected embedding dimensions: got ${embedding.length}, expected ${this.modelInfo.dimensions}`,
+          'EMBEDDING_ERROR'
+        );
+      }
+    }
+
+    return response.embeddings;
+  }
+
+  private toEmbeddingError(error: unknown): CQMError {
+    if (error instanceof CQMError) {
+      return error;
+    }
+
+    return new CQMError(
+      `Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'EMBEDDING_ERROR',
+      error instanceof Error ? error : new Error(String(error))
+    );
   }
 
   async isModelAvailable(): Promise<boolean> {
@@ -155,7 +339,7 @@ export class OllamaEmbeddingProvider implements EmbeddingProvider {
     }
 
     try {
-      const models = await this.ollama.list();
+      const models = await this.client.list();
       const isInstalled = models.models.some(m => m.name.includes(this.model));
       
       if (!isInstalled) {
@@ -179,7 +363,7 @@ export class OllamaEmbeddingProvider implements EmbeddingProvider {
     try {
       console.log(`Pulling model ${this.model}...`);
       
-      const stream = await this.ollama.pull({
+      const stream = await this.client.pull({
         model: this.model,
         stream: true
       });
@@ -208,9 +392,14 @@ export class OllamaEmbeddingProvider implements EmbeddingProvider {
         return await operation();
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
+
+        // 入力起因のエラー（4xx、コンテキスト長超過等）はリトライしない
+        if (isInputError(error)) {
+          break;
+        }
         
         if (attempt < this.options.maxRetries - 1) {
-          const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
+          const delay = Math.pow(2, attempt) * this.options.retryDelay; // Exponential backoff
           console.warn(`Embedding attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
           await this.delay(delay);
         }
@@ -237,30 +426,245 @@ export class OllamaEmbeddingProvider implements EmbeddingProvider {
   }
 }
 
-// レガシー OpenAI プロバイダー（将来の実装用）
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{ embedding: number[]; index: number }>;
+  model?: string;
+}
+
+/**
+ * OpenAI モデル定義
+ * @deprecated modelRegistry（@cqm/shared）を使用してください
+ */
+export const OPENAI_MODELS = builtinModelInfos<OpenAIModelName>('openai');
+
+/** @deprecated modelRegistry に登録された任意のモデル名を指定できます */
+export type OpenAIModelName = 'text-embedding-3-small' | 'text-embedding-3-large' | 'text-embedding-ada-002';
+
+/**
+ * OpenAI互換 /v1/embeddings エンドポイント向けプロバイダー
+ * OpenAI本体に加え、LM Studio・vLLM等のローカル互換サーバーにも baseUrl で接続できる
+ */
 export class OpenAIEmbeddingProvider implements EmbeddingProvider {
-  constructor(private model: string = 'text-embedding-3-small') {}
+  private readonly model: string;
+  private readonly options: Required<Omit<EmbeddingProviderOptions, 'prompts'>> & { apiKey: string };
+  private readonly description?: string;
+  private readonly distance?: DistanceMetric;
+  private readonly prompts?: EmbeddingPrompts;
+  private readonly requestedDimensions?: number;
+  private readonly maxTokens: number;
+  private readonly tokenizer: Tokenizer;
+  private dimensions: number;
+  private isAvailable: boolean | null = null;
+
+  constructor(
+    model: string = 'text-embedding-3-small',
+    options: OpenAIEmbeddingProviderOptions = {}
+  ) {
+    this.model = model;
+
+    this.options = {
+      baseUrl: (options.baseUrl || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+      apiKey: options.apiKey ?? process.env.OPENAI_API_KEY ?? '',
+      timeout: options.timeout || 30000,
+      maxRetries: options.maxRetries || 3,
+      batchSize: options.batchSize || 100,
+      retryDelay: options.retryDelay ?? 1000
+    };
+
+    const knownModel = modelRegistry.get(model, 'openai');
+
+    // dimensions パラメータは text-embedding-3 系のみサポート
+    if (options.dimensions && model.startsWith('text-embedding-3')) {
+      this.requestedDimensions = options.dimensions;
+    }
 
-  async generateEmbedding(text: string): Promise<number[]> {
-    // OpenAI API呼び出し（実装予定）
-    console.log(`Generating OpenAI embedding for text length: ${text.length}`);
-    return new Array(1536).fill(0).map(() => Math.random());
+    // 未知のモデル（互換サーバー）は初回レスポンスで次元数を確定する
+    this.dimensions = options.dimensions || knownModel?.dimensions || 0;
+    this.maxTokens = knownModel?.contextLength || 8191;
+    this.description = knownModel?.description;
+    this.distance = knownModel?.distance;
+    this.prompts = options.prompts || knownModel?.prompts;
+    this.tokenizer = getTokenizerForModel(model);
   }
 
-  async generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
-    return Promise.all(texts.map(text => this.generateEmbedding(text)));
+  async generateEmbedding(text: string, input?: EmbeddingInputOptions): Promise<number[]> {
+    if (!text.trim()) {
+      throw new CQMError('Empty text provided for embedding', 'INVALID_INPUT');
+    }
+    [text] = formatEmbeddingInputs([text], this.prompts, input);
+
+    const tokenCount = this.tokenizer.countTokens(text);
+    if (tokenCount > this.maxTokens) {
+      console.warn(`Text (~${tokenCount} tokens) may exceed model limit of ${this.maxTokens}`);
+    }
+
+    const [embedding] = await this.requestEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateBatchEmbeddings(texts: string[], input?: EmbeddingInputOptions): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    if (texts.some(text => !text.trim())) {
+      throw new CQMError('Empty text provided for embedding', 'INVALID_INPUT');
+    }
+    texts = formatEmbeddingInputs(texts, this.prompts, input);
+
+    // バッチごとに1リクエストで送信
+    const results: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.options.batchSize) {
+      const batch = texts.slice(i, i + this.options.batchSize);
+      results.push(...(await this.requestEmbeddings(batch)));
+    }
+
+    return results;
   }
 
   async isModelAvailable(): Promise<boolean> {
-    return false; // 未実装
+    if (this.isAvailable !== null) {
+      return this.isAvailable;
+    }
+
+    try {
+      // テスト埋め込み生成で動作確認（未知モデルの次元数もここで確定）
+      await this.generateEmbedding('test');
+
+      this.isAvailable = true;
+      return true;
+    } catch (error) {
+      console.error(`Model ${this.model} not available at ${this.options.baseUrl}:`, error);
+      this.isAvailable = false;
+      return false;
+    }
+  }
+
+  private async requestEmbeddings(inputs: string[]): Promise<number[][]> {
+    try {
+      const response = await this.retryOperation(() => this.postEmbeddings(inputs));
+
+      if (!Array.isArray(response.data) || response.data.length !== inputs.length) {
+        throw new CQMError(
+          `Unexpected embedding count: got ${response.data?.length ?? 0}, expected ${inputs.length}`,
+          'EMBEDDING_ERROR'
+        );
+      }
+
+      // レスポンスの順序は保証されないため index で並べ替える
+      const embeddings = [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+
+      for (const embedding of embeddings) {
+        if (!embedding || embedding.length === 0) {
+          throw new CQMError('Empty embedding response from embedding endpoint', 'EMBEDDING_ERROR');
+        }
+
+        if (this.dimensions === 0) {
+          this.dimensions = embedding.length;
+        }
+
+        if (embedding.length !== this.dimensions) {
+          throw new CQMError(
+            `Unexpected embedding dimensions: got ${embedding.length}, expected ${this.dimensions}`,
+            'EMBEDDING_ERROR'
+          );
+        }
+      }
+
+      return embeddings;
+    } catch (error) {
+      if (error instanceof CQMError) {
+        throw error;
+      }
+
+      throw new CQMError(
+        `Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'EMBEDDING_ERROR',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  private async postEmbeddings(inputs: string[]): Promise<OpenAIEmbeddingResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const body: Record<string, unknown> = {
+      model: this.model,
+      input: inputs,
+      encoding_format: 'float'
+    };
+    if (this.requestedDimensions) {
+      body.dimensions = this.requestedDimensions;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout);
+
+    try {
+      const response = await fetch(`${this.options.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new CQMError(
+          `Embedding endpoint returned ${response.status}: ${detail.slice(0, 200)}`,
+          'EMBEDDING_ERROR',
+          // 429とサーバーエラーのみ再試行する
+          { status: response.status, retryable: response.status === 429 || response.status >= 500 }
+        );
+      }
+
+      return await response.json() as OpenAIEmbeddingResponse;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async retryOperation<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error;
+
+    for (let attempt = 0; attempt < this.options.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (error instanceof CQMError && error.details?.retryable === false) {
+          throw error;
+        }
+
+        if (attempt < this.options.maxRetries - 1) {
+          const delay = Math.pow(2, attempt) * this.options.retryDelay; // Exponential backoff
+          console.warn(`Embedding attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
+          await this.delay(delay);
+        }
+      }
+    }
+
+    throw lastError!;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   getDimensions(): number {
-    return this.model === 'text-embedding-3-large' ? 3072 : 1536;
+    return this.dimensions;
   }
 
   getMaxTokens(): number {
-    return 8191;
+    return this.maxTokens;
   }
 
   getModelInfo(): EmbeddingModelInfo {
@@ -269,7 +673,9 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
       dimensions: this.getDimensions(),
       maxTokens: this.getMaxTokens(),
       contextLength: this.getMaxTokens(),
-      description: 'OpenAI Embeddings (not implemented)'
+      description: this.description || `OpenAI-compatible embeddings (${this.options.baseUrl})`,
+      distance: this.distance,
+      prompts: this.prompts
     };
   }
 }
@@ -278,9 +684,13 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
 export class EmbeddingProviderManager {
   private providers = new Map<string, EmbeddingProvider>();
   private primaryProvider: string | null = null;
+  private fallbackChain: string[] = [];
+  private breakerOptions: CircuitBreakerOptions = {};
+  private failoverProvider: FailoverEmbeddingProvider | null = null;
 
   register(name: string, provider: EmbeddingProvider): void {
     this.providers.set(name, provider);
+    this.failoverProvider = null;
     
     if (!this.primaryProvider) {
       this.primaryProvider = name;
@@ -288,6 +698,15 @@ export class EmbeddingProviderManager {
   }
 
   async getProvider(name?: string): Promise<EmbeddingProvider> {
+    // 名前指定なしでフォールバックチェーンが設定されている場合はチェーン全体を返す
+    if (!name && this.fallbackChain.length > 0) {
+      const failover = this.getFailoverProvider();
+      if (!(await failover.isModelAvailable())) {
+        throw new CQMError('No embedding provider in fallback chain is available', 'PROVIDER_ERROR');
+      }
+      return failover;
+    }
+
     const providerName = name || this.primaryProvider;
     
     if (!providerName) {
@@ -329,5 +748,67 @@ export class EmbeddingProviderManager {
     }
     
     this.primaryProvider = name;
+    this.failoverProvider = null;
+  }
+
+  getPrimary(): string | null {
+    return this.primaryProvider;
   }
-}
\ No newline at end of file
+
+  /**
+   * プライマリの後に試行するフォールバックプロバイダーを優先順に設定する
+   */
+  setFallbackChain(names: string[], options: CircuitBreakerOptions = {}): void {
+    for (const name of names) {
+      if (!this.providers.has(name)) {
+        throw new CQMError(`Provider ${name} not registered`, 'PROVIDER_ERROR');
+      }
+    }
+
+    this.fallbackChain = names.filter(name => name !== this.primaryProvider);
+    this.breakerOptions = options;
+    this.failoverProvider = null;
+  }
+
+  /**
+   * プライマリ + フォールバックをサーキットブレーカー付きでまとめたプロバイダーを返す
+   */
+  getFailoverProvider(): FailoverEmbeddingProvider {
+    if (!this.primaryProvider) {
+      throw new CQMError('No embedding provider configured', 'PROVIDER_ERROR');
+    }
+
+    if (!this.failoverProvider) {
+      const names = [this.primaryProvider, ...this.fallbackChain];
+      this.failoverProvider = new FailoverEmbeddingProvider(
+        names.map(name => ({ name, provider: this.providers.get(name)! })),
+        this.breakerOptions
+      );
+    }
+
+    return this.failoverProvider;
+  }
+}
+
+// ローカル（オフライン）プロバイダー
+export { LocalEmbeddingProvider, LOCAL_MODELS } from './local.js';
+export type { LocalEmbeddingProviderOptions } from './local.js';
+
+// プロンプトテンプレート
+export { formatEmbeddingInput, formatEmbeddingInputs, describeDocumentPrompts } from './prompts.js';
+export type {
+  EmbeddingInputType,
+  EmbeddingInputOptions,
+  EmbeddingTask,
+  EmbeddingPromptTemplate,
+  EmbeddingPrompts
+} from './prompts.js';
+
+// フェイルオーバー
+export { FailoverEmbeddingProvider, CircuitBreaker } from './failover.js';
+export type {
+  CircuitState,
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
+  ProviderChainEntry
+} from './failover.js';
@@ -0,0 +1,171 @@
+/**
+ * ローカル埋め込みプロバイダー - 外部サービス不要の決定的な埋め込み生成
+ *
+ * 単語・単語バイグラム・文字n-gramをハッシュして固定次元のベクトルに射影する
+ * （feature hashing）。CI、オフライン環境、初回デモ向け。
+ */
+import { CQMError, BUILTIN_EMBEDDING_MODELS, modelRegistry } from '@cqm/shared';
+import type { EmbeddingProvider, EmbeddingModelInfo } from './index.js';
+import { formatEmbeddingInputs, type EmbeddingInputOptions } from './prompts.js';
+
+export interface LocalEmbeddingProviderOptions {
+  dimensions?: number;
+  charNgramSize?: number;
+}
+
+const LOCAL_MODEL_NAME = 'local-hash';
+
+/**
+ * ローカルモデル定義
+ * @deprecated modelRegistry（@cqm/shared）を使用してください
+ */
+export const LOCAL_MODELS: Readonly<Record<typeof LOCAL_MODEL_NAME, EmbeddingModelInfo>> = Object.fromEntries(
+  BUILTIN_EMBEDDING_MODELS
+    .filter(definition => definition.provider === 'local')
+    .map(definition => [definition.name, {
+      name: definition.name,
+      dimensions: definition.dimensions,
+      maxTokens: definition.contextLength,
+      contextLength: definition.contextLength,
+      description: definition.description || definition.name,
+      distance: definition.distance
+    }])
+) as Record<typeof LOCAL_MODEL_NAME, EmbeddingModelInfo>;
+
+// 特徴量種別ごとの重み
+const FEATURE_WEIGHTS = {
+  word: 1.0,
+  subword: 0.6,
+  bigram: 0.5,
+  charNgram: 0.3
+} as const;
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  private readonly modelInfo: EmbeddingModelInfo;
+  private readonly charNgramSize: number;
+
+  constructor(options: LocalEmbeddingProviderOptions = {}) {
+    const definition = modelRegistry.resolve(LOCAL_MODEL_NAME, 'local');
+    const dimensions = options.dimensions || definition.dimensions;
+    if (!Number.isInteger(dimensions) || dimensions < 16) {
+      throw new CQMError(`Invalid dimensions for local embeddings: ${dimensions}`, 'INVALID_INPUT');
+    }
+
+    this.modelInfo = {
+      name: definition.name,
+      dimensions,
+      maxTokens: definition.contextLength,
+      contextLength: definition.contextLength,
+      description: definition.description || definition.name,
+      distance: definition.distance
+    };
+    this.charNgramSize = options.charNgramSize || 3;
+  }
+
+  async generateEmbedding(text: string, input?: EmbeddingInputOptions): Promise<number[]> {
+    if (!text.trim()) {
+      throw new CQMError('Empty text provided for embedding', 'INVALID_INPUT');
+    }
+
+    const [formatted] = formatEmbeddingInputs([text], this.modelInfo.prompts, input);
+    return this.embed(formatted);
+  }
+
+  async generateBatchEmbeddings(texts: string[], input?: EmbeddingInputOptions): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.generateEmbedding(text, input)));
+  }
+
+  async isModelAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  getDimensions(): number {
+    return this.modelInfo.dimensions;
+  }
+
+  getMaxTokens(): number {
+    return this.modelInfo.maxTokens;
+  }
+
+  getModelInfo(): EmbeddingModelInfo {
+    return { ...this.modelInfo };
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.modelInfo.dimensions).fill(0);
+    const features = this.extractFeatures(text);
+
+    for (const [feature, weight] of features) {
+      const hash = fnv1a(feature);
+      const index = hash % this.modelInfo.dimensions;
+      // 別ビットで符号を決めて衝突による偏りを打ち消す
+      const sign = (fnv1a(`~${feature}`) & 1) === 0 ? 1 : -1;
+      vector[index] += sign * weight;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  private extractFeatures(text: string): Map<string, number> {
+    const counts = new Map<string, { count: number; weight: number }>();
+    const add = (feature: string, weight: number) => {
+      const entry = counts.get(feature);
+      if (entry) {
+        entry.count++;
+        entry.weight = Math.max(entry.weight, weight);
+      } else {
+        counts.set(feature, { count: 1, weight });
+      }
+    };
+
+    const words = text.match(/[\p{L}\p{N}_$]+/gu) || [];
+    const normalized = words.map(word => word.toLowerCase());
+
+    normalized.forEach((word, i) => {
+      add(`w:${word}`, FEATURE_WEIGHTS.word);
+
+      // camelCase / snake_case を分割して部分一致を拾う
+      const parts = splitIdentifier(words[i]);
+      if (parts.length > 1) {
+        parts.forEach(part => add(`w:${part}`, FEATURE_WEIGHTS.subword));
+      }
+
+      if (i > 0) {
+        add(`b:${normalized[i - 1]} ${word}`, FEATURE_WEIGHTS.bigram);
+      }
+
+      const padded = `#${word}#`;
+      for (let j = 0; j + this.charNgramSize <= padded.length; j++) {
+        add(`c:${padded.substring(j, j + this.charNgramSize)}`, FEATURE_WEIGHTS.charNgram);
+      }
+    });
+
+    // 出現回数はサブリニアに重み付け（1 + log tf）
+    const features = new Map<string, number>();
+    for (const [feature, { count, weight }] of counts) {
+      features.set(feature, weight * (1 + Math.log(count)));
+    }
+
+    return features;
+  }
+}
+
+function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_$]+/)
+    .filter(part => part.length > 0)
+    .map(part => part.toLowerCase());
+}
+
+// FNV-1a 32bit ハッシュ
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
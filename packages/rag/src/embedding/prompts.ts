@@ -0,0 +1,66 @@
+/**
+ * 埋め込みモデルごとのクエリ／ドキュメント用プロンプトテンプレート
+ *
+ * nomic-embed-text の `search_query:` / `search_document:` のように、入力種別ごとに
+ * 接頭辞や指示文を要求するモデル向け。インデックス時と検索時で同じ定義を使う。
+ */
+
+import type { EmbeddingPrompts, EmbeddingTask } from '@cqm/shared';
+
+// テンプレートの型はモデルレジストリ（@cqm/shared）で定義
+export type { EmbeddingPrompts, EmbeddingPromptTemplate, EmbeddingTask } from '@cqm/shared';
+
+export type EmbeddingInputType = 'query' | 'document';
+
+/**
+ * 埋め込む入力の種別
+ * プロバイダーに渡すと、フェイルオーバーで切り替わった場合も実際に埋め込むモデルのテンプレートを適用する
+ */
+export interface EmbeddingInputOptions {
+  inputType: EmbeddingInputType;
+  task?: EmbeddingTask;
+}
+
+export function formatEmbeddingInput(
+  text: string,
+  prompts: EmbeddingPrompts | undefined,
+  inputType: EmbeddingInputType,
+  task?: EmbeddingTask
+): string {
+  const template = (task && prompts?.tasks?.[task]?.[inputType]) || prompts?.[inputType];
+  if (!template) {
+    return text;
+  }
+
+  return template.includes('{text}')
+    ? template.replace('{text}', () => text)
+    : `${template}${text}`;
+}
+
+/**
+ * 入力の種別が指定されていれば各テキストにテンプレートを適用する
+ */
+export function formatEmbeddingInputs(
+  texts: string[],
+  prompts: EmbeddingPrompts | undefined,
+  input?: EmbeddingInputOptions
+): string[] {
+  return input ? texts.map(text => formatEmbeddingInput(text, prompts, input.inputType, input.task)) : texts;
+}
+
+/**
+ * 保存済みベクトルに影響するドキュメント側テンプレートの識別子（未定義なら undefined）
+ */
+export function describeDocumentPrompts(prompts: EmbeddingPrompts | undefined): string | undefined {
+  if (!prompts) {
+    return undefined;
+  }
+
+  const templates = {
+    document: prompts.document,
+    code: prompts.tasks?.code?.document,
+    docs: prompts.tasks?.docs?.document
+  };
+
+  return Object.values(templates).some(Boolean) ? JSON.stringify(templates) : undefined;
+}
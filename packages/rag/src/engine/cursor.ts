@@ -0,0 +1,68 @@
+/**
+ * 検索カーソル - ページングの続きの位置を表す不透明なトークン
+ *
+ * オフセットを、最初のページの検索条件のフィンガープリントとインデックスのリビジョンに
+ * 結び付けて符号化する。条件やインデックスが変わると順位がずれるため、そのカーソルは拒否する。
+ */
+import { createHash } from 'crypto';
+import { CQMError } from '@cqm/shared';
+
+interface CursorState {
+  v: 1;
+  offset: number;
+  fingerprint: string;
+  revision: string;
+}
+
+/**
+ * 順位に影響する検索条件のフィンガープリント（limit やハイライトの有無は含めない）
+ */
+export function searchFingerprint(options: {
+  query: string;
+  task?: string;
+  mode?: string;
+  weights?: { vector?: number; lexical?: number };
+  candidates?: number;
+  threshold?: number;
+  filters?: unknown;
+  rerank?: unknown;
+  diversity?: unknown;
+}): string {
+  const relevant = [options.query, options.task, options.mode, options.weights, options.threshold, options.filters];
+  if (options.mode === 'hybrid' && options.candidates) {
+    relevant.push(options.candidates);
+  }
+  if (options.rerank || options.diversity) {
+    relevant.push(options.rerank, options.diversity);
+  }
+  return createHash('sha256').update(JSON.stringify(relevant)).digest('hex').slice(0, 16);
+}
+
+export function encodeSearchCursor(offset: number, fingerprint: string, revision: string): string {
+  const state: CursorState = { v: 1, offset, fingerprint, revision };
+  return Buffer.from(JSON.stringify(state), 'utf-8').toString('base64url');
+}
+
+/**
+ * カーソルを検証してオフセットを返す
+ */
+export function decodeSearchCursor(cursor: string, expected: { fingerprint: string; revision: string }): number {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new CQMError('Invalid search cursor', 'INVALID_CURSOR');
+  }
+
+  if (state?.v !== 1 || !Number.isInteger(state.offset) || state.offset < 0) {
+    throw new CQMError('Invalid search cursor', 'INVALID_CURSOR');
+  }
+  if (state.fingerprint !== expected.fingerprint) {
+    throw new CQMError('Search cursor does not match the query, filters or search mode', 'INVALID_CURSOR');
+  }
+  if (state.revision !== expected.revision) {
+    throw new CQMError('Search cursor expired: the index has changed since the first page was returned', 'CURSOR_EXPIRED');
+  }
+
+  return state.offset;
+}
@@ -1,38 +1,102 @@
 /**
  * RAGエンジンコア実装 - CQM-TEC-002設計に基づく完全実装
  */
-import { CQMError } from '@cqm/shared';
+import { join } from 'path';
+import { CQMError, EmbeddingModelDefinition, modelRegistry } from '@cqm/shared';
 import { 
   EmbeddingProvider, 
   EmbeddingProviderManager,
   OllamaEmbeddingProvider,
-  OpenAIEmbeddingProvider 
+  OpenAIEmbeddingProvider,
+  LocalEmbeddingProvider,
+  FailoverEmbeddingProvider,
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
+  EmbeddingPrompts,
+  EmbeddingTask
 } from '../embedding/index.js';
 import { 
   VectorStore, 
+  VectorDocument,
   VectorSearchEngine,
-  QdrantVectorStore,
+  VectorStoreType,
+  createVectorStore,
   SearchResult as VectorSearchResult,
   SearchFilters 
 } from '../vector/index.js';
 import { 
   MultimodalChunker,
+  ChunkStrategy,
   DocumentInput,
+  DocComment,
+  CodeSignature,
   detectDocumentType,
   detectLanguage 
 } from '../chunking/index.js';
+import { RAGConfigManager } from '../config/index.js';
 import { 
   IndexManager,
   IndexOptions,
-  IndexingProgress 
+  IndexingProgress,
+  IndexMigrationStatus,
+  EmbeddingFingerprint
 } from '../index/index.js';
+import { 
+  CachedEmbeddingProvider,
+  FileCache,
+  EmbeddingCacheStats 
+} from '../cache/index.js';
+import { reciprocalRankFusion } from '../lexical/index.js';
+import { Highlight, HighlightOptions, generateHighlights } from '../highlight/index.js';
+import { DiversityOptions, maximalMarginalRelevance } from '../diversity/index.js';
+import { RerankExplanation, RerankOptions, rerankResults } from '../rerank/index.js';
+import { ChunkEnrichmentSettings } from '../enrichment/index.js';
+import { searchFingerprint, encodeSearchCursor, decodeSearchCursor } from './cursor.js';
+
+const DEFAULT_HYBRID_CANDIDATES = 100;
+
+export type EmbeddingProviderType = 'openai' | 'ollama' | 'local';
+export type { VectorStoreType };
+export type SearchMode = 'vector' | 'lexical' | 'hybrid';
+
+export interface FallbackProviderOptions {
+  provider: EmbeddingProviderType;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
 
 export interface RAGEngineOptions {
-  provider: 'openai' | 'ollama';
+  provider: EmbeddingProviderType;
   model: string;
+  embeddingBaseUrl?: string; // 埋め込みAPIのベースURL（OpenAI互換サーバー、Ollamaホスト）
+  embeddingApiKey?: string;
+  embeddingPrompts?: EmbeddingPrompts; // プライマリモデルのプロンプトテンプレートを上書き
+  customModels?: EmbeddingModelDefinition[]; // モデルレジストリに追加するカスタムモデル
+  fallbackProviders?: FallbackProviderOptions[]; // プライマリ障害時に優先順で試行
+  circuitBreaker?: CircuitBreakerOptions;
   vectorDbUrl?: string;
   vectorDbApiKey?: string;
+  vectorStore?: {
+    type?: VectorStoreType; // 既定: qdrant
+    persistPath?: string; // memory: JSON スナップショットの保存先（未指定なら永続化しない）
+    directory?: string; // embedded: 保存先（既定: <dataDir>/vectors）
+  };
+  dataDir?: string; // キャッシュ等のローカルデータ保存先（既定: .cqm）
+  embeddingCache?: {
+    enabled?: boolean;
+    directory?: string; // 既定: <dataDir>/cache/embeddings
+  };
   indexOptions?: Partial<IndexOptions>;
+  chunkingStrategies?: Record<string, ChunkStrategy>; // 既定: RAGConfigManager の chunking.strategies
+  enrichment?: ChunkEnrichmentSettings; // 埋め込み前の文脈付加（既定: 無効。enabled: true で有効）
+  migration?: {
+    auto?: boolean; // 埋め込みモデル変更を検出したらバックグラウンドで移行を開始（既定: true）
+  };
+  highlights?: {
+    maxHighlights?: number; // 結果ごとのハイライト数（既定: 3）
+    semantic?: boolean; // 文単位の埋め込み類似度も使う（結果ごとに埋め込み API を呼ぶ。既定: false）
+  };
   performance?: {
     maxSearchResults?: number;
     searchThreshold?: number;
@@ -43,20 +107,41 @@ export interface RAGEngineOptions {
 
 export interface SearchOptions {
   query: string;
+  task?: EmbeddingTask; // タスク別プロンプトテンプレートの選択（コード検索・ドキュメント検索）
+  mode?: SearchMode; // 既定: vector。lexical は BM25 スコア、hybrid は 0〜1 に正規化した RRF スコアを返す
+  weights?: {
+    vector?: number; // hybrid でのベクトル検索結果の重み（既定: 1）
+    lexical?: number; // hybrid での BM25 結果の重み（既定: 1）
+  };
+  candidates?: number; // hybrid で融合する各検索の候補数（既定: 100）。ページはこの融合結果から切り出す
   limit?: number;
   threshold?: number;
-  filters?: {
-    category?: string[];
-    fileType?: string[];
-    language?: string[];
-    dateRange?: {
-      after?: Date;
-      before?: Date;
-    };
-    tags?: string[];
-  };
+  filters?: SearchFilters; // パス glob、チャンク種別、シンボル名、パッケージ名、must・should・mustNot による入れ子
+  rerank?: RerankOptions; // 上位 topN 件の再ランキング（各段のスコアは結果の explain に入る）
+  diversity?: DiversityOptions; // MMR による再ランキングとファイルごとの件数上限
+  expand?: ExpandOptions; // 一致した子チャンク（メソッドなど）から親・兄弟のチャンクへ広げる（small-to-big）
   includeContent?: boolean;
-  includeHighlights?: boolean;
+  includeHighlights?: boolean; // クエリに近い行・文を抽出する（既定: true）
+  cursor?: string; // 前ページの nextCursor（同じ検索条件・インデックスのリビジョンでのみ有効）
+}
+
+export interface ExpandOptions {
+  parent?: boolean; // 親チャンク（クラスのアウトラインなど）を結果に添える
+  siblings?: boolean; // 同じ親を持つ他のチャンクを結果に添える
+}
+
+export interface ExpandedChunk {
+  id: string;
+  content: string;
+  type?: string;
+  title?: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  nextCursor?: string; // 続きがある場合のみ
 }
 
 export interface SearchResult {
@@ -71,13 +156,22 @@ export interface SearchResult {
     lastModified: Date;
     size: number;
     tags?: string[];
+    packageName?: string;
   };
-  highlights?: string[];
+  highlights?: Highlight[];
   chunk?: {
     title?: string;
     startLine?: number;
     endLine?: number;
     symbols?: string[];
+    parentId?: string;
+    doc?: DocComment; // TypeScript の宣言の JSDoc
+    signature?: CodeSignature; // TypeScript の宣言のシグネチャ
+  };
+  explain?: RerankExplanation; // 再ランキングした場合の検索時点と各段のスコア
+  expansion?: {
+    parent?: ExpandedChunk;
+    siblings?: ExpandedChunk[]; // 開始行の順
   };
 }
 
@@ -119,6 +213,9 @@ export interface RAGStats {
     vectorStore: string;
     status: 'healthy' | 'degraded' | 'error';
   };
+  cache: EmbeddingCacheStats & {
+    enabled: boolean;
+  };
 }
 
 export class RAGEngine {
@@ -126,6 +223,10 @@ export class RAGEngine {
   private vectorSearchEngine!: VectorSearchEngine;
   private indexManager!: IndexManager;
   private chunker: MultimodalChunker;
+  private embeddingProvider: FailoverEmbeddingProvider | null = null;
+  private embeddingCache: CachedEmbeddingProvider | null = null;
+  private migrationQueryProvider: EmbeddingProvider | null = null; // 移行中の旧コレクション検索用
+  private migrationPromise: Promise<void> | null = null;
   private readonly options: Required<RAGEngineOptions>;
   private isInitialized = false;
   private searchMetrics: Array<{ time: number; accuracy?: number }> = [];
@@ -134,9 +235,34 @@ export class RAGEngine {
     this.options = {
       provider: options.provider,
       model: options.model,
+      embeddingBaseUrl: options.embeddingBaseUrl || '',
+      embeddingApiKey: options.embeddingApiKey || '',
+      embeddingPrompts: options.embeddingPrompts || {},
+      customModels: options.customModels || [],
+      fallbackProviders: options.fallbackProviders || [],
+      circuitBreaker: options.circuitBreaker || {},
       vectorDbUrl: options.vectorDbUrl || 'http://localhost:6333',
       vectorDbApiKey: options.vectorDbApiKey || '',
+      vectorStore: {
+        type: options.vectorStore?.type || 'qdrant',
+        persistPath: options.vectorStore?.persistPath,
+        directory: options.vectorStore?.directory
+      },
+      dataDir: options.dataDir || '.cqm',
+      embeddingCache: {
+        enabled: options.embeddingCache?.enabled ?? true,
+        directory: options.embeddingCache?.directory
+      },
       indexOptions: options.indexOptions || {},
+      chunkingStrategies: options.chunkingStrategies || RAGConfigManager.getInstance().getChunkingStrategies(),
+      enrichment: options.enrichment || {},
+      migration: {
+        auto: options.migration?.auto ?? true
+      },
+      highlights: {
+        maxHighlights: options.highlights?.maxHighlights ?? 3,
+        semantic: options.highlights?.semantic ?? false
+      },
       performance: {
         maxSearchResults: options.performance?.maxSearchResults || 20,
         searchThreshold: options.performance?.searchThreshold || 0.7,
@@ -146,9 +272,11 @@ export class RAGEngine {
       }
     };
 
+    modelRegistry.registerAll(this.options.customModels);
+
     // 埋め込みプロバイダー管理初期化
     this.embeddingManager = new EmbeddingProviderManager();
-    this.chunker = new MultimodalChunker();
+    this.chunker = new MultimodalChunker({ strategies: this.options.chunkingStrategies });
   }
 
   async initialize(): Promise<void> {
@@ -163,25 +291,52 @@ export class RAGEngine {
       await this.initializeEmbeddingProviders();
 
       // ベクトルストア初期化
-      const vectorStore = new QdrantVectorStore({
-        url: this.options.vectorDbUrl,
-        apiKey: this.options.vectorDbApiKey
-      });
+      const vectorStore = this.createVectorStore();
 
-      const embeddingProvider = await this.embeddingManager.getProvider(this.options.provider);
-      
-      // ベクトル検索エンジン初期化
-      this.vectorSearchEngine = new VectorSearchEngine(vectorStore);
-      await this.vectorSearchEngine.initialize(embeddingProvider.getDimensions());
+      // プライマリ + フォールバックをサーキットブレーカー付きで使用
+      const embeddingProvider = this.embeddingManager.getFailoverProvider();
+      if (!(await embeddingProvider.isModelAvailable())) {
+        throw new CQMError('No embedding provider is available', 'PROVIDER_ERROR');
+      }
+      this.embeddingProvider = embeddingProvider;
+
+      // インデックス用の埋め込みはプライマリのみで、ディスクキャッシュ経由で生成
+      // （フォールバックのベクトルをコレクションやキャッシュに混ぜない）
+      let indexEmbeddingProvider: EmbeddingProvider = embeddingProvider.getPrimaryProvider();
+      if (this.options.embeddingCache.enabled) {
+        const cacheDirectory = this.options.embeddingCache.directory
+          || join(this.options.dataDir, 'cache', 'embeddings');
+        this.embeddingCache = new CachedEmbeddingProvider(indexEmbeddingProvider, new FileCache(cacheDirectory));
+        indexEmbeddingProvider = this.embeddingCache;
+      }
 
       // インデックスマネージャー初期化
       this.indexManager = new IndexManager(
-        embeddingProvider,
+        indexEmbeddingProvider,
         vectorStore,
-        this.options.indexOptions
+        this.options.indexOptions,
+        {
+          manifestPath: join(this.options.dataDir, 'index', 'manifest.json'),
+          lexicalIndexPath: join(this.options.dataDir, 'index', 'lexical.json'),
+          embeddingProviderName: this.options.provider,
+          chunkingStrategies: this.options.chunkingStrategies,
+          enrichment: this.options.enrichment
+        }
       );
       await this.indexManager.initialize();
 
+      // 検索はインデックスマネージャーと同じコレクション参照を使う
+      this.vectorSearchEngine = new VectorSearchEngine(vectorStore, this.indexManager.getCollectionReference());
+
+      // 埋め込みモデル変更時は旧モデルで旧コレクションを検索しつつ移行する
+      const migration = this.indexManager.getMigrationStatus();
+      if (migration) {
+        this.migrationQueryProvider = await this.createMigrationQueryProvider(migration.from.embedding);
+        if (this.options.migration.auto) {
+          this.startMigration();
+        }
+      }
+
       console.log(`✅ RAG Engine initialized successfully`);
       this.isInitialized = true;
     } catch (error) {
@@ -236,35 +391,54 @@ export class RAGEngine {
   }
 
   async search(options: SearchOptions): Promise<SearchResult[]> {
+    return (await this.searchPage(options)).results;
+  }
+
+  /**
+   * カーソルによるページング付きの検索
+   */
+  async searchPage(options: SearchOptions): Promise<SearchPage> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
     const startTime = Date.now();
+    const fingerprint = searchFingerprint(options);
+    const revision = this.indexManager.getRevision();
+    const offset = options.cursor ? decodeSearchCursor(options.cursor, { fingerprint, revision }) : 0;
 
     try {
-      // クエリの埋め込み生成
-      const embeddingProvider = await this.embeddingManager.getProvider(this.options.provider);
-      const queryVector = await embeddingProvider.generateEmbedding(options.query);
-
-      // 検索フィルターの変換
-      const searchFilters: SearchFilters | undefined = options.filters ? {
-        category: options.filters.category,
-        fileType: options.filters.fileType,
-        language: options.filters.language,
-        dateRange: options.filters.dateRange,
-        tags: options.filters.tags
-      } : undefined;
-
-      // ベクトル検索実行
-      const vectorResults = await this.vectorSearchEngine.search(queryVector, {
-        limit: options.limit || this.options.performance.maxSearchResults,
-        threshold: options.threshold || this.options.performance.searchThreshold,
-        filters: searchFilters
-      });
+      const limit = options.limit || this.options.performance.maxSearchResults || 20;
+      const fetchLimit = limit + 1; // 次ページの有無を判定するため1件多く取る
+
+      // パス glob はインデックス済みのファイルパスに解決する（Qdrant は glob で絞り込めない）
+      const searchFilters = options.filters ? this.indexManager.resolveSearchFilters(options.filters) : undefined;
+
+      let matches: Array<VectorSearchResult & { explain?: RerankExplanation }>;
+      if (searchFilters === null) {
+        matches = [];
+      } else if (options.rerank || options.diversity) {
+        // 候補数を固定して並べ替え、ページが変わっても同じ順位から切り出す
+        // （再ランキングする場合は topN 件が候補になる）
+        const poolSize = options.rerank ? options.rerank.topN || 50 : options.diversity!.candidates || 100;
+        let candidates: Array<VectorSearchResult & { explain?: RerankExplanation }> =
+          await this.retrieve(options, poolSize, 0, searchFilters, options.diversity !== undefined);
+        if (options.rerank) {
+          candidates = await rerankResults(options.query, candidates, { ...options.rerank, topN: poolSize });
+        }
+        if (options.diversity) {
+          candidates = maximalMarginalRelevance(candidates, { ...options.diversity, limit: offset + fetchLimit });
+        }
+        matches = candidates.slice(offset, offset + fetchLimit);
+      } else {
+        matches = await this.retrieve(options, fetchLimit, offset, searchFilters, false);
+      }
+
+      const hasMore = matches.length > limit;
+      matches = matches.slice(0, limit);
 
       // 検索結果をRAGEngine形式に変換
-      const results: SearchResult[] = vectorResults.map(result => ({
+      const results: SearchResult[] = matches.map(result => ({
         id: result.id,
         content: options.includeContent !== false ? result.document.payload.content : '',
         score: result.score,
@@ -275,17 +449,29 @@ export class RAGEngine {
           language: result.document.payload.metadata.language,
           lastModified: result.document.payload.metadata.lastModified,
           size: result.document.payload.metadata.size,
-          tags: result.document.payload.metadata.tags
+          tags: result.document.payload.metadata.tags,
+          packageName: result.document.payload.metadata.packageName
         },
-        highlights: options.includeHighlights !== false ? result.highlights : undefined,
         chunk: result.document.payload.chunks && result.document.payload.chunks.length > 0 ? {
           title: result.document.payload.chunks[0].title,
           startLine: result.document.payload.chunks[0].startLine,
           endLine: result.document.payload.chunks[0].endLine,
-          symbols: result.document.payload.chunks[0].symbols
-        } : undefined
+          symbols: result.document.payload.chunks[0].symbols,
+          parentId: result.document.payload.chunks[0].parentId,
+          doc: result.document.payload.chunks[0].doc,
+          signature: result.document.payload.chunks[0].signature
+        } : undefined,
+        explain: result.explain
       }));
 
+      if (options.expand && (options.expand.parent || options.expand.siblings)) {
+        this.expandResults(options, results);
+      }
+
+      if (options.includeHighlights !== false) {
+        await this.addHighlights(options, matches, results);
+      }
+
       // 検索メトリクス記録
       const searchTime = Date.now() - startTime;
       this.searchMetrics.push({ time: searchTime });
@@ -294,7 +480,10 @@ export class RAGEngine {
       }
 
       console.log(`🔍 Search completed: ${results.length} results in ${searchTime}ms`);
-      return results;
+      return {
+        results,
+        nextCursor: hasMore ? encodeSearchCursor(offset + limit, fingerprint, revision) : undefined
+      };
     } catch (error) {
       throw new CQMError(
         `Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -304,6 +493,136 @@ export class RAGEngine {
     }
   }
 
+  /**
+   * 親を持つチャンクの結果に、親チャンクと兄弟チャンクを添える
+   */
+  private expandResults(options: SearchOptions, results: SearchResult[]): void {
+    const toExpanded = (document: VectorDocument): ExpandedChunk => {
+      const chunk = document.payload.chunks?.[0];
+      return {
+        id: document.id,
+        content: options.includeContent !== false ? document.payload.content : '',
+        type: chunk?.type,
+        title: chunk?.title,
+        startLine: chunk?.startLine,
+        endLine: chunk?.endLine
+      };
+    };
+
+    for (const result of results) {
+      const parentId = result.chunk?.parentId;
+      if (!parentId) {
+        continue;
+      }
+
+      const family = this.indexManager.getChunkFamily(result.metadata.source, parentId);
+      result.expansion = {
+        parent: options.expand!.parent && family.parent ? toExpanded(family.parent) : undefined,
+        siblings: options.expand!.siblings
+          ? family.children.filter(document => document.id !== result.id).map(toExpanded)
+          : undefined
+      };
+    }
+  }
+
+  private async addHighlights(options: SearchOptions, matches: VectorSearchResult[], results: SearchResult[]): Promise<void> {
+    const provider = this.embeddingProvider!;
+    let semantic: HighlightOptions['semantic'];
+
+    if (this.options.highlights.semantic && results.length > 0) {
+      try {
+        semantic = {
+          queryVector: await provider.generateEmbedding(options.query, { inputType: 'query', task: options.task }),
+          embed: texts => provider.generateBatchEmbeddings(texts, { inputType: 'document', task: options.task })
+        };
+      } catch (error) {
+        console.warn('Semantic highlights unavailable, using lexical overlap only:', error);
+      }
+    }
+
+    // includeContent: false でも本文から抽出する
+    for (const [index, result] of results.entries()) {
+      const content = matches[index].document.payload.content;
+      const highlightOptions: HighlightOptions = {
+        maxHighlights: this.options.highlights.maxHighlights,
+        startLine: result.chunk?.startLine,
+        lineMap: matches[index].document.payload.chunks?.[0]?.lineMap,
+        semantic
+      };
+
+      try {
+        result.highlights = await generateHighlights(options.query, content, highlightOptions);
+      } catch (error) {
+        // 埋め込みに失敗した場合は以降の結果も語彙の重なりだけで抽出する
+        console.warn('Semantic highlights unavailable, using lexical overlap only:', error);
+        semantic = undefined;
+        result.highlights = await generateHighlights(options.query, content, { ...highlightOptions, semantic });
+      }
+    }
+  }
+
+  /**
+   * 検索モードに応じて offset 位置から limit 件の候補を取得する
+   */
+  private async retrieve(
+    options: SearchOptions,
+    limit: number,
+    offset: number,
+    filters: SearchFilters | undefined,
+    withVectors: boolean
+  ): Promise<VectorSearchResult[]> {
+    const mode = options.mode || 'vector';
+    if (mode === 'lexical') {
+      return this.indexManager.searchLexical(options.query, { limit, offset, filters });
+    }
+
+    if (mode === 'hybrid') {
+      // 融合の順位は各リストの深さで変わるため、ページによらず同じ件数の候補を融合してから切り出す
+      // （融合結果はベクトル検索側の結果を優先して保持するため、ベクトルもそのまま残る）
+      const candidates = options.candidates || DEFAULT_HYBRID_CANDIDATES;
+      const threshold = options.threshold || this.options.performance.searchThreshold || 0;
+      const lexical = this.indexManager.searchLexical(options.query, { limit: candidates, filters });
+      // BM25 スコアには上限がないため、閾値は最上位の BM25 スコアに対する比率として適用する
+      const topLexicalScore = lexical.reduce((maximum, result) => Math.max(maximum, result.score), 0);
+      return reciprocalRankFusion([
+        {
+          results: await this.searchVectors(options, candidates, filters, 0, withVectors),
+          weight: options.weights?.vector,
+          minScore: threshold
+        },
+        { results: lexical, weight: options.weights?.lexical, minScore: threshold * topLexicalScore }
+      ], { limit: candidates }).slice(offset, offset + limit);
+    }
+
+    return await this.searchVectors(options, limit, filters, offset, withVectors);
+  }
+
+  private async searchVectors(
+    options: SearchOptions,
+    limit: number,
+    filters: SearchFilters | undefined,
+    offset = 0,
+    withVectors = false
+  ): Promise<VectorSearchResult[]> {
+    // クエリの埋め込み生成
+    // 移行中は旧コレクションを旧モデルで検索（旧モデルが使えない場合は新コレクション）
+    const queryProvider = this.migrationQueryProvider || this.embeddingProvider!;
+    const migration = this.indexManager.getMigrationStatus();
+    const collection = !this.migrationQueryProvider && migration && migration.state !== 'completed'
+      ? this.indexManager.getIndexMetadata().id
+      : undefined;
+    const queryVector = await queryProvider.generateEmbedding(options.query, { inputType: 'query', task: options.task });
+
+    return await this.vectorSearchEngine.search(queryVector, {
+      limit,
+      offset,
+      threshold: options.threshold || this.options.performance.searchThreshold,
+      filters,
+      withVectors,
+      collection
+    });
+  }
+
   async deleteDocument(documentId: string): Promise<void> {
     if (!this.isInitialized) {
       await this.initialize();
@@ -363,8 +682,12 @@ export class RAGEngine {
         },
         providers: {
           embedding: this.options.provider,
-          vectorStore: 'qdrant',
+          vectorStore: this.options.vectorStore.type || 'qdrant',
           status: availableProviders.length > 0 ? 'healthy' : 'error'
+        },
+        cache: {
+          enabled: this.embeddingCache !== null,
+          ...(this.embeddingCache?.getStats() || { hits: 0, misses: 0, hitRate: 0 })
         }
       };
     } catch (error) {
@@ -402,13 +725,93 @@ export class RAGEngine {
     }
   }
 
+  /**
+   * 埋め込みモデル変更による移行をバックグラウンドで開始し、完了を待つ Promise を返す
+   */
+  migrateIndex(): Promise<void> {
+    if (!this.isInitialized) {
+      return this.initialize().then(() => this.migrateIndex());
+    }
+
+    return this.startMigration();
+  }
+
+  getMigrationStatus(): IndexMigrationStatus | null {
+    return this.isInitialized ? this.indexManager.getMigrationStatus() : null;
+  }
+
+  private startMigration(): Promise<void> {
+    if (this.migrationPromise) {
+      return this.migrationPromise;
+    }
+
+    const migration = this.indexManager.getMigrationStatus();
+    if (!migration || migration.state === 'completed') {
+      return Promise.resolve();
+    }
+
+    console.log(`🔄 Migrating index: ${migration.reason}`);
+    this.migrationPromise = this.indexManager.migrate()
+      .then(() => {
+        this.migrationQueryProvider = null;
+      })
+      .catch(error => {
+        console.error('Index migration failed:', error);
+        throw error;
+      })
+      .finally(() => {
+        this.migrationPromise = null;
+      });
+
+    // バックグラウンド実行時の未処理拒否を防ぐ
+    this.migrationPromise.catch(() => {});
+    return this.migrationPromise;
+  }
+
+  private async createMigrationQueryProvider(embedding: EmbeddingFingerprint): Promise<EmbeddingProvider | null> {
+    // コレクション名の変更のみ（旧バージョンのランダム名）なら現在のモデルで旧コレクションを検索できる
+    const current = this.indexManager.getIndexMetadata().embedding;
+    if (current && embedding.model === current.model && embedding.dimensions === current.dimensions
+      && embedding.documentPrompts === current.documentPrompts) {
+      return this.embeddingProvider;
+    }
+
+    const provider = embedding.provider as EmbeddingProviderType | undefined;
+    if (!provider || !['openai', 'ollama', 'local'].includes(provider)) {
+      console.warn(`Previous embedding provider unknown; searching the new index during migration`);
+      return null;
+    }
+
+    const sameProvider = provider === this.options.provider;
+    let queryProvider: EmbeddingProvider;
+    try {
+      queryProvider = createEmbeddingProvider({
+        provider,
+        model: embedding.model,
+        baseUrl: sameProvider ? this.options.embeddingBaseUrl || undefined : undefined,
+        apiKey: sameProvider ? this.options.embeddingApiKey || undefined : undefined
+      });
+    } catch {
+      // 旧モデルがレジストリから削除されている
+      return null;
+    }
+
+    if (queryProvider.getModelInfo().name !== embedding.model || queryProvider.getDimensions() !== embedding.dimensions) {
+      return null;
+    }
+
+    return (await queryProvider.isModelAvailable()) ? queryProvider : null;
+  }
+
   async healthCheck(): Promise<{
     status: 'healthy' | 'degraded' | 'error';
     components: Record<string, 'healthy' | 'degraded' | 'error'>;
     details: Record<string, string>;
+    circuitBreakers: Record<string, CircuitBreakerStatus>;
   }> {
     const components: Record<string, 'healthy' | 'degraded' | 'error'> = {};
     const details: Record<string, string> = {};
+    const circuitBreakers = this.embeddingProvider?.getBreakerStatus() || {};
 
     try {
       // 埋め込みプロバイダーチェック
@@ -416,6 +819,19 @@ export class RAGEngine {
       components.embedding = availableProviders.length > 0 ? 'healthy' : 'error';
       details.embedding = `Available providers: ${availableProviders.join(', ')}`;
 
+      // サーキットブレーカー状態：プライマリ遮断中はフォールバック稼働で degraded
+      const breakerStates = Object.values(circuitBreakers).map(status => status.state);
+      if (breakerStates.length > 0) {
+        if (breakerStates.every(state => state === 'open')) {
+          components.embedding = 'error';
+        } else if (circuitBreakers[this.options.provider]?.state !== 'closed' && components.embedding === 'healthy') {
+          components.embedding = 'degraded';
+        }
+        details.embeddingCircuit = Object.entries(circuitBreakers)
+          .map(([name, status]) => `${name}=${status.state}`)
+          .join(', ');
+      }
+
       // ベクトルストアチェック
       try {
         const stats = await this.vectorSearchEngine.getStats();
@@ -429,8 +845,12 @@ export class RAGEngine {
       // インデックスマネージャーチェック
       try {
         const indexStats = await this.indexManager.getStats();
-        components.indexManager = 'healthy';
+        const migration = this.indexManager.getMigrationStatus();
+        components.indexManager = migration && migration.state !== 'completed' ? 'degraded' : 'healthy';
         details.indexManager = `${indexStats.totalDocuments} documents indexed`;
+        if (migration) {
+          details.migration = `${migration.state}: ${migration.reason} (${migration.processed}/${migration.total})`;
+        }
       } catch (error) {
         components.indexManager = 'error';
         details.indexManager = error instanceof Error ? error.message : String(error);
@@ -453,35 +873,77 @@ export class RAGEngine {
       return {
         status: overallStatus,
         components,
-        details
+        details,
+        circuitBreakers
       };
     } catch (error) {
       return {
         status: 'error',
         components,
-        details: { error: error instanceof Error ? error.message : String(error) }
+        details: { error: error instanceof Error ? error.message : String(error) },
+        circuitBreakers
       };
     }
   }
 
+  private createVectorStore(): VectorStore {
+    const { type, persistPath, directory } = this.options.vectorStore;
+    return createVectorStore({
+      type,
+      url: this.options.vectorDbUrl,
+      apiKey: this.options.vectorDbApiKey,
+      persistPath,
+      directory: type === 'embedded' ? directory || join(this.options.dataDir, 'vectors') : directory
+    });
+  }
+
   private async initializeEmbeddingProviders(): Promise<void> {
+    const { provider, model, embeddingBaseUrl, embeddingApiKey, embeddingPrompts, fallbackProviders } = this.options;
+    // 未指定（空）の場合はモデル定義のテンプレートを使う
+    const prompts = Object.keys(embeddingPrompts).length > 0 ? embeddingPrompts : undefined;
+
     // Ollama プロバイダー登録
-    const ollamaProvider = new OllamaEmbeddingProvider('nomic-embed-text');
+    const ollamaProvider = new OllamaEmbeddingProvider(
+      provider === 'ollama' ? model || 'nomic-embed-text' : 'nomic-embed-text',
+      provider === 'ollama' ? { baseUrl: embeddingBaseUrl || undefined, prompts } : {}
+    );
     this.embeddingManager.register('ollama', ollamaProvider);
 
-    // OpenAI プロバイダー登録（将来の実装用）
-    const openaiProvider = new OpenAIEmbeddingProvider();
+    // OpenAI互換プロバイダー登録
+    const openaiProvider = provider === 'openai'
+      ? new OpenAIEmbeddingProvider(model, {
+          baseUrl: embeddingBaseUrl || undefined,
+          apiKey: embeddingApiKey || undefined,
+          prompts
+        })
+      : new OpenAIEmbeddingProvider();
     this.embeddingManager.register('openai', openaiProvider);
 
+    // ローカル（オフライン）プロバイダー登録
+    this.embeddingManager.register('local', new LocalEmbeddingProvider());
+
     // プライマリプロバイダー設定
     this.embeddingManager.setPrimary(this.options.provider);
 
-    console.log(`📦 Embedding providers initialized: ${this.options.provider} (primary)`);
+    // フォールバックチェーン登録
+    const fallbackNames = fallbackProviders.map((fallback, index) => {
+      const name = `${fallback.provider}-fallback-${index + 1}`;
+      this.embeddingManager.register(name, createEmbeddingProvider(fallback));
+      return name;
+    });
+    this.embeddingManager.setFallbackChain(fallbackNames, this.options.circuitBreaker);
+
+    console.log(
+      `📦 Embedding providers initialized: ${[provider, ...fallbackNames].join(' -> ')}`
+    );
   }
 
   // パブリックアクセサメソッド
-  getEmbeddingProvider(): Promise<EmbeddingProvider> {
-    return this.embeddingManager.getProvider(this.options.provider);
+  async getEmbeddingProvider(): Promise<EmbeddingProvider> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    return this.embeddingProvider!;
   }
 
   getVectorSearchEngine(): VectorSearchEngine {
@@ -499,4 +961,20 @@ export class RAGEngine {
   isReady(): boolean {
     return this.isInitialized;
   }
-}
\ No newline at end of file
+}
+
+function createEmbeddingProvider(options: FallbackProviderOptions): EmbeddingProvider {
+  switch (options.provider) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider(options.model || 'nomic-embed-text', { baseUrl: options.baseUrl });
+    case 'openai':
+      return new OpenAIEmbeddingProvider(options.model || 'text-embedding-3-small', {
+        baseUrl: options.baseUrl,
+        apiKey: options.apiKey
+      });
+    case 'local':
+      return new LocalEmbeddingProvider();
+    default:
+      throw new CQMError(`Unknown embedding provider: ${options.provider}`, 'CONFIG_ERROR');
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * 埋め込み前のチャンクの文脈付加
+ *
+ * IndexManager.initialize と QdrantVectorStore.initialize のように、素のコードだけでは埋め込みが
+ * ほとんど同じになるチャンクを区別するため、ファイルパス・パッケージ名・所属するクラスやセクション・
+ * 本文で使われているインポートを埋め込む文字列の先頭に付ける。保存する本文は元のまま。
+ * 有効・無効でベクトルが変わるため、既存のインデックスを再埋め込みしないよう既定では無効にしている。
+ */
+import type { ChunkEnrichmentSettings } from '@cqm/shared';
+
+export type { ChunkEnrichmentSettings } from '@cqm/shared';
+
+export const DEFAULT_ENRICHMENT_TEMPLATE = [
+  'File: {path}',
+  'Package: {package}',
+  'Scope: {breadcrumbs}',
+  '{imports}',
+  '',
+  '{content}'
+].join('\n');
+
+const PLACEHOLDER_PATTERN = /\{(path|package|breadcrumbs|imports)\}/g;
+
+export interface EnrichmentContext {
+  path: string; // ワークスペースからの相対パス
+  packageName?: string;
+  breadcrumbs?: string[]; // 外側から順のクラス・名前空間・見出し
+  imports?: string; // ファイルのインポート文（本文で使われているものだけを付加する）
+  content: string;
+}
+
+/**
+ * テンプレートで埋め込む文字列を組み立てる
+ * 値が空のプレースホルダーを含む行は行ごと省く
+ */
+export function enrichChunkText(context: EnrichmentContext, settings: ChunkEnrichmentSettings = {}): string {
+  if (settings.enabled !== true) {
+    return context.content;
+  }
+
+  const values: Record<string, string> = {
+    path: context.path,
+    package: context.packageName || '',
+    breadcrumbs: (context.breadcrumbs || []).join(' > '),
+    imports: context.imports ? relevantImports(context.imports, context.content) : ''
+  };
+
+  let template = settings.template || DEFAULT_ENRICHMENT_TEMPLATE;
+  if (!template.includes('{content}')) {
+    template += '\n\n{content}';
+  }
+
+  const fill = (line: string) => line.replace(PLACEHOLDER_PATTERN, (_, key: string) => values[key]);
+  const lines: string[] = [];
+  for (const line of template.split('\n')) {
+    if (line.includes('{content}')) {
+      // 本文は {…} を含みうるため、他のプレースホルダーの置換後に差し込む
+      lines.push(fill(line).replace('{content}', () => context.content));
+      continue;
+    }
+
+    const keys = [...line.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]);
+    if (keys.length > 0 && keys.every(key => !values[key])) {
+      continue;
+    }
+    lines.push(fill(line));
+  }
+
+  return lines.join('\n').replace(/^\n+/, '');
+}
+
+/**
+ * インポート文のうち、取り込んだ名前が本文で使われているもの
+ * （副作用のみのインポートは含めない）
+ */
+export function relevantImports(imports: string, content: string): string {
+  const used = new Set(content.match(/[A-Za-z_$][\w$]*/g) || []);
+
+  return imports
+    .split(/\n(?=\s*import\b)/)
+    .filter(statement => {
+      const clause = statement.match(/^\s*import\s+(?:type\s+)?([\s\S]+?)\s+from\s/);
+      if (!clause) {
+        return false;
+      }
+      // import { a as b } は b、import * as ns は ns が本文で使われる名前
+      const names = clause[1]
+        .replace(/(?:[\w$]+|\*)\s+as\s+/g, '')
+        .match(/[A-Za-z_$][\w$]*/g) || [];
+      return names.some(name => name !== 'type' && used.has(name));
+    })
+    .join('\n');
+}
+
+/**
+ * 保存済みベクトルに影響する文脈付加の識別子（無効なら undefined）
+ */
+export function describeEnrichment(settings: ChunkEnrichmentSettings | undefined): string | undefined {
+  if (settings?.enabled !== true) {
+    return undefined;
+  }
+  return settings.template || DEFAULT_ENRICHMENT_TEMPLATE;
+}
@@ -0,0 +1,137 @@
+/**
+ * 検索結果のハイライト生成
+ *
+ * チャンクを行（長い行は文）単位に分割し、クエリとの語彙の重なり（BM25 と同じトークン分割）で
+ * 採点する。埋め込み関数を渡した場合は文単位の埋め込み類似度も加味する。
+ */
+import { tokenizeForLexicalSearch } from '../lexical/index.js';
+
+export interface Highlight {
+  text: string;
+  score: number; // 0〜1
+  start: number; // チャンク内の文字オフセット（先頭）
+  end: number; // チャンク内の文字オフセット（末尾の次）
+  line: number; // ファイル内の行番号（チャンクの開始行が不明な場合はチャンク内の行番号）
+}
+
+export interface HighlightOptions {
+  maxHighlights?: number; // 既定: 3
+  startLine?: number; // チャンクの開始行（1始まり）
+  lineMap?: number[]; // 本文の各行が始まるファイルの行番号（本体を省略したアウトライン。startLine より優先）
+  semantic?: {
+    queryVector: number[];
+    embed: (texts: string[]) => Promise<number[][]>;
+    weight?: number; // 埋め込み類似度の重み（既定: 0.5、残りが語彙の重なり）
+    maxSegments?: number; // 埋め込む文の上限（既定: 32）
+  };
+}
+
+interface Segment {
+  text: string;
+  start: number;
+  end: number;
+  line: number; // チャンク内の行番号（1始まり）
+}
+
+// これより長い行は文に分割する
+const LONG_LINE_LENGTH = 160;
+const SENTENCE_BOUNDARY = /(?<=[。！？])|(?<=[.!?])(?=\s)/;
+
+/**
+ * チャンクを行・文単位の区間に分割する（空行は除外）
+ */
+export function splitHighlightSegments(content: string): Segment[] {
+  const segments: Segment[] = [];
+  let offset = 0;
+
+  content.split('\n').forEach((line, index) => {
+    const pieces = line.length > LONG_LINE_LENGTH ? line.split(SENTENCE_BOUNDARY) : [line];
+    let pieceOffset = offset;
+
+    for (const piece of pieces) {
+      const leading = piece.length - piece.trimStart().length;
+      const text = piece.trim();
+      if (text) {
+        const start = pieceOffset + leading;
+        segments.push({ text, start, end: start + text.length, line: index + 1 });
+      }
+      pieceOffset += piece.length;
+    }
+
+    offset += line.length + 1;
+  });
+
+  return segments;
+}
+
+export async function generateHighlights(
+  query: string,
+  content: string,
+  options: HighlightOptions = {}
+): Promise<Highlight[]> {
+  const maxHighlights = options.maxHighlights ?? 3;
+  const queryTerms = new Set(tokenizeForLexicalSearch(query));
+  const segments = splitHighlightSegments(content);
+  if (segments.length === 0 || maxHighlights <= 0) {
+    return [];
+  }
+
+  const scores = segments.map(segment => lexicalOverlap(queryTerms, segment.text));
+
+  if (options.semantic) {
+    const { queryVector, embed } = options.semantic;
+    const weight = options.semantic.weight ?? 0.5;
+    const candidates = segments.slice(0, options.semantic.maxSegments ?? 32);
+    const vectors = await embed(candidates.map(segment => segment.text));
+
+    candidates.forEach((_, index) => {
+      const similarity = Math.max(0, cosineSimilarity(queryVector, vectors[index]));
+      scores[index] = (1 - weight) * scores[index] + weight * similarity;
+    });
+  }
+
+  const lineOffset = options.startLine !== undefined ? options.startLine - 1 : 0;
+  return segments
+    .map((segment, index) => ({
+      text: segment.text,
+      score: scores[index],
+      start: segment.start,
+      end: segment.end,
+      line: options.lineMap?.[segment.line - 1] ?? segment.line + lineOffset
+    }))
+    .filter(highlight => highlight.score > 0)
+    .sort((a, b) => b.score - a.score || a.start - b.start)
+    .slice(0, maxHighlights);
+}
+
+// クエリ語のうち区間に現れる割合
+function lexicalOverlap(queryTerms: Set<string>, text: string): number {
+  if (queryTerms.size === 0) {
+    return 0;
+  }
+
+  const terms = new Set(tokenizeForLexicalSearch(text));
+  let matched = 0;
+  queryTerms.forEach(term => {
+    if (terms.has(term)) {
+      matched++;
+    }
+  });
+  return matched / queryTerms.size;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (!b || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -20,29 +20,72 @@ export type {
   SearchResult as VectorSearchResult,
   CollectionInfo,
   VectorStoreOptions,
-  VectorDatabase
+  VectorDatabase,
+  InMemoryVectorStoreOptions,
+  InMemoryDistance,
+  EmbeddedVectorStoreOptions,
+  EmbeddedDistance,
+  HnswOptions,
+  HnswMatch,
+  VectorStoreConfig
 } from './vector/index.js';
 
 export {
   VectorSearchEngine,
+  CollectionReference,
   QdrantVectorStore,
-  QdrantVectorDatabase
+  QdrantVectorDatabase,
+  InMemoryVectorStore,
+  EmbeddedVectorStore,
+  HnswIndex,
+  matchesFilters,
+  createVectorStore,
+  toPointId,
+  uuidv5
 } from './vector/index.js';
 
 // チャンク処理関連
 export * from './chunking/index.js';
 
+// トークナイザー関連
+export * from './tokenizer/index.js';
+
 // インデックス管理関連
 export * from './index/index.js';
 
 // キャッシュ関連
 export * from './cache/index.js';
 
+// 語彙検索関連
+export * from './lexical/index.js';
+
+// ハイライト関連
+export * from './highlight/index.js';
+
+// 再ランキング
+export * from './rerank/index.js';
+
+// 検索結果の多様化（MMR）
+export * from './diversity/index.js';
+
+// 埋め込み前のチャンクの文脈付加
+export * from './enrichment/index.js';
+
+// スナップショット（エクスポート・インポート）
+export * from './snapshot/index.js';
+
 // RAGエンジンコア
 export type { 
   RAGEngineOptions,
+  EmbeddingProviderType,
+  FallbackProviderOptions,
+  VectorStoreType,
+  SearchMode,
   SearchOptions as RAGSearchOptions,
   SearchResult as RAGSearchResult,
+  SearchPage as RAGSearchPage,
+  ExpandOptions,
+  ExpandedChunk,
   DocumentInput_Legacy,
   RAGStats
 } from './engine/index.js';
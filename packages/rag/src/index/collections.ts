@@ -0,0 +1,108 @@
+/**
+ * コレクション命名規則
+ *
+ * コレクション名はワークスペースのルートと埋め込みモデルから決定的に導出する。
+ * 同じワークスペース・同じモデルなら再起動後も同じコレクションを参照し、
+ * モデルを変えると別名のコレクションへ移行する。
+ */
+import { basename, resolve } from 'path';
+import { createHash } from 'crypto';
+import type { DistanceMetric } from '@cqm/shared';
+import type { CollectionInfo } from '../vector/index.js';
+
+/**
+ * コレクションを生成した埋め込みモデルの識別情報
+ */
+export interface EmbeddingFingerprint {
+  provider?: string;
+  model: string;
+  dimensions: number;
+  documentPrompts?: string; // ドキュメント側プロンプトテンプレートの識別子
+  enrichment?: string; // チャンクの文脈付加テンプレート（無効なら未設定）
+  distance?: DistanceMetric; // コレクションの距離関数（cosine なら未設定）
+}
+
+/**
+ * 識別情報に記録する距離関数（既定の cosine は記録せず、以前と同じコレクション名を保つ）
+ */
+export function describeDistance(distance?: DistanceMetric): DistanceMetric | undefined {
+  return distance && distance !== 'cosine' ? distance : undefined;
+}
+
+// 旧バージョンが起動ごとに生成していたランダム名（cqm-index-<timestamp>-<random>）
+const LEGACY_COLLECTION_PATTERN = /^cqm-index-\d+-[a-z0-9]+$/;
+// 旧 VectorSearchEngine が作成していた未使用の既定コレクション
+const LEGACY_DEFAULT_COLLECTION = 'cqm-default';
+
+/**
+ * ワークスペースに属するコレクション名の接頭辞（cqm-<ディレクトリ名>-<ルートパスのハッシュ>-）
+ */
+export function workspaceCollectionPrefix(workspaceRoot: string): string {
+  const root = resolve(workspaceRoot);
+  const slug = basename(root)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32) || 'workspace';
+
+  return `cqm-${slug}-${shortHash(root)}-`;
+}
+
+/**
+ * ワークスペースと埋め込みモデルに対応するコレクション名。
+ * プロバイダーは含めない（同じモデルなら別プロバイダー経由でもベクトルは互換）
+ */
+export function collectionNameFor(workspaceRoot: string, embedding: EmbeddingFingerprint): string {
+  // 文脈付加が無効なら付加前と同じ名前になり、有効・無効を切り替えて比較できる
+  const model = [
+    embedding.model,
+    embedding.dimensions,
+    embedding.documentPrompts || '',
+    ...(embedding.enrichment ? [embedding.enrichment] : []),
+    ...(embedding.distance ? [`distance:${embedding.distance}`] : [])
+  ].join('\n');
+  return `${workspaceCollectionPrefix(workspaceRoot)}${shortHash(model)}`;
+}
+
+export function isLegacyCollectionName(name: string): boolean {
+  return LEGACY_COLLECTION_PATTERN.test(name);
+}
+
+/**
+ * 参照されなくなったコレクションを抽出する。
+ * - 同じワークスペースの、使用中でないモデルのコレクション
+ * - includeLegacy の場合のみ、旧バージョンのランダム名コレクション（cqm-index-*）と空の旧既定コレクション（cqm-default）
+ *   （名前からワークスペースを判別できず、同じストアを使う他のワークスペースのものでありうる）
+ * 他のワークスペースの決定的な名前のコレクションは対象外
+ */
+export function findOrphanedCollections(
+  collections: CollectionInfo[],
+  options: { workspaceRoot: string; inUse: string[]; includeLegacy?: boolean }
+): CollectionInfo[] {
+  const prefix = workspaceCollectionPrefix(options.workspaceRoot);
+  const inUse = new Set(options.inUse);
+
+  return collections.filter(collection => {
+    if (inUse.has(collection.name)) {
+      return false;
+    }
+    if (collection.name === LEGACY_DEFAULT_COLLECTION) {
+      return options.includeLegacy === true && collection.vectorCount === 0;
+    }
+    if (isLegacyCollectionName(collection.name)) {
+      return options.includeLegacy === true;
+    }
+    return collection.name.startsWith(prefix);
+  });
+}
+
+/**
+ * 旧バージョンのコレクション（ランダム名・旧既定コレクション）か
+ */
+export function isLegacyCollection(collection: CollectionInfo): boolean {
+  return isLegacyCollectionName(collection.name) || collection.name === LEGACY_DEFAULT_COLLECTION;
+}
+
+function shortHash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 8);
+}
@@ -1,18 +1,32 @@
 /**
  * インデックス管理システム - CQM-TEC-002設計に基づく実装
  */
-import { readFile, stat, readdir } from 'fs/promises';
-import { join, relative, extname } from 'path';
+import { readFile, writeFile, rename, mkdir, stat, readdir } from 'fs/promises';
+import { join, relative, extname, dirname, resolve } from 'path';
 import { createHash } from 'crypto';
 import { CQMError } from '@cqm/shared';
 import { 
   VectorStore, 
   VectorDocument, 
   DocumentPayload,
-  DocumentMetadata
+  DocumentMetadata,
+  CollectionInfo,
+  CollectionReference,
+  SearchResult,
+  SearchFilters,
+  resolvePathFilters
 } from '../vector/index.js';
-import { EmbeddingProvider } from '../embedding/index.js';
-import { ChunkMetadata } from '../chunking/index.js';
+import { BM25Index, LexicalSearchOptions } from '../lexical/index.js';
+import {
+  EmbeddingProvider,
+  EmbeddingTask,
+  EmbeddingInputOptions,
+  isPartialEmbeddingError,
+  formatEmbeddingInputs,
+  describeDocumentPrompts
+} from '../embedding/index.js';
+import { ChunkMetadata, ChunkStrategy, DocumentChunk } from '../chunking/index.js';
+import { Tokenizer, getTokenizerForModel } from '../tokenizer/index.js';
 import { 
   MultimodalChunker, 
   DocumentInput, 
@@ -20,6 +34,12 @@ import {
   detectDocumentType,
   detectLanguage 
 } from '../chunking/index.js';
+import { EmbeddingFingerprint, collectionNameFor, describeDistance, findOrphanedCollections } from './collections.js';
+import { matchesIndexPatterns } from './patterns.js';
+import { ChunkEnrichmentSettings, enrichChunkText, describeEnrichment } from '../enrichment/index.js';
+
+export * from './collections.js';
+export * from './patterns.js';
 
 export interface IndexOptions {
   basePaths: string[];
@@ -42,6 +62,37 @@ export interface IndexMetadata {
   indexSize: number;
   version: string;
   options: IndexOptions;
+  embedding?: EmbeddingFingerprint;
+}
+
+export interface IndexManagerSettings {
+  manifestPath?: string; // コレクション名と埋め込みモデルを永続化するマニフェスト
+  embeddingProviderName?: string;
+  workspaceRoot?: string; // コレクション名の導出元（既定: basePaths の先頭）
+  lexicalIndexPath?: string; // BM25 インデックスの保存先（未指定なら永続化しない）
+  chunkingStrategies?: Record<string, ChunkStrategy>; // ドキュメントタイプごとの maxTokens・overlap
+  enrichment?: ChunkEnrichmentSettings; // 埋め込み前にチャンクへ付加する文脈（既定: 無効）
+}
+
+export interface IndexMigrationStatus {
+  state: 'pending' | 'running' | 'completed' | 'failed';
+  reason: string;
+  from: { collection: string; embedding: EmbeddingFingerprint };
+  to: { collection: string; embedding: EmbeddingFingerprint };
+  processed: number;
+  total: number;
+  startedAt?: Date;
+  completedAt?: Date;
+  error?: string;
+}
+
+export interface IndexManifest {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  version: string;
+  embedding: EmbeddingFingerprint;
 }
 
 export interface DocumentIndex {
@@ -93,21 +144,41 @@ export class IndexManager {
   private embeddingProvider: EmbeddingProvider;
   private vectorStore: VectorStore;
   private chunker: MultimodalChunker;
+  private readonly tokenizer: Tokenizer;
   private documentIndexes = new Map<string, DocumentIndex>();
   private indexMetadata: IndexMetadata;
+  private readonly settings: IndexManagerSettings;
+  private readonly workspaceRoot: string;
+  private readonly servingCollection: CollectionReference; // 検索対象（移行中は旧コレクション）
+  private migration: IndexMigrationStatus | null = null;
+  private lexicalIndex = new BM25Index(); // ベクトルと同じチャンクの語彙検索用インデックス
+  private lexicalIndexDirty = false;
+  private packageNames = new Map<string, string | undefined>(); // ディレクトリ → 最も近い package.json の name
+  private readonly instanceId = Date.now().toString(36);
+  private revision = 0; // インデックス内容・検索対象の変更ごとに進める（検索カーソルの有効性判定用）
   private isInitialized = false;
 
   constructor(
     embeddingProvider: EmbeddingProvider,
     vectorStore: VectorStore,
-    options: Partial<IndexOptions> = {}
+    options: Partial<IndexOptions> = {},
+    settings: IndexManagerSettings = {}
   ) {
     this.embeddingProvider = embeddingProvider;
     this.vectorStore = vectorStore;
-    this.chunker = new MultimodalChunker();
+    this.settings = settings;
+    // 埋め込みモデルのトークナイザーと入力上限に合わせてチャンクを分割
+    this.tokenizer = getTokenizerForModel(embeddingProvider.getModelInfo().name);
+    this.chunker = new MultimodalChunker({
+      tokenizer: this.tokenizer,
+      maxTokens: embeddingProvider.getMaxTokens(),
+      strategies: settings.chunkingStrategies
+    });
+
+    this.workspaceRoot = resolve(settings.workspaceRoot || options.basePaths?.[0] || '.');
 
     this.indexMetadata = {
-      id: this.generateIndexId(),
+      id: collectionNameFor(this.workspaceRoot, this.currentEmbedding()),
       name: 'CQM Default Index',
       description: 'CQM Project Context Index',
       createdAt: new Date(),
@@ -126,6 +197,7 @@ export class IndexManager {
         enableWatching: options.enableWatching ?? false
       }
     };
+    this.servingCollection = new CollectionReference(this.indexMetadata.id);
   }
 
   async initialize(): Promise<void> {
@@ -142,9 +214,55 @@ export class IndexManager {
         throw new CQMError('Embedding provider not available', 'PROVIDER_ERROR');
       }
 
+      const current = this.currentEmbedding();
+      const dimensions = current.dimensions;
+      const collection = collectionNameFor(this.workspaceRoot, current);
+
+      if (this.settings.lexicalIndexPath) {
+        this.lexicalIndex = await BM25Index.load(this.settings.lexicalIndexPath);
+      }
+
+      // 前回のコレクションを引き継ぎ、埋め込みモデルとの整合性を確認
+      const manifest = await this.loadManifest();
+      if (manifest) {
+        this.indexMetadata.createdAt = new Date(manifest.createdAt);
+      }
+
+      const previousCollection = manifest?.id || collection;
+      const existing = await this.findCollection(previousCollection);
+      const mismatch = existing ? describeEmbeddingMismatch(manifest?.embedding, existing.dimensions, current) : null;
+      this.indexMetadata.id = collection;
+
+      if (existing && (mismatch || previousCollection !== collection)) {
+        if (existing.vectorCount > 0 && previousCollection !== collection) {
+          // 旧コレクションは移行完了まで検索用に維持する（旧バージョンのランダム名からの移行を含む）
+          const reason = mismatch || `collection renamed ${previousCollection} → ${collection}`;
+          console.warn(`⚠️  Index collection changed (${reason}); index migration required`);
+          this.servingCollection.set(previousCollection);
+          this.migration = {
+            state: 'pending',
+            reason,
+            from: {
+              collection: previousCollection,
+              embedding: manifest?.embedding || { model: 'unknown', dimensions: existing.dimensions }
+            },
+            to: { collection, embedding: current },
+            processed: 0,
+            total: 0
+          };
+        } else {
+          await this.vectorStore.deleteCollection(previousCollection);
+        }
+      }
+
       // コレクション作成
-      const dimensions = this.embeddingProvider.getDimensions();
-      await this.vectorStore.createCollection(this.indexMetadata.id, dimensions);
+      this.indexMetadata.embedding = current;
+      await this.vectorStore.createCollection(collection, dimensions, current.distance);
+
+      if (!this.migration) {
+        this.servingCollection.set(collection);
+        await this.saveManifest();
+      }
 
       console.log(`✅ Index manager initialized with ${dimensions}d embeddings`);
       this.isInitialized = true;
@@ -192,7 +310,7 @@ export class IndexManager {
       }
 
       try {
-        await this.indexSingleDocument(filePath);
+        await this.indexFile(filePath);
         progress.successful++;
       } catch (error) {
         progress.failed++;
@@ -207,6 +325,9 @@ export class IndexManager {
       progress.processed++;
     }
 
+    await this.vectorStore.flush?.();
+    await this.saveLexicalIndex();
+
     // メタデータ更新
     this.indexMetadata.updatedAt = new Date();
     this.indexMetadata.documentCount = this.documentIndexes.size;
@@ -218,7 +339,44 @@ export class IndexManager {
   }
 
   async indexSingleDocument(filePath: string): Promise<DocumentIndex> {
+    try {
+      return await this.indexFile(filePath);
+    } finally {
+      await this.vectorStore.flush?.();
+      await this.saveLexicalIndex();
+    }
+  }
+
+  /**
+   * BM25 による語彙検索（ベクトルインデックスと同じチャンクが対象）
+   */
+  searchLexical(query: string, options: LexicalSearchOptions = {}): SearchResult[] {
+    return this.lexicalIndex.search(query, options);
+  }
+
+  /**
+   * 同じファイルのチャンクのうち、指定した親チャンクとその子チャンク（small-to-big の展開用）
+   * 親はクラスのアウトラインなど、子は parentId が親を指すチャンク
+   */
+  getChunkFamily(source: string, parentId: string): { parent?: VectorDocument; children: VectorDocument[] } {
+    const children = this.lexicalIndex.getBySource(source)
+      .filter(document => document.payload.chunks?.[0]?.parentId === parentId)
+      .sort((a, b) => (a.payload.chunks![0].startLine ?? 0) - (b.payload.chunks![0].startLine ?? 0));
+    return { parent: this.lexicalIndex.get(`${source}-${parentId}`), children };
+  }
+
+  /**
+   * フィルターのパス glob をインデックス済みのファイルパスに解決する
+   * （どのドキュメントにも一致しない場合は null）
+   */
+  resolveSearchFilters(filters: SearchFilters): SearchFilters | null {
+    const sources = new Set([...this.documentIndexes.keys(), ...this.lexicalIndex.getSources()]);
+    return resolvePathFilters(filters, Array.from(sources));
+  }
+
+  private async indexFile(filePath: string): Promise<DocumentIndex> {
     const startTime = Date.now();
+    let partialFailure: CQMError | null = null;
 
     try {
       // ファイル情報取得
@@ -245,6 +403,8 @@ export class IndexManager {
       // ドキュメントタイプ検出
       const documentType = detectDocumentType(content, filePath);
       const language = detectLanguage(filePath);
+      const packageName = await this.findPackageName(dirname(resolve(filePath)));
+      const relativePath = relative(this.workspaceRoot, resolve(filePath)) || filePath;
 
       // ドキュメント入力準備
       const documentInput: DocumentInput = {
@@ -254,18 +414,51 @@ export class IndexManager {
         type: documentType
       };
 
-      // チャンク処理
-      const chunkResult = await this.chunker.processDocument(documentInput);
-      
-      // 埋め込み生成
-      const embeddings = await this.embeddingProvider.generateBatchEmbeddings(
-        chunkResult.chunks.map(chunk => chunk.content)
+      const embeddingText = (chunk: DocumentChunk) => enrichChunkText({
+        path: relativePath,
+        packageName,
+        breadcrumbs: chunk.metadata.breadcrumbs,
+        imports: chunk.metadata.context,
+        content: chunk.content
+      }, this.settings.enrichment);
+      const input: EmbeddingInputOptions = { inputType: 'document', task: embeddingTaskFor(documentType) };
+      const prompts = this.embeddingProvider.getModelInfo().prompts;
+
+      // チャンク処理（付加する文脈とプロンプトテンプレートの分をモデルの入力上限から差し引く）
+      const chunkResult = await this.chunker.processDocument(documentInput, chunk =>
+        this.tokenizer.countTokens(formatEmbeddingInputs([embeddingText(chunk)], prompts, input)[0])
+          - this.tokenizer.countTokens(chunk.content)
       );
+      
+      // 埋め込み生成（一部チャンクの失敗はそのチャンクのみスキップ）
+      // プロンプトテンプレートは実際に埋め込むプロバイダーが適用する
+      let embeddings: Array<number[] | null>;
+      try {
+        embeddings = await this.embeddingProvider.generateBatchEmbeddings(
+          chunkResult.chunks.map(embeddingText),
+          input
+        );
+      } catch (error) {
+        if (!isPartialEmbeddingError(error)) {
+          throw error;
+        }
+        // 埋め込めたチャンクは保存するが、ファイルはエラーとして次回のインデックス作成で再試行する
+        const [first] = error.details.failures;
+        console.warn(`⚠️  Skipping ${error.details.failures.length} chunk(s) of ${filePath}: ${error.message}`);
+        embeddings = error.details.embeddings;
+        partialFailure = new CQMError(
+          `Failed to embed ${error.details.failures.length} of ${chunkResult.chunks.length} chunks (${first.error})`,
+          'INDEXING_ERROR',
+          { filePath, failures: error.details.failures }
+        );
+      }
+      const chunks = chunkResult.chunks.filter((_, index) => embeddings[index] !== null);
+      const vectors = embeddings.filter((embedding): embedding is number[] => embedding !== null);
 
       // ベクトルドキュメント作成
-      const vectorDocuments: VectorDocument[] = chunkResult.chunks.map((chunk, index) => ({
+      const vectorDocuments: VectorDocument[] = chunks.map((chunk, index) => ({
         id: `${filePath}-${chunk.id}`,
-        vector: embeddings[index],
+        vector: vectors[index],
         payload: {
           content: chunk.content,
           metadata: {
@@ -275,7 +468,8 @@ export class IndexManager {
             language,
             lastModified: stats.mtime,
             size: stats.size,
-            tags: this.extractTags(content, filePath)
+            tags: this.extractTags(content, filePath),
+            packageName
           },
           chunks: [{
             index: chunk.metadata.index,
@@ -283,7 +477,13 @@ export class IndexManager {
             title: chunk.metadata.title,
             startLine: chunk.metadata.startLine,
             endLine: chunk.metadata.endLine,
-            symbols: chunk.metadata.symbols
+            lineMap: chunk.metadata.lineMap,
+            symbols: chunk.metadata.symbols,
+            parentId: chunk.metadata.parentId,
+            doc: chunk.metadata.doc,
+            signature: chunk.metadata.signature,
+            exported: chunk.metadata.signature ? chunk.metadata.signature.exported : undefined,
+            deprecated: chunk.metadata.signature ? chunk.metadata.doc?.deprecated !== undefined : undefined
           }] as any
         }
       }));
@@ -291,14 +491,20 @@ export class IndexManager {
       // ベクトルストアに保存
       await this.vectorStore.upsertVectors(this.indexMetadata.id, vectorDocuments);
 
+      // 語彙インデックスはファイル単位で置き換える
+      this.lexicalIndex.removeBySource(filePath);
+      vectorDocuments.forEach(doc => this.lexicalIndex.add(doc));
+      this.lexicalIndexDirty = true;
+      this.revision++;
+
       // ドキュメントインデックス作成
       const documentIndex: DocumentIndex = {
         id: this.generateDocumentId(filePath),
         filePath,
-        contentHash,
+        contentHash: partialFailure ? '' : contentHash, // 空のハッシュは未変更でも再インデックスさせる
         lastModified: stats.mtime,
         lastIndexed: new Date(),
-        chunkCount: chunkResult.chunks.length,
+        chunkCount: chunks.length,
         vectorIds: vectorDocuments.map(doc => doc.id),
         metadata: {
           source: filePath,
@@ -307,18 +513,28 @@ export class IndexManager {
           language,
           lastModified: stats.mtime,
           size: stats.size,
-          tags: this.extractTags(content, filePath)
+          tags: this.extractTags(content, filePath),
+          packageName
         },
-        status: 'indexed'
+        status: partialFailure ? 'error' : 'indexed',
+        error: partialFailure?.message
       };
 
       this.documentIndexes.set(filePath, documentIndex);
+      if (partialFailure) {
+        throw partialFailure;
+      }
 
       const indexTime = Date.now() - startTime;
-      console.log(`✅ Indexed ${filePath} (${chunkResult.chunks.length} chunks, ${indexTime}ms)`);
+      console.log(`✅ Indexed ${filePath} (${chunks.length} chunks, ${indexTime}ms)`);
 
       return documentIndex;
     } catch (error) {
+      // 一部のチャンクだけ失敗した場合は保存済みのベクトルIDを残す
+      if (error === partialFailure) {
+        throw error;
+      }
+
       const documentIndex: DocumentIndex = {
         id: this.generateDocumentId(filePath),
         filePath,
@@ -351,9 +567,15 @@ export class IndexManager {
     try {
       // ベクトルストアから削除
       await this.vectorStore.deleteVectors(this.indexMetadata.id, documentIndex.vectorIds);
+      await this.vectorStore.flush?.();
       
       // ローカルインデックスから削除
       this.documentIndexes.delete(filePath);
+      this.revision++;
+      if (this.lexicalIndex.removeBySource(filePath) > 0) {
+        this.lexicalIndexDirty = true;
+        await this.saveLexicalIndex();
+      }
       
       console.log(`🗑️  Removed document: ${filePath}`);
     } catch (error) {
@@ -426,6 +648,135 @@ export class IndexManager {
     return outdated;
   }
 
+  /**
+   * 埋め込みモデル変更時の移行を実行する。新モデルで全ドキュメントを新コレクションへ再埋め込みし、
+   * 完了後にマニフェストと検索対象を新コレクションへ切り替えて旧コレクションを削除する。
+   * 実行中や失敗時も旧コレクションは検索可能なまま維持される
+   */
+  async migrate(onProgress?: (progress: IndexingProgress) => void): Promise<IndexingProgress> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const migration = this.migration;
+    if (!migration || migration.state === 'completed') {
+      throw new CQMError('No index migration pending', 'MIGRATION_ERROR');
+    }
+    if (migration.state === 'running') {
+      throw new CQMError('Index migration already running', 'MIGRATION_ERROR');
+    }
+
+    migration.state = 'running';
+    migration.startedAt = new Date();
+    migration.error = undefined;
+
+    try {
+      const files = await this.discoverFiles();
+      migration.total = files.length;
+
+      const progress = await this.indexDocuments(files, current => {
+        migration.processed = current.processed;
+        onProgress?.(current);
+      });
+      migration.processed = progress.processed;
+
+      // 一部でも埋め込めなかった場合は切り替えず、旧コレクションで検索を続ける（再実行で再開できる）
+      if (progress.failed > 0) {
+        const [first] = progress.errors;
+        throw new CQMError(
+          `${progress.failed} of ${progress.total} files could not be re-embedded (${first.filePath}: ${first.error})`,
+          'MIGRATION_ERROR',
+          { errors: progress.errors }
+        );
+      }
+
+      // マニフェストを書き換えてから検索対象を切り替える
+      await this.saveManifest();
+      this.servingCollection.set(migration.to.collection);
+      this.revision++;
+      migration.state = 'completed';
+      migration.completedAt = new Date();
+
+      try {
+        await this.vectorStore.deleteCollection(migration.from.collection);
+      } catch (error) {
+        console.warn(`Failed to delete previous collection ${migration.from.collection}:`, error);
+      }
+
+      console.log(`✅ Index migration complete: ${migration.from.embedding.model} → ${migration.to.embedding.model}`);
+      return progress;
+    } catch (error) {
+      migration.state = 'failed';
+      migration.error = error instanceof Error ? error.message : String(error);
+      throw new CQMError(
+        `Index migration failed: ${migration.error}`,
+        'MIGRATION_ERROR',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  getMigrationStatus(): IndexMigrationStatus | null {
+    return this.migration ? { ...this.migration } : null;
+  }
+
+  /**
+   * 検索に使用するコレクション（移行中は旧コレクション）
+   */
+  getSearchCollection(): string {
+    return this.servingCollection.name;
+  }
+
+  /**
+   * インデックスのリビジョン（ドキュメントの追加・削除や検索対象の切り替えで変わる）
+   */
+  getRevision(): string {
+    return `${this.servingCollection.name}:${this.instanceId}.${this.revision}`;
+  }
+
+  /**
+   * 検索対象コレクションの共有参照（移行完了時に新コレクションへ切り替わる）
+   */
+  getCollectionReference(): CollectionReference {
+    return this.servingCollection;
+  }
+
+  /**
+   * このワークスペースで参照されなくなったコレクション
+   * 旧バージョンのランダム名のコレクションは他のワークスペースのものでありうるため、includeLegacy の場合のみ含める
+   */
+  async findOrphanedCollections(options: { includeLegacy?: boolean } = {}): Promise<CollectionInfo[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const collections = await this.vectorStore.listCollections();
+    return findOrphanedCollections(collections, {
+      workspaceRoot: this.workspaceRoot,
+      inUse: [this.indexMetadata.id, this.servingCollection.name],
+      includeLegacy: options.includeLegacy
+    });
+  }
+
+  /**
+   * 孤立コレクションを削除し、削除したコレクション名を返す
+   */
+  async removeOrphanedCollections(options: { includeLegacy?: boolean } = {}): Promise<string[]> {
+    const orphaned = await this.findOrphanedCollections(options);
+    const removed: string[] = [];
+
+    for (const collection of orphaned) {
+      try {
+        await this.vectorStore.deleteCollection(collection.name);
+        removed.push(collection.name);
+      } catch (error) {
+        console.warn(`Failed to delete orphaned collection ${collection.name}:`, error);
+      }
+    }
+
+    return removed;
+  }
+
   getIndexMetadata(): IndexMetadata {
     return { ...this.indexMetadata };
   }
@@ -469,7 +820,7 @@ export class IndexManager {
         const relativePath = relative('.', fullPath);
 
         // 除外パターンチェック
-        if (this.matchesPatterns(relativePath, excludePatterns)) {
+        if (matchesIndexPatterns(relativePath, excludePatterns)) {
           continue;
         }
 
@@ -478,7 +829,7 @@ export class IndexManager {
           files.push(...subFiles);
         } else if (entry.isFile()) {
           // 含有パターンチェック
-          if (this.matchesPatterns(relativePath, includePatterns)) {
+          if (matchesIndexPatterns(relativePath, includePatterns)) {
             files.push(fullPath);
           }
         }
@@ -490,20 +841,54 @@ export class IndexManager {
     return files;
   }
 
-  private matchesPatterns(filePath: string, patterns: string[]): boolean {
-    return patterns.some(pattern => {
-      // 簡単なglob pattern マッチング実装
-      const regex = pattern
-        .replace(/\*\*/g, '.*')
-        .replace(/\*/g, '[^/]*')
-        .replace(/\?/g, '[^/]');
-      
-      return new RegExp(`^${regex}$`).test(filePath);
-    });
+  private async findCollection(name: string): Promise<CollectionInfo | null> {
+    try {
+      return await this.vectorStore.getCollectionInfo(name);
+    } catch {
+      return null;
+    }
+  }
+
+  private async loadManifest(): Promise<IndexManifest | null> {
+    return this.settings.manifestPath ? await readIndexManifest(this.settings.manifestPath) : null;
   }
 
-  private generateIndexId(): string {
-    return `cqm-index-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private async saveLexicalIndex(): Promise<void> {
+    if (!this.lexicalIndexDirty || !this.settings.lexicalIndexPath) {
+      return;
+    }
+
+    await this.lexicalIndex.save(this.settings.lexicalIndexPath);
+    this.lexicalIndexDirty = false;
+  }
+
+  private currentEmbedding(): EmbeddingFingerprint {
+    const modelInfo = this.embeddingProvider.getModelInfo();
+    return {
+      provider: this.settings.embeddingProviderName,
+      model: modelInfo.name,
+      dimensions: this.embeddingProvider.getDimensions(),
+      documentPrompts: describeDocumentPrompts(modelInfo.prompts),
+      enrichment: describeEnrichment(this.settings.enrichment),
+      distance: describeDistance(modelInfo.distance)
+    };
+  }
+
+  private async saveManifest(): Promise<void> {
+    if (!this.settings.manifestPath || !this.indexMetadata.embedding) {
+      return;
+    }
+
+    const manifest: IndexManifest = {
+      id: this.indexMetadata.id,
+      name: this.indexMetadata.name,
+      createdAt: this.indexMetadata.createdAt.toISOString(),
+      updatedAt: new Date().toISOString(),
+      version: this.indexMetadata.version,
+      embedding: this.indexMetadata.embedding
+    };
+
+    await writeIndexManifest(this.settings.manifestPath, manifest);
   }
 
   private generateDocumentId(filePath: string): string {
@@ -514,6 +899,29 @@ export class IndexManager {
     return createHash('sha256').update(content, 'utf-8').digest('hex');
   }
 
+  /**
+   * ディレクトリから親をたどって最も近い package.json の name を返す（ワークスペースのルートまで）
+   */
+  private async findPackageName(directory: string): Promise<string | undefined> {
+    if (this.packageNames.has(directory)) {
+      return this.packageNames.get(directory);
+    }
+
+    let name: string | undefined;
+    try {
+      const manifest = JSON.parse(await readFile(join(directory, 'package.json'), 'utf-8'));
+      name = typeof manifest.name === 'string' ? manifest.name : undefined;
+    } catch {
+      const parent = dirname(directory);
+      if (directory !== this.workspaceRoot && parent !== directory) {
+        name = await this.findPackageName(parent);
+      }
+    }
+
+    this.packageNames.set(directory, name);
+    return name;
+  }
+
   private categorizeFile(filePath: string): string {
     const normalized = filePath.toLowerCase();
     
@@ -562,6 +970,63 @@ export class IndexManager {
   }
 }
 
+/**
+ * インデックスマニフェストを読み込む（存在しない・読めない場合は null）
+ */
+export async function readIndexManifest(path: string): Promise<IndexManifest | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as IndexManifest;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Ignoring unreadable index manifest ${path}:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * マニフェストを一時ファイル経由のリネームで原子的に書き換える
+ */
+export async function writeIndexManifest(path: string, manifest: IndexManifest): Promise<void> {
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(tempPath, JSON.stringify(manifest, null, 2), 'utf-8');
+  await rename(tempPath, path);
+}
+
+function describeEmbeddingMismatch(
+  recorded: EmbeddingFingerprint | undefined,
+  collectionDimensions: number,
+  current: EmbeddingFingerprint
+): string | null {
+  if (collectionDimensions > 0 && collectionDimensions !== current.dimensions) {
+    return `dimensions ${collectionDimensions} → ${current.dimensions}`;
+  }
+  if (recorded && recorded.model !== current.model) {
+    return `model ${recorded.model} → ${current.model}`;
+  }
+  if (recorded && recorded.documentPrompts !== current.documentPrompts) {
+    return 'document prompt templates changed';
+  }
+  if (recorded && recorded.enrichment !== current.enrichment) {
+    return 'chunk enrichment template changed';
+  }
+  if (recorded && recorded.distance !== current.distance) {
+    return `distance ${recorded.distance || 'cosine'} → ${current.distance || 'cosine'}`;
+  }
+  return null;
+}
+
+function embeddingTaskFor(documentType: DocumentInput['type']): EmbeddingTask | undefined {
+  if (documentType === 'typescript' || documentType === 'javascript') {
+    return 'code';
+  }
+  if (documentType === 'markdown') {
+    return 'docs';
+  }
+  return undefined;
+}
+
 // レガシー互換性のためのインターフェース
 export interface IndexManager_Legacy {
   addDocument(document: any): Promise<void>;
@@ -0,0 +1,14 @@
+/**
+ * インデックス対象ファイルの include / exclude パターン
+ */
+import { globToRegExp } from '../vector/index.js';
+
+/**
+ * ワークスペースからの相対パスがいずれかの glob に一致するか
+ *
+ * パターンはパス全体と照合する。** は0個以上のディレクトリに一致するため、** で始まるパターンは
+ * ルート直下のファイルにも一致する。* と ? は / 以外に一致し、それ以外の文字（. など）は文字どおりに扱う。
+ */
+export function matchesIndexPatterns(filePath: string, patterns: string[]): boolean {
+  return patterns.some(pattern => globToRegExp(pattern).test(filePath));
+}
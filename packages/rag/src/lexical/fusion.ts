@@ -0,0 +1,52 @@
+/**
+ * 相互順位融合（Reciprocal Rank Fusion）
+ *
+ * スコアの尺度が異なる検索結果（コサイン類似度と BM25）を順位だけで統合する。
+ * 各リストでの順位 r に対して weight / (k + r) を加算し、全リストで1位の場合を 1 として正規化する。
+ * 順位だけでは関連の薄い候補も残るため、minScore を下回る結果は融合前にリストごとの尺度で除く。
+ */
+import type { SearchResult } from '../vector/index.js';
+
+export interface RankedList {
+  results: SearchResult[];
+  weight?: number; // 既定: 1
+  minScore?: number; // このリストの尺度でのスコアの下限（既定: なし）
+}
+
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  options: { k?: number; limit?: number } = {}
+): SearchResult[] {
+  const k = options.k ?? 60;
+  const fused = new Map<string, SearchResult>();
+  let maximum = 0;
+
+  for (const list of lists) {
+    const weight = list.weight ?? 1;
+    if (weight <= 0) {
+      continue;
+    }
+    maximum += weight / (k + 1);
+
+    const minScore = list.minScore ?? -Infinity;
+    list.results.filter(result => result.score >= minScore).forEach((result, rank) => {
+      const contribution = weight / (k + rank + 1);
+      const existing = fused.get(result.id);
+      if (existing) {
+        // 先に現れたリストの結果を保持する
+        existing.score += contribution;
+      } else {
+        fused.set(result.id, { ...result, score: contribution });
+      }
+    });
+  }
+
+  if (maximum === 0) {
+    return [];
+  }
+
+  return Array.from(fused.values())
+    .map(result => ({ ...result, score: result.score / maximum }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? fused.size);
+}
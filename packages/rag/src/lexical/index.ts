@@ -0,0 +1,257 @@
+/**
+ * 語彙検索 - BM25 転置インデックス
+ *
+ * 識別子（handleToolsCall、RAG_ERROR 等）の完全一致は埋め込みでは拾いにくいため、
+ * ベクトルインデックスと同じチャンクを BM25 でも索引する。識別子は全体に加えて
+ * camelCase・snake_case の構成語でも索引し、日本語等の CJK 文字列は文字 bigram で分割する。
+ */
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { CQMError } from '@cqm/shared';
+import { matchesFilters } from '../vector/filters.js';
+import type { VectorDocument, SearchFilters, SearchResult } from '../vector/index.js';
+
+export interface BM25Options {
+  k1?: number; // 単語頻度の飽和パラメータ
+  b?: number; // 文書長による正規化の強さ
+}
+
+export interface LexicalSearchOptions {
+  limit?: number;
+  offset?: number; // 先頭から読み飛ばす件数（ページング用）
+  filters?: SearchFilters;
+}
+
+interface IndexedDocument {
+  document: VectorDocument;
+  length: number;
+  terms: Map<string, number>;
+}
+
+interface LexicalSnapshot {
+  version: 1;
+  documents: VectorDocument[];
+}
+
+const IDENTIFIER_PATTERN = /[\p{L}\p{N}_$]+/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu;
+const CAMEL_CASE_BOUNDARY = /([a-z0-9])([A-Z])|([A-Z]+)([A-Z][a-z])/g;
+
+/**
+ * 語彙検索用のトークン分割（インデックス・クエリ共通）
+ */
+export function tokenizeForLexicalSearch(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const [word] of text.matchAll(IDENTIFIER_PATTERN)) {
+    // CJK は区切りがないため bigram に分割し、それ以外の部分は識別子として扱う
+    const latin = word.replace(CJK_PATTERN, ' ');
+    for (const [run] of word.matchAll(CJK_PATTERN)) {
+      tokens.push(...cjkBigrams(run));
+    }
+
+    for (const identifier of latin.split(' ').filter(Boolean)) {
+      tokens.push(identifier.toLowerCase());
+
+      const parts = identifier
+        .replace(CAMEL_CASE_BOUNDARY, (_, a, b, c, d) => a ? `${a}_${b}` : `${c}_${d}`)
+        .split(/[_$]+/)
+        .filter(part => part.length > 1);
+      if (parts.length > 1) {
+        tokens.push(...parts.map(part => part.toLowerCase()));
+      }
+    }
+  }
+
+  return tokens;
+}
+
+export class BM25Index {
+  private readonly documents = new Map<string, IndexedDocument>();
+  private readonly postings = new Map<string, Map<string, number>>();
+  private readonly options: Required<BM25Options>;
+  private totalLength = 0;
+
+  constructor(options: BM25Options = {}) {
+    this.options = {
+      k1: options.k1 ?? 1.2,
+      b: options.b ?? 0.75
+    };
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * 索引済みのファイルパスの一覧
+   */
+  getSources(): string[] {
+    const sources = new Set<string>();
+    this.documents.forEach(indexed => sources.add(indexed.document.payload.metadata.source));
+    return Array.from(sources);
+  }
+
+  /**
+   * ドキュメントを追加する（同じIDは置き換え）。ベクトルは保持しない
+   */
+  add(document: VectorDocument): void {
+    this.remove(document.id);
+
+    const tokens = tokenizeForLexicalSearch(document.payload.content);
+    const terms = new Map<string, number>();
+    tokens.forEach(token => terms.set(token, (terms.get(token) || 0) + 1));
+
+    for (const [term, frequency] of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(document.id, frequency);
+    }
+
+    this.documents.set(document.id, { document: { ...document, vector: [] }, length: tokens.length, terms });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): boolean {
+    const indexed = this.documents.get(id);
+    if (!indexed) {
+      return false;
+    }
+
+    for (const term of indexed.terms.keys()) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= indexed.length;
+    return true;
+  }
+
+  /**
+   * ID でドキュメントを取得する（ベクトルは含まない）
+   */
+  get(id: string): VectorDocument | undefined {
+    return this.documents.get(id)?.document;
+  }
+
+  /**
+   * 指定ファイルから生成されたドキュメントの一覧
+   */
+  getBySource(source: string): VectorDocument[] {
+    return Array.from(this.documents.values())
+      .filter(indexed => indexed.document.payload.metadata.source === source)
+      .map(indexed => indexed.document);
+  }
+
+  /**
+   * 指定ファイルから生成されたドキュメントをすべて削除する
+   */
+  removeBySource(source: string): number {
+    const ids = this.getBySource(source).map(document => document.id);
+
+    ids.forEach(id => this.remove(id));
+    return ids.length;
+  }
+
+  search(query: string, options: LexicalSearchOptions = {}): SearchResult[] {
+    const limit = options.limit || 20;
+    const offset = options.offset || 0;
+    const terms = Array.from(new Set(tokenizeForLexicalSearch(query)));
+    if (terms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const { k1, b } = this.options;
+    const averageLength = this.totalLength / this.documents.size || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        const length = this.documents.get(id)!.length;
+        const weight = idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + weight);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score, document: this.documents.get(id)!.document }))
+      .filter(result => matchesFilters(result.document.payload, options.filters))
+      .sort((a, b) => b.score - a.score)
+      .slice(offset, offset + limit)
+      .map(result => ({ ...result, document: { ...result.document } }));
+  }
+
+  /**
+   * JSON スナップショットを一時ファイル経由のリネームで原子的に書き出す
+   */
+  async save(path: string): Promise<void> {
+    const snapshot: LexicalSnapshot = {
+      version: 1,
+      documents: Array.from(this.documents.values()).map(indexed => indexed.document)
+    };
+
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(snapshot), 'utf-8');
+    await rename(tempPath, path);
+  }
+
+  /**
+   * スナップショットから復元する（存在しない場合は空のインデックス）
+   */
+  static async load(path: string, options: BM25Options = {}): Promise<BM25Index> {
+    const index = new BM25Index(options);
+
+    let snapshot: LexicalSnapshot;
+    try {
+      snapshot = JSON.parse(await readFile(path, 'utf-8')) as LexicalSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return index;
+      }
+      throw new CQMError(
+        `Failed to load lexical index ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'INDEX_INIT_ERROR',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+
+    for (const document of snapshot.documents) {
+      // JSON では Date が文字列になるため復元する
+      const metadata = { ...document.payload.metadata, lastModified: new Date(document.payload.metadata.lastModified) };
+      index.add({ ...document, payload: { ...document.payload, metadata } });
+    }
+
+    return index;
+  }
+}
+
+function cjkBigrams(run: string): string[] {
+  const characters = Array.from(run);
+  if (characters.length === 1) {
+    return characters;
+  }
+
+  const bigrams: string[] = [];
+  for (let i = 0; i < characters.length - 1; i++) {
+    bigrams.push(characters[i] + characters[i + 1]);
+  }
+  return bigrams;
+}
+
+// ランク融合
+export { reciprocalRankFusion } from './fusion.js';
+export type { RankedList } from './fusion.js';
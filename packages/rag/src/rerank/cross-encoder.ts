@@ -0,0 +1,90 @@
+/**
+ * クロスエンコーダーによる再ランキング
+ *
+ * ローカルで動かす再ランキングモデル（text-embeddings-inference、llama.cpp、Infinity など）の
+ * HTTP エンドポイントへクエリと候補の本文を送り、返された関連度で並べ替える。
+ * リクエストは { model, query, documents }、レスポンスは { results: [{ index, relevance_score }] }
+ * または [{ index, score }] を受け付ける。
+ */
+import { CQMError } from '@cqm/shared';
+import type { SearchResult } from '../vector/index.js';
+import type { Reranker } from './index.js';
+
+export interface CrossEncoderRerankerOptions {
+  url: string; // 例: http://localhost:8080/rerank
+  model?: string;
+  weight?: number; // モデルの関連度の重み（0〜1、既定: 1 でモデルの関連度のみ）
+  timeout?: number; // ミリ秒（既定: 10000）
+}
+
+interface RerankResponseEntry {
+  index: number;
+  relevance_score?: number;
+  score?: number;
+}
+
+export class CrossEncoderReranker implements Reranker {
+  readonly name = 'cross-encoder';
+  private options: Required<Omit<CrossEncoderRerankerOptions, 'model'>> & { model?: string };
+
+  constructor(options: CrossEncoderRerankerOptions) {
+    this.options = {
+      url: options.url,
+      model: options.model,
+      weight: Math.min(1, Math.max(0, options.weight ?? 1)),
+      timeout: options.timeout || 10000
+    };
+  }
+
+  async rerank(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const entries = await this.post(query, candidates.map(candidate => candidate.document.payload.content));
+    const relevance = new Array<number>(candidates.length).fill(0);
+    entries.forEach(entry => {
+      if (entry.index >= 0 && entry.index < candidates.length) {
+        relevance[entry.index] = entry.relevance_score ?? entry.score ?? 0;
+      }
+    });
+
+    const { weight } = this.options;
+    return candidates.map((candidate, index) => weight * relevance[index] + (1 - weight) * candidate.score);
+  }
+
+  private async post(query: string, documents: string[]): Promise<RerankResponseEntry[]> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout);
+
+    try {
+      const response = await fetch(this.options.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: this.options.model, query, documents }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new CQMError(`Rerank endpoint returned ${response.status}: ${detail.slice(0, 200)}`, 'RERANK_ERROR', {
+          status: response.status
+        });
+      }
+
+      const body = await response.json() as { results?: RerankResponseEntry[] } | RerankResponseEntry[];
+      const entries = Array.isArray(body) ? body : body.results;
+      if (!Array.isArray(entries)) {
+        throw new CQMError('Rerank endpoint returned an unexpected response', 'RERANK_ERROR');
+      }
+      return entries;
+    } catch (error) {
+      if (error instanceof CQMError) {
+        throw error;
+      }
+      throw new CQMError(
+        `Rerank request to ${this.options.url} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'RERANK_ERROR',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * 再ランキング - 検索後の上位候補の並べ替え
+ *
+ * ベクトル検索・語彙検索で取得した上位 N 件に、登録された Reranker を順に適用する。
+ * 各段のスコアは explain として結果に残し、どの段で順位が変わったかを追えるようにする。
+ */
+import { CQMError, RerankerSettings } from '@cqm/shared';
+import type { SearchResult } from '../vector/index.js';
+import { LexicalOverlapReranker } from './lexical.js';
+import { SymbolMatchReranker } from './symbol.js';
+import { CrossEncoderReranker } from './cross-encoder.js';
+
+export interface Reranker {
+  readonly name: string;
+  /**
+   * 候補ごとの新しいスコアを返す（候補の score は前段のスコアを最大値で割って 0〜1 にしたもの）
+   */
+  rerank(query: string, candidates: SearchResult[]): Promise<number[]>;
+}
+
+export interface RerankOptions {
+  topN?: number; // 再ランキングする上位候補数（既定: 50）
+  rerankers: Array<Reranker | RerankerSettings>;
+}
+
+export interface RerankStageScore {
+  reranker: string;
+  score: number;
+}
+
+export interface RerankExplanation {
+  retrieval: number; // 検索（ベクトル・BM25・融合）時点のスコア
+  stages: RerankStageScore[];
+}
+
+export type RerankedResult = SearchResult & { explain: RerankExplanation };
+
+export function createReranker(reranker: Reranker | RerankerSettings): Reranker {
+  if ('rerank' in reranker) {
+    return reranker;
+  }
+
+  switch (reranker.type) {
+    case 'lexical':
+      return new LexicalOverlapReranker({ weight: reranker.weight });
+    case 'symbol':
+      return new SymbolMatchReranker({ boost: reranker.boost });
+    case 'cross-encoder':
+      return new CrossEncoderReranker(reranker);
+    default:
+      throw new CQMError(`Unknown reranker type: ${(reranker as { type?: string }).type}`, 'CONFIG_ERROR');
+  }
+}
+
+/**
+ * 上位 topN 件を再ランキングする（topN 件より後の候補は元の順位のまま後ろに続ける）
+ *
+ * 失敗した段は警告を出して読み飛ばし、前段の順位で続行する。
+ */
+export async function rerankResults(query: string, results: SearchResult[], options: RerankOptions): Promise<RerankedResult[]> {
+  const topN = options.topN || 50;
+  let ranked: RerankedResult[] = results.slice(0, topN).map(result => ({
+    ...result,
+    explain: { retrieval: result.score, stages: [] }
+  }));
+
+  for (const reranker of options.rerankers.map(createReranker)) {
+    if (ranked.length === 0) {
+      break;
+    }
+
+    const maxScore = Math.max(...ranked.map(result => result.score));
+    const candidates = ranked.map(result => ({ ...result, score: maxScore > 0 ? Math.max(0, result.score) / maxScore : 0 }));
+
+    let scores: number[];
+    try {
+      scores = await reranker.rerank(query, candidates);
+    } catch (error) {
+      console.warn(`Reranker ${reranker.name} failed, keeping the previous order:`, error);
+      continue;
+    }
+
+    ranked = ranked
+      .map((result, index) => {
+        const score = scores[index] ?? 0;
+        return { ...result, score, explain: { ...result.explain, stages: [...result.explain.stages, { reranker: reranker.name, score }] } };
+      })
+      // 同点の場合は前段の順位を保つ（Array.prototype.sort は安定ソート）
+      .sort((a, b) => b.score - a.score);
+  }
+
+  const rest = results.slice(topN).map(result => ({ ...result, explain: { retrieval: result.score, stages: [] } }));
+  return [...ranked, ...rest];
+}
+
+export { LexicalOverlapReranker } from './lexical.js';
+export type { LexicalOverlapRerankerOptions } from './lexical.js';
+export { SymbolMatchReranker } from './symbol.js';
+export type { SymbolMatchRerankerOptions } from './symbol.js';
+export { CrossEncoderReranker } from './cross-encoder.js';
+export type { CrossEncoderRerankerOptions } from './cross-encoder.js';
@@ -0,0 +1,42 @@
+/**
+ * 語彙の重なりによる再ランキング
+ *
+ * クエリの語のうちチャンクの本文・タイトルに現れる割合を、前段のスコアと重み付きで混ぜる。
+ */
+import { tokenizeForLexicalSearch } from '../lexical/index.js';
+import type { SearchResult } from '../vector/index.js';
+import type { Reranker } from './index.js';
+
+export interface LexicalOverlapRerankerOptions {
+  weight?: number; // 語彙の重なりの重み（0〜1、既定: 0.3）
+}
+
+export class LexicalOverlapReranker implements Reranker {
+  readonly name = 'lexical';
+  private weight: number;
+
+  constructor(options: LexicalOverlapRerankerOptions = {}) {
+    this.weight = Math.min(1, Math.max(0, options.weight ?? 0.3));
+  }
+
+  async rerank(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const queryTerms = new Set(tokenizeForLexicalSearch(query));
+
+    return candidates.map(candidate => {
+      if (queryTerms.size === 0) {
+        return candidate.score;
+      }
+
+      const { content, chunks } = candidate.document.payload;
+      const terms = new Set(tokenizeForLexicalSearch(`${chunks?.[0]?.title || ''}\n${content}`));
+      let matched = 0;
+      queryTerms.forEach(term => {
+        if (terms.has(term)) {
+          matched++;
+        }
+      });
+
+      return (1 - this.weight) * candidate.score + this.weight * (matched / queryTerms.size);
+    });
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * シンボル名の完全一致による再ランキング
+ *
+ * クエリ中の識別子（RAGEngine、handleToolsCall など）がチャンクのシンボル名・タイトルと
+ * 大文字小文字まで一致する場合に加点し、その定義そのものを上位に出す。
+ */
+import type { SearchResult } from '../vector/index.js';
+import type { Reranker } from './index.js';
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/g;
+
+export interface SymbolMatchRerankerOptions {
+  boost?: number; // 一致した場合の加点（既定: 0.2）
+}
+
+export class SymbolMatchReranker implements Reranker {
+  readonly name = 'symbol';
+  private boost: number;
+
+  constructor(options: SymbolMatchRerankerOptions = {}) {
+    this.boost = options.boost ?? 0.2;
+  }
+
+  async rerank(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const identifiers = new Set(query.match(IDENTIFIER_PATTERN) || []);
+
+    return candidates.map(candidate => {
+      const chunk = candidate.document.payload.chunks?.[0];
+      const symbols = [...(chunk?.symbols || []), ...(chunk?.title?.match(IDENTIFIER_PATTERN) || [])];
+      return symbols.some(symbol => identifiers.has(symbol)) ? candidate.score + this.boost : candidate.score;
+    });
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * インデックスのスナップショット - バックアップとチーム間共有
+ *
+ * アーカイブは gzip 圧縮した JSONL で、1行目にインデックスのマニフェストと埋め込みモデルの
+ * 識別情報、2行目以降にベクトルとペイロードを含むチャンクを1行ずつ書き出す。
+ * ファイルパスはワークスペースのルートからの相対パス（/ 区切り）で保存し、インポート先の
+ * ワークスペースで解決する。ベクトルストアの実装には依存しない。
+ */
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rename, rm } from 'fs/promises';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { createInterface } from 'readline';
+import { pipeline } from 'stream/promises';
+import { createGzip, createGunzip } from 'zlib';
+import { CQMError } from '@cqm/shared';
+import type { VectorStore, VectorDocument } from '../vector/index.js';
+import { BM25Index } from '../lexical/index.js';
+import {
+  EmbeddingFingerprint,
+  IndexManifest,
+  collectionNameFor,
+  readIndexManifest,
+  writeIndexManifest
+} from '../index/index.js';
+
+export const SNAPSHOT_FORMAT = 'cqm-index-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+export interface IndexSnapshotHeader {
+  format: typeof SNAPSHOT_FORMAT;
+  version: typeof SNAPSHOT_VERSION;
+  exportedAt: string;
+  manifest: IndexManifest;
+  embedding: EmbeddingFingerprint;
+}
+
+export interface ExportIndexSnapshotOptions {
+  store: VectorStore;
+  workspaceRoot: string;
+  manifestPath: string;
+  archivePath: string;
+  batchSize?: number; // ベクトルストアから1回に読み出す件数（既定: 256）
+}
+
+export interface ImportIndexSnapshotOptions {
+  store: VectorStore;
+  workspaceRoot: string;
+  archivePath: string;
+  manifestPath: string;
+  lexicalIndexPath?: string;
+  embedding: EmbeddingFingerprint; // インポート先で使用する埋め込みモデル
+  sourceBase?: string; // 相対パスを解決する基準（既定: workspaceRoot。IndexManager の basePaths に合わせる）
+  batchSize?: number; // ベクトルストアへ1回に書き込む件数（既定: 100）
+}
+
+export interface IndexSnapshotResult {
+  collection: string;
+  chunkCount: number;
+  embedding: EmbeddingFingerprint;
+}
+
+/**
+ * マニフェストが参照するコレクションをアーカイブへ書き出す
+ */
+export async function exportIndexSnapshot(options: ExportIndexSnapshotOptions): Promise<IndexSnapshotResult> {
+  const manifest = await readIndexManifest(options.manifestPath);
+  if (!manifest) {
+    throw new CQMError(`No index manifest at ${options.manifestPath}; build the index before exporting`, 'SNAPSHOT_ERROR');
+  }
+
+  const root = resolve(options.workspaceRoot);
+  const header: IndexSnapshotHeader = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    exportedAt: new Date().toISOString(),
+    manifest,
+    embedding: manifest.embedding
+  };
+
+  let chunkCount = 0;
+  async function* lines(): AsyncGenerator<string> {
+    yield `${JSON.stringify(header)}\n`;
+
+    let offset: string | undefined;
+    do {
+      const page = await options.store.scroll(manifest!.id, { limit: options.batchSize || 256, offset });
+      for (const document of page.documents) {
+        chunkCount++;
+        yield `${JSON.stringify(toPortableDocument(document, root))}\n`;
+      }
+      offset = page.nextOffset;
+    } while (offset !== undefined);
+  }
+
+  // 一時ファイルに書き切ってからリネームし、途中で失敗しても既存のアーカイブを壊さない
+  const tempPath = `${options.archivePath}.${process.pid}.tmp`;
+  await mkdir(dirname(resolve(options.archivePath)), { recursive: true });
+  try {
+    await pipeline(lines(), createGzip(), createWriteStream(tempPath));
+    await rename(tempPath, options.archivePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw new CQMError(
+      `Failed to export index snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'SNAPSHOT_ERROR',
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+
+  return { collection: manifest.id, chunkCount, embedding: manifest.embedding };
+}
+
+/**
+ * アーカイブをベクトルストアへ復元し、マニフェストと語彙インデックスを書き換える
+ *
+ * 埋め込みモデル・次元数・ドキュメント用プロンプトがインポート先と一致しない場合は
+ * 検索クエリとベクトルの空間が合わないため拒否する。
+ * アーカイブは一時コレクションへ最後の行まで読み込んでから既存のコレクションと入れ替えるため、
+ * 途中で壊れたアーカイブでは既存のインデックス・マニフェスト・語彙インデックスを変更しない。
+ * 既存のコレクションを削除した後に置き換えに失敗した場合は、一時コレクションを残してマニフェストの参照先にする。
+ */
+export async function importIndexSnapshot(options: ImportIndexSnapshotOptions): Promise<IndexSnapshotResult> {
+  const root = resolve(options.workspaceRoot);
+  const sourceBase = options.sourceBase ?? root;
+  const batchSize = options.batchSize || 100;
+  const lines = createInterface({
+    input: createReadStream(options.archivePath).pipe(createGunzip()),
+    crlfDelay: Infinity
+  });
+
+  let header: IndexSnapshotHeader | undefined;
+  const collection = collectionNameFor(root, options.embedding);
+  const staging = `${collection}-import`;
+  let batch: VectorDocument[] = [];
+  let chunkCount = 0;
+  const lexicalIndex = new BM25Index();
+
+  const flush = async () => {
+    await options.store.upsertVectors(staging, batch);
+    batch.forEach(document => lexicalIndex.add(document));
+    batch = [];
+  };
+
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      if (!header) {
+        header = parseHeader(line, options.archivePath);
+        validateEmbedding(header.embedding, options.embedding);
+
+        // 前回中断したインポートの残りは捨てる
+        await options.store.deleteCollection(staging).catch(() => undefined);
+        await options.store.createCollection(staging, options.embedding.dimensions, options.embedding.distance);
+        continue;
+      }
+
+      const document = fromPortableDocument(JSON.parse(line), sourceBase);
+      if (document.vector.length !== options.embedding.dimensions) {
+        throw new CQMError(
+          `Chunk ${document.id} has a ${document.vector.length}d vector, expected ${options.embedding.dimensions}d`,
+          'SNAPSHOT_INCOMPATIBLE'
+        );
+      }
+
+      batch.push(document);
+      chunkCount++;
+      if (batch.length >= batchSize) {
+        await flush();
+      }
+    }
+
+    if (!header) {
+      throw new CQMError(`Index snapshot ${options.archivePath} is empty`, 'INVALID_SNAPSHOT');
+    }
+    if (batch.length > 0) {
+      await flush();
+    }
+  } catch (error) {
+    if (header) {
+      await options.store.deleteCollection(staging).catch(() => undefined);
+    }
+    if (error instanceof CQMError) {
+      throw error;
+    }
+    throw new CQMError(
+      `Failed to import index snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'SNAPSHOT_ERROR',
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+
+  const imported = header;
+  const saveIndex = async (id: string) => {
+    const now = new Date().toISOString();
+    await writeIndexManifest(options.manifestPath, {
+      ...imported.manifest,
+      id,
+      createdAt: imported.manifest.createdAt || now,
+      updatedAt: now,
+      embedding: { ...options.embedding }
+    });
+    if (options.lexicalIndexPath) {
+      await lexicalIndex.save(options.lexicalIndexPath);
+    }
+  };
+
+  // 最後の行まで読めたので既存のコレクションを置き換える
+  await options.store.deleteCollection(collection).catch(() => undefined);
+  try {
+    await options.store.createCollection(collection, options.embedding.dimensions, options.embedding.distance);
+    await copyCollection(options.store, staging, collection, batchSize);
+  } catch (error) {
+    // 既存のコレクションは削除済みのため、読み込み済みの一時コレクションを残してマニフェストの参照先にする
+    // （次回起動時にコレクション名の変更として本来の名前へ移行される）
+    await saveIndex(staging);
+    throw new CQMError(
+      `Failed to replace index collection ${collection}: ${error instanceof Error ? error.message : 'Unknown error'}; `
+        + `the imported chunks are kept in ${staging}`,
+      'SNAPSHOT_ERROR',
+      { collection: staging }
+    );
+  }
+
+  await options.store.deleteCollection(staging).catch(() => undefined);
+  await saveIndex(collection);
+
+  return { collection, chunkCount, embedding: header.embedding };
+}
+
+async function copyCollection(store: VectorStore, from: string, to: string, batchSize: number): Promise<void> {
+  let offset: string | undefined;
+  do {
+    const page = await store.scroll(from, { limit: batchSize, offset });
+    if (page.documents.length > 0) {
+      await store.upsertVectors(to, page.documents);
+    }
+    offset = page.nextOffset;
+  } while (offset !== undefined);
+}
+
+/**
+ * アーカイブの1行目（マニフェストと埋め込みモデル）だけを読み出す
+ */
+export async function readIndexSnapshotHeader(archivePath: string): Promise<IndexSnapshotHeader> {
+  const lines = createInterface({ input: createReadStream(archivePath).pipe(createGunzip()), crlfDelay: Infinity });
+  try {
+    for await (const line of lines) {
+      return parseHeader(line, archivePath);
+    }
+  } finally {
+    lines.close();
+  }
+  throw new CQMError(`Index snapshot ${archivePath} is empty`, 'INVALID_SNAPSHOT');
+}
+
+function parseHeader(line: string, archivePath: string): IndexSnapshotHeader {
+  let header: IndexSnapshotHeader;
+  try {
+    header = JSON.parse(line);
+  } catch {
+    throw new CQMError(`${archivePath} is not an index snapshot`, 'INVALID_SNAPSHOT');
+  }
+
+  if (header?.format !== SNAPSHOT_FORMAT || !header.manifest || !header.embedding) {
+    throw new CQMError(`${archivePath} is not an index snapshot`, 'INVALID_SNAPSHOT');
+  }
+  if (header.version !== SNAPSHOT_VERSION) {
+    throw new CQMError(`Unsupported index snapshot version ${header.version}`, 'INVALID_SNAPSHOT');
+  }
+  return header;
+}
+
+function validateEmbedding(archived: EmbeddingFingerprint, current: EmbeddingFingerprint): void {
+  const mismatches: string[] = [];
+  if (archived.model !== current.model) {
+    mismatches.push(`model ${archived.model} ≠ ${current.model}`);
+  }
+  if (archived.dimensions !== current.dimensions) {
+    mismatches.push(`dimensions ${archived.dimensions} ≠ ${current.dimensions}`);
+  }
+  if (archived.documentPrompts !== current.documentPrompts) {
+    mismatches.push('document prompt templates differ');
+  }
+  if (archived.enrichment !== current.enrichment) {
+    mismatches.push('chunk enrichment templates differ');
+  }
+  if (archived.distance !== current.distance) {
+    mismatches.push(`distance ${archived.distance || 'cosine'} ≠ ${current.distance || 'cosine'}`);
+  }
+
+  if (mismatches.length > 0) {
+    throw new CQMError(
+      `Index snapshot is incompatible with the configured embedding model: ${mismatches.join(', ')}`,
+      'SNAPSHOT_INCOMPATIBLE',
+      { archived, current }
+    );
+  }
+}
+
+// ファイルパスとそれを含むドキュメントIDをワークスペースからの相対パスにする
+function toPortableDocument(document: VectorDocument, root: string): VectorDocument {
+  const source = document.payload.metadata.source;
+  const portable = relative(root, resolve(source)).split(sep).join('/');
+  return {
+    id: document.id.startsWith(source) ? portable + document.id.slice(source.length) : document.id,
+    vector: document.vector,
+    payload: { ...document.payload, metadata: { ...document.payload.metadata, source: portable } }
+  };
+}
+
+function fromPortableDocument(document: VectorDocument, sourceBase: string): VectorDocument {
+  const portable = document.payload.metadata.source;
+  const source = join(sourceBase, ...portable.split('/'));
+  return {
+    id: document.id.startsWith(portable) ? source + document.id.slice(portable.length) : document.id,
+    vector: document.vector,
+    payload: {
+      ...document.payload,
+      // JSON では Date が文字列になるため復元する
+      metadata: { ...document.payload.metadata, source, lastModified: new Date(document.payload.metadata.lastModified) }
+    }
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * トークナイザー抽象化 - 埋め込みモデルごとのトークン数計算とトークン単位の分割
+ *
+ * 語彙ファイルを同梱せず、モデルファミリーごとの分割規則を近似する。
+ * 上限超過による切り捨てを防ぐため、推定は実際のトークン数より多めになるよう調整している。
+ */
+
+export interface TokenSpan {
+  start: number; // 文字オフセット（含む）
+  end: number; // 文字オフセット（含まない）
+}
+
+export interface Tokenizer {
+  readonly name: string;
+  readonly specialTokens: number; // シーケンスごとに付与される特殊トークン数（[CLS]/[SEP] 等）
+  tokenize(text: string): TokenSpan[];
+  countTokens(text: string): number;
+}
+
+export interface TextSplit {
+  content: string;
+  start: number;
+  end: number;
+  tokenCount: number;
+}
+
+// 事前分割（単語・数字・記号・空白）
+const PRE_TOKENIZE_PATTERN = /\p{L}+|\p{N}+|[^\s\p{L}\p{N}]+|\s+/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+abstract class ApproximateTokenizer implements Tokenizer {
+  abstract readonly name: string;
+  abstract readonly specialTokens: number;
+
+  tokenize(text: string): TokenSpan[] {
+    const spans: TokenSpan[] = [];
+
+    for (const match of text.matchAll(PRE_TOKENIZE_PATTERN)) {
+      const piece = match[0];
+      const start = match.index!;
+
+      if (CJK_PATTERN.test(piece)) {
+        // CJK は概ね1文字1トークン以上
+        for (let i = 0; i < piece.length; i++) {
+          spans.push({ start: start + i, end: start + i + 1 });
+        }
+        continue;
+      }
+
+      const count = this.countPieceTokens(piece);
+      for (let i = 0; i < count; i++) {
+        spans.push({
+          start: start + Math.floor((piece.length * i) / count),
+          end: start + Math.floor((piece.length * (i + 1)) / count)
+        });
+      }
+    }
+
+    return spans;
+  }
+
+  countTokens(text: string): number {
+    if (!text) {
+      return 0;
+    }
+    return this.tokenize(text).length + this.specialTokens;
+  }
+
+  protected abstract countPieceTokens(piece: string): number;
+}
+
+/**
+ * バイトレベルBPE（OpenAI cl100k 系）の近似
+ * 頻出語は1トークン、長い識別子・数字列・記号列は複数トークンに分割される
+ */
+export class BpeApproxTokenizer extends ApproximateTokenizer {
+  readonly name = 'bpe-approx';
+  readonly specialTokens = 0;
+
+  protected countPieceTokens(piece: string): number {
+    const first = piece[0];
+
+    if (/\s/.test(first)) {
+      // 単語前の空白1つは次の単語に結合、改行は1行ごと、インデントは4文字程度で1トークン
+      const newlines = (piece.match(/\n/g) || []).length;
+      const spaces = piece.length - newlines;
+      return newlines + Math.ceil(Math.max(0, spaces - 1) / 4);
+    }
+
+    if (/\p{N}/u.test(first)) {
+      // 数字は3桁ごとに分割される
+      return Math.ceil(piece.length / 3);
+    }
+
+    if (/\p{L}/u.test(first)) {
+      const parts = splitCamelCase(piece);
+      return parts.reduce((sum, part) => sum + Math.max(1, Math.ceil(part.length / 5)), 0);
+    }
+
+    // 記号列は2文字程度で1トークン
+    return Math.ceil(piece.length / 2);
+  }
+}
+
+/**
+ * WordPiece（BERT系: nomic-embed-text、mxbai-embed-large、all-minilm）の近似
+ * 空白はトークン化されず、記号は1文字ごとに分割、未知語は ## サブワードに細分化される
+ */
+export class WordPieceApproxTokenizer extends ApproximateTokenizer {
+  readonly name = 'wordpiece-approx';
+  readonly specialTokens = 2;
+
+  protected countPieceTokens(piece: string): number {
+    const first = piece[0];
+
+    if (/\s/.test(first)) {
+      return 0;
+    }
+
+    if (/\p{L}|\p{N}/u.test(first)) {
+      return splitCamelCase(piece).reduce((sum, part) => {
+        return sum + (part.length <= 5 ? 1 : 1 + Math.ceil((part.length - 5) / 3));
+      }, 0);
+    }
+
+    return piece.length;
+  }
+}
+
+const BPE_TOKENIZER = new BpeApproxTokenizer();
+const WORDPIECE_TOKENIZER = new WordPieceApproxTokenizer();
+
+// モデルファミリーとトークナイザーの対応
+const WORDPIECE_MODEL_PATTERN = /^(nomic-embed|mxbai-embed|all-minilm|bge-|e5-|gte-|snowflake-arctic-embed)/;
+
+/**
+ * モデル名に対応するトークナイザーを返す（未知のモデルはBPE近似）
+ */
+export function getTokenizerForModel(model: string): Tokenizer {
+  const name = model.toLowerCase().replace(/^.*\//, '');
+  return WORDPIECE_MODEL_PATTERN.test(name) ? WORDPIECE_TOKENIZER : BPE_TOKENIZER;
+}
+
+/**
+ * maxTokens に収まるようにテキストをトークン単位で分割する
+ * 各分割の末尾はできるだけ改行位置に合わせ、隣接する分割は overlap トークン重複させる
+ */
+export function splitByTokens(
+  text: string,
+  tokenizer: Tokenizer,
+  maxTokens: number,
+  overlap = 0
+): TextSplit[] {
+  const spans = tokenizer.tokenize(text);
+  const budget = maxTokens - tokenizer.specialTokens;
+
+  if (spans.length <= budget) {
+    return [{ content: text, start: 0, end: text.length, tokenCount: spans.length + tokenizer.specialTokens }];
+  }
+
+  if (budget < 1) {
+    throw new RangeError(`maxTokens (${maxTokens}) is too small for tokenizer ${tokenizer.name}`);
+  }
+
+  const step = Math.max(1, budget - Math.min(overlap, Math.floor(budget / 2)));
+  const splits: TextSplit[] = [];
+  let first = 0;
+
+  while (first < spans.length) {
+    // 分割の先頭の空白・改行トークンは読み飛ばす
+    while (first < spans.length - 1 && !text.substring(spans[first].start, spans[first].end).trim()) {
+      first++;
+    }
+
+    let last = Math.min(first + budget, spans.length);
+
+    // 分割の後半に改行があればそこで区切る
+    if (last < spans.length) {
+      for (let i = last; i > first + Math.floor(budget / 2); i--) {
+        if (text.substring(spans[i - 1].end, spans[i].end).includes('\n')) {
+          last = i;
+          break;
+        }
+      }
+    }
+
+    const start = spans[first].start;
+    const end = spans[last - 1].end;
+    splits.push({
+      content: text.substring(start, end),
+      start,
+      end,
+      tokenCount: last - first + tokenizer.specialTokens
+    });
+
+    if (last >= spans.length) {
+      break;
+    }
+    first = Math.max(first + 1, last - (budget - step));
+  }
+
+  return splits;
+}
+
+function splitCamelCase(word: string): string[] {
+  return word
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, '$1 $2')
+    .replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, '$1 $2')
+    .split(' ');
+}
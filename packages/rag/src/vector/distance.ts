@@ -0,0 +1,42 @@
+/**
+ * 距離関数ごとの類似度スコア
+ *
+ * ストア間で「スコアが大きいほど類似し、threshold はその下限」という扱いを揃えるため、
+ * ユークリッド距離 d はスコア 1 / (1 + d) に変換する。
+ */
+import type { DistanceMetric } from '@cqm/shared';
+
+export function euclideanScore(distance: number): number {
+  return 1 / (1 + distance);
+}
+
+/**
+ * スコアの下限に対応するユークリッド距離の上限（score が 0 以下なら制限なし）
+ */
+export function euclideanDistanceLimit(score: number): number {
+  return score > 0 ? 1 / score - 1 : Infinity;
+}
+
+/**
+ * 2つのベクトルの類似度スコア（cosine・dot はそのまま、euclidean は変換したもの）
+ */
+export function similarityScore(a: ArrayLike<number>, b: ArrayLike<number>, distance: DistanceMetric): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  let squared = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+    squared += (a[i] - b[i]) * (a[i] - b[i]);
+  }
+
+  if (distance === 'dot') {
+    return dot;
+  }
+  if (distance === 'euclidean') {
+    return euclideanScore(Math.sqrt(squared));
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
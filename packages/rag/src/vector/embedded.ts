@@ -0,0 +1,524 @@
+/**
+ * 組み込みベクトルストア - サーバー不要でプロジェクトの .cqm/ 配下に永続化する
+ *
+ * コレクションごとにディレクトリを作り、圧縮済みスナップショット（snapshot.jsonl）と
+ * 追記専用の操作ログ（wal.jsonl）でベクトルとペイロードを保存する。書き込みは
+ * 操作ログへの追記と fsync の完了後にメモリへ反映し、スナップショットは一時ファイル経由の
+ * リネームで置き換えるため、途中でプロセスが落ちても直前の状態から復旧できる。
+ * 検索は小規模コレクションでは全件走査、それ以上は HNSW による近似検索を行う。
+ */
+import { open, readFile, rename, mkdir, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { CQMError, DistanceMetric } from '@cqm/shared';
+import { matchesFilters } from './filters.js';
+import { HnswIndex, HnswOptions } from './hnsw.js';
+import { euclideanScore } from './distance.js';
+import type {
+  VectorStore,
+  VectorDocument,
+  DocumentPayload,
+  SearchQuery,
+  SearchResult,
+  ScrollOptions,
+  ScrollPage,
+  CollectionInfo
+} from './index.js';
+
+export type EmbeddedDistance = DistanceMetric;
+
+export interface EmbeddedVectorStoreOptions {
+  directory: string; // 保存先（例: .cqm/vectors）
+  distance?: EmbeddedDistance; // createCollection で距離関数を指定しない場合の既定（既定: cosine）
+  hnsw?: HnswOptions;
+  exactSearchThreshold?: number; // この件数以下のコレクションは全件走査（既定: 1000）
+  compactionThreshold?: number; // 操作ログがこの件数を超えたらスナップショットへ圧縮（既定: 1000）
+}
+
+interface CollectionManifest {
+  version: 1;
+  name: string;
+  dimensions: number;
+  distance: EmbeddedDistance;
+  createdAt: string;
+  indexedAt: string;
+}
+
+interface StoredRecord {
+  id: string;
+  vector: string; // Float32 リトルエンディアンの base64
+  payload: DocumentPayload;
+}
+
+type LogEntry =
+  | { op: 'upsert'; records: StoredRecord[] }
+  | { op: 'delete'; ids: string[] };
+
+interface EmbeddedRecord {
+  vector: Float32Array; // 元のベクトル
+  normalized: Float32Array; // 比較用（コサイン距離では正規化済み、内積・ユークリッド距離ではそのまま）
+  payload: DocumentPayload;
+}
+
+interface EmbeddedCollection {
+  manifest: CollectionManifest;
+  directory: string;
+  records: Map<string, EmbeddedRecord>;
+  index: HnswIndex;
+  logEntries: number;
+}
+
+const MANIFEST_FILE = 'collection.json';
+const SNAPSHOT_FILE = 'snapshot.jsonl';
+const LOG_FILE = 'wal.jsonl';
+
+export class EmbeddedVectorStore implements VectorStore {
+  private readonly collections = new Map<string, EmbeddedCollection>();
+  private readonly options: Required<Omit<EmbeddedVectorStoreOptions, 'hnsw'>> & { hnsw: HnswOptions };
+  private isInitialized = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: EmbeddedVectorStoreOptions) {
+    this.options = {
+      directory: options.directory,
+      distance: options.distance || 'cosine',
+      hnsw: options.hnsw || {},
+      exactSearchThreshold: options.exactSearchThreshold ?? 1000,
+      compactionThreshold: options.compactionThreshold || 1000
+    };
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      await mkdir(this.options.directory, { recursive: true });
+      const entries = await readdir(this.options.directory, { withFileTypes: true });
+
+      for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+          const collection = await this.loadCollection(join(this.options.directory, entry.name));
+          if (collection) {
+            this.collections.set(collection.manifest.name, collection);
+          }
+        }
+      }
+
+      console.log(`✅ Opened embedded vector store at ${this.options.directory} (${this.collections.size} collections)`);
+      this.isInitialized = true;
+    } catch (error) {
+      throw new CQMError(
+        `Failed to open embedded vector store at ${this.options.directory}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VECTOR_STORE_ERROR',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  createCollection(name: string, dimensions: number, distance?: DistanceMetric): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.collections.has(name)) {
+        console.log(`📋 Collection ${name} already exists`);
+        return;
+      }
+
+      const now = new Date().toISOString();
+      const manifest: CollectionManifest = {
+        version: 1,
+        name,
+        dimensions,
+        distance: distance || this.options.distance,
+        createdAt: now,
+        indexedAt: now
+      };
+      const directory = join(this.options.directory, encodeURIComponent(name));
+
+      await mkdir(directory, { recursive: true });
+      await writeAtomic(join(directory, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+      this.collections.set(name, {
+        manifest,
+        directory,
+        records: new Map(),
+        index: this.createIndex(manifest.distance),
+        logEntries: 0
+      });
+      console.log(`✅ Created collection: ${name} (${dimensions}d)`);
+    });
+  }
+
+  deleteCollection(name: string): Promise<void> {
+    return this.enqueue(async () => {
+      const collection = this.collections.get(name);
+      if (!collection) {
+        return;
+      }
+
+      // マニフェストを先に消し、削除途中のディレクトリを読み込まないようにする
+      await rm(join(collection.directory, MANIFEST_FILE), { force: true });
+      await rm(collection.directory, { recursive: true, force: true });
+      this.collections.delete(name);
+      console.log(`🗑️  Deleted collection: ${name}`);
+    });
+  }
+
+  upsertVectors(collection: string, vectors: VectorDocument[]): Promise<void> {
+    if (vectors.length === 0) {
+      return Promise.resolve();
+    }
+
+    return this.enqueue(async () => {
+      const target = this.getCollection(collection);
+      for (const doc of vectors) {
+        if (doc.vector.length !== target.manifest.dimensions) {
+          throw new CQMError(
+            `Failed to upsert vectors to collection ${collection}: expected ${target.manifest.dimensions}d vector, got ${doc.vector.length}d`,
+            'VECTOR_STORE_ERROR'
+          );
+        }
+      }
+
+      const converted = vectors.map(doc => Float32Array.from(doc.vector));
+      await this.appendLog(target, {
+        op: 'upsert',
+        records: vectors.map((doc, i) => ({ id: doc.id, vector: encodeVector(converted[i]), payload: doc.payload }))
+      });
+
+      vectors.forEach((doc, i) => this.applyUpsert(target, doc.id, converted[i], doc.payload));
+      target.manifest.indexedAt = new Date().toISOString();
+      await this.compactIfNeeded(target);
+    });
+  }
+
+  async search(collection: string, query: SearchQuery): Promise<SearchResult[]> {
+    const target = this.getCollection(collection);
+    if (query.vector.length !== target.manifest.dimensions) {
+      throw new CQMError(
+        `Query vector dimensions mismatch: got ${query.vector.length}, expected ${target.manifest.dimensions}`,
+        'VECTOR_STORE_ERROR'
+      );
+    }
+
+    const offset = query.offset || 0;
+    const limit = (query.limit || 20) + offset; // 読み飛ばす分も含めて探索する
+    const threshold = query.threshold || 0.7;
+    const vector = this.prepareVector(Float32Array.from(query.vector), target.manifest.distance);
+
+    let matches = target.records.size <= this.options.exactSearchThreshold
+      ? this.exactSearch(target, vector, limit, query)
+      : this.approximateSearch(target, vector, limit, query);
+    matches = matches.filter(match => match.score >= threshold).slice(offset);
+
+    return matches.map(match => {
+      const record = target.records.get(match.key)!;
+      return {
+        id: match.key,
+        score: match.score,
+        document: {
+          id: match.key,
+          vector: query.withVectors ? Array.from(record.vector) : [],
+          payload: record.payload
+        }
+      };
+    });
+  }
+
+  deleteVectors(collection: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return Promise.resolve();
+    }
+
+    return this.enqueue(async () => {
+      const target = this.getCollection(collection);
+      await this.appendLog(target, { op: 'delete', ids });
+
+      ids.forEach(id => this.applyDelete(target, id));
+      target.manifest.indexedAt = new Date().toISOString();
+      await this.compactIfNeeded(target);
+    });
+  }
+
+  async scroll(collection: string, options: ScrollOptions = {}): Promise<ScrollPage> {
+    const target = this.getCollection(collection);
+    const start = Number(options.offset || 0);
+    const end = start + (options.limit || 256);
+    const documents = Array.from(target.records.entries()).slice(start, end).map(([id, record]) => ({
+      id,
+      vector: Array.from(record.vector),
+      payload: record.payload
+    }));
+
+    return { documents, nextOffset: end < target.records.size ? String(end) : undefined };
+  }
+
+  async getCollectionInfo(collection: string): Promise<CollectionInfo> {
+    const target = this.getCollection(collection);
+    return {
+      name: collection,
+      vectorCount: target.records.size,
+      dimensions: target.manifest.dimensions,
+      distance: target.manifest.distance,
+      indexedAt: new Date(target.manifest.indexedAt),
+      status: 'ready'
+    };
+  }
+
+  async listCollections(): Promise<CollectionInfo[]> {
+    return Promise.all(Array.from(this.collections.keys()).map(name => this.getCollectionInfo(name)));
+  }
+
+  /**
+   * 操作ログをスナップショットへ圧縮し、HNSW グラフを削除済みノードなしで再構築する
+   */
+  compact(collection: string): Promise<void> {
+    return this.enqueue(async () => {
+      await this.writeSnapshot(this.getCollection(collection));
+    });
+  }
+
+  /**
+   * 保留中の書き込みの完了を待つ
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  private exactSearch(
+    target: EmbeddedCollection,
+    vector: Float32Array,
+    limit: number,
+    query: SearchQuery
+  ): Array<{ key: string; score: number }> {
+    const matches: Array<{ key: string; score: number }> = [];
+
+    for (const [key, record] of target.records) {
+      if (matchesFilters(record.payload, query.filters)) {
+        matches.push({ key, score: compare(vector, record.normalized, target.manifest.distance) });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private approximateSearch(
+    target: EmbeddedCollection,
+    vector: Float32Array,
+    limit: number,
+    query: SearchQuery
+  ): Array<{ key: string; score: number }> {
+    if (!query.filters) {
+      return target.index.search(vector, limit);
+    }
+
+    // フィルター適用で件数が不足する場合は探索幅を広げ、それでも足りなければ全件走査する
+    for (const factor of [4, 16]) {
+      const matches = target.index.search(vector, limit * factor)
+        .filter(match => matchesFilters(target.records.get(match.key)!.payload, query.filters));
+      if (matches.length >= limit) {
+        return matches.slice(0, limit);
+      }
+    }
+
+    return this.exactSearch(target, vector, limit, query);
+  }
+
+  private applyUpsert(target: EmbeddedCollection, id: string, vector: Float32Array, payload: DocumentPayload): void {
+    const normalized = this.prepareVector(vector, target.manifest.distance);
+    target.records.set(id, { vector, normalized, payload: revivePayload(payload) });
+    target.index.insert(id, normalized);
+  }
+
+  private applyDelete(target: EmbeddedCollection, id: string): void {
+    target.records.delete(id);
+    target.index.remove(id);
+  }
+
+  private async appendLog(target: EmbeddedCollection, entry: LogEntry): Promise<void> {
+    const handle = await open(join(target.directory, LOG_FILE), 'a');
+    try {
+      await handle.write(`${JSON.stringify(entry)}\n`);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    target.logEntries++;
+  }
+
+  private async compactIfNeeded(target: EmbeddedCollection): Promise<void> {
+    if (target.logEntries >= this.options.compactionThreshold || target.index.tombstoneRatio > 0.3) {
+      await this.writeSnapshot(target);
+    }
+  }
+
+  private async writeSnapshot(target: EmbeddedCollection): Promise<void> {
+    const lines: string[] = [];
+    const index = this.createIndex(target.manifest.distance);
+
+    for (const [id, record] of target.records) {
+      lines.push(JSON.stringify({ id, vector: encodeVector(record.vector), payload: record.payload } satisfies StoredRecord));
+      index.insert(id, record.normalized);
+    }
+
+    // スナップショット → マニフェスト → 操作ログの順に置き換える（ログの再適用は冪等）
+    await writeAtomic(join(target.directory, SNAPSHOT_FILE), lines.length > 0 ? `${lines.join('\n')}\n` : '');
+    await writeAtomic(join(target.directory, MANIFEST_FILE), JSON.stringify(target.manifest, null, 2));
+    await writeAtomic(join(target.directory, LOG_FILE), '');
+
+    target.index = index;
+    target.logEntries = 0;
+  }
+
+  private async loadCollection(directory: string): Promise<EmbeddedCollection | null> {
+    let manifest: CollectionManifest;
+    try {
+      manifest = JSON.parse(await readFile(join(directory, MANIFEST_FILE), 'utf-8')) as CollectionManifest;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const collection: EmbeddedCollection = {
+      manifest,
+      directory,
+      records: new Map(),
+      index: this.createIndex(manifest.distance),
+      logEntries: 0
+    };
+
+    for (const record of parseLines<StoredRecord>(await readOptional(join(directory, SNAPSHOT_FILE)), SNAPSHOT_FILE).entries) {
+      this.applyUpsert(collection, record.id, decodeVector(record.vector), record.payload);
+    }
+
+    const log = await readOptional(join(directory, LOG_FILE));
+    const { entries, validLength } = parseLines<LogEntry>(log, LOG_FILE);
+    if (validLength < log.length) {
+      // 中断された末尾行を残すと、次の追記がその行に続けて書かれて1行に混ざるため切り詰める
+      await writeAtomic(join(directory, LOG_FILE), log.slice(0, validLength));
+    }
+
+    for (const entry of entries) {
+      if (entry.op === 'upsert') {
+        entry.records.forEach(record => this.applyUpsert(collection, record.id, decodeVector(record.vector), record.payload));
+      } else {
+        entry.ids.forEach(id => this.applyDelete(collection, id));
+      }
+      collection.logEntries++;
+    }
+
+    return collection;
+  }
+
+  private getCollection(name: string): EmbeddedCollection {
+    const collection = this.collections.get(name);
+    if (!collection) {
+      throw new CQMError(`Collection ${name} not found`, 'VECTOR_STORE_ERROR', { collection: name });
+    }
+    return collection;
+  }
+
+  private createIndex(distance: EmbeddedDistance): HnswIndex {
+    return new HnswIndex({ ...this.options.hnsw, metric: distance === 'euclidean' ? 'euclidean' : 'dot' });
+  }
+
+  // コサイン距離では正規化したベクトルの内積で比較する
+  private prepareVector(vector: Float32Array, distance: EmbeddedDistance): Float32Array {
+    if (distance !== 'cosine') {
+      return vector;
+    }
+
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+      norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm);
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  // 書き込みを直列化する（失敗しても後続の書き込みは継続）
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(operation);
+    this.writeQueue = result.catch(() => {});
+    return result;
+  }
+}
+
+// 内積（コサイン距離では正規化済みのベクトル同士）、ユークリッド距離はスコアに変換する
+function compare(a: Float32Array, b: Float32Array, distance: EmbeddedDistance): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += distance === 'euclidean' ? (a[i] - b[i]) * (a[i] - b[i]) : a[i] * b[i];
+  }
+  return distance === 'euclidean' ? euclideanScore(Math.sqrt(sum)) : sum;
+}
+
+async function writeAtomic(path: string, content: string): Promise<void> {
+  const tempPath = `${path}.${process.pid}.tmp`;
+  const handle = await open(tempPath, 'w');
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await rename(tempPath, path);
+}
+
+async function readOptional(path: string): Promise<string> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return '';
+    }
+    throw error;
+  }
+}
+
+/**
+ * JSON Lines を解析する。書き込み途中で中断された末尾行のみ読み飛ばす
+ * validLength は読み飛ばした行の直前までの文字数（読み飛ばしがなければ全体の長さ）
+ */
+function parseLines<T>(content: string, file: string): { entries: T[]; validLength: number } {
+  const lines = content.split('\n');
+  const entries: T[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < lines.length; offset += lines[i].length + 1, i++) {
+    if (!lines[i].trim()) {
+      continue;
+    }
+
+    try {
+      entries.push(JSON.parse(lines[i]) as T);
+    } catch (error) {
+      if (lines.slice(i + 1).every(line => !line.trim())) {
+        console.warn(`⚠️  Ignoring truncated record at the end of ${file}`);
+        return { entries, validLength: offset };
+      }
+      throw new CQMError(`Corrupted record in ${file} at line ${i + 1}`, 'VECTOR_STORE_ERROR');
+    }
+  }
+
+  return { entries, validLength: content.length };
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const buffer = Buffer.from(encoded, 'base64');
+  // Buffer のオフセットが4バイト境界とは限らないためコピーする
+  return new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+}
+
+// JSON では Date が文字列になるため復元する
+function revivePayload(payload: DocumentPayload): DocumentPayload {
+  return {
+    ...payload,
+    metadata: { ...payload.metadata, lastModified: new Date(payload.metadata.lastModified) }
+  };
+}
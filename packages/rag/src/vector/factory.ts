@@ -0,0 +1,35 @@
+/**
+ * 設定からベクトルストアを生成する（RAGEngine と CLI の保守コマンドで共有）
+ */
+import { CQMError } from '@cqm/shared';
+import { QdrantVectorStore } from './index.js';
+import { InMemoryVectorStore } from './memory.js';
+import { EmbeddedVectorStore } from './embedded.js';
+import type { VectorStore } from './index.js';
+
+export type VectorStoreType = 'qdrant' | 'memory' | 'embedded';
+
+export interface VectorStoreConfig {
+  type?: VectorStoreType; // 既定: qdrant
+  url?: string; // qdrant: 接続先
+  apiKey?: string; // qdrant: API キー
+  persistPath?: string; // memory: JSON スナップショットの保存先（未指定なら永続化しない）
+  directory?: string; // embedded: 保存先（必須）
+}
+
+export function createVectorStore(config: VectorStoreConfig = {}): VectorStore {
+  switch (config.type) {
+    case 'memory':
+      return new InMemoryVectorStore({ persistPath: config.persistPath });
+    case 'embedded':
+      if (!config.directory) {
+        throw new CQMError('Embedded vector store requires a directory', 'CONFIG_ERROR');
+      }
+      return new EmbeddedVectorStore({ directory: config.directory });
+    case 'qdrant':
+    case undefined:
+      return new QdrantVectorStore({ url: config.url, apiKey: config.apiKey });
+    default:
+      throw new CQMError(`Unknown vector store: ${config.type}`, 'CONFIG_ERROR');
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * SearchFilters のインプロセス評価とパス glob の解決
+ *
+ * QdrantVectorStore の buildQdrantFilter と同じ意味論でドキュメントを判定する。
+ * - 各条件は AND。配列条件はいずれかに一致し、先頭に ! を付けた値はどれにも一致しないこと
+ * - 範囲条件は境界を含む
+ * - 真偽値の条件（exported・deprecated）は未設定を false とみなす
+ * - must はすべて、should は少なくとも1つに一致し、mustNot はどれにも一致しないこと（条件のないグループは無視）
+ */
+import type { DocumentPayload, SearchFilters } from './index.js';
+
+const NEGATION_PREFIX = '!';
+
+/**
+ * 配列条件を一致させる値と除外する値（先頭の ! を除いたもの）に分ける
+ */
+export function splitNegated(values?: string[]): { include: string[]; exclude: string[] } {
+  const include: string[] = [];
+  const exclude: string[] = [];
+
+  for (const value of values || []) {
+    if (value.startsWith(NEGATION_PREFIX)) {
+      exclude.push(value.slice(NEGATION_PREFIX.length));
+    } else {
+      include.push(value);
+    }
+  }
+
+  return { include, exclude };
+}
+
+/**
+ * 条件を1つも含まないフィルターか（空の配列・範囲も条件なしとみなす）
+ */
+export function isEmptyFilter(filters: SearchFilters): boolean {
+  const lists = [
+    filters.category, filters.fileType, filters.language, filters.tags, filters.path,
+    filters.source, filters.chunkType, filters.symbols, filters.packageName
+  ];
+  if (lists.some(list => list && list.length > 0)) {
+    return false;
+  }
+  if (filters.exported !== undefined || filters.deprecated !== undefined) {
+    return false;
+  }
+
+  if (filters.dateRange && (filters.dateRange.after || filters.dateRange.before)) {
+    return false;
+  }
+  if (filters.size && (filters.size.min !== undefined || filters.size.max !== undefined)) {
+    return false;
+  }
+
+  const groups = [...(filters.must || []), ...(filters.should || []), ...(filters.mustNot || [])];
+  return groups.every(isEmptyFilter);
+}
+
+export function matchesFilters(payload: DocumentPayload, filters?: SearchFilters): boolean {
+  if (!filters) {
+    return true;
+  }
+
+  const { metadata } = payload;
+  const chunks = payload.chunks || [];
+
+  const listsMatch =
+    matchesList([metadata.category], filters.category) &&
+    matchesList([metadata.type], filters.fileType) &&
+    matchesList([metadata.language], filters.language) &&
+    matchesList(metadata.tags || [], filters.tags) &&
+    matchesList([metadata.source], filters.source) &&
+    matchesList([metadata.packageName], filters.packageName) &&
+    matchesList(chunks.map(chunk => chunk.type), filters.chunkType) &&
+    matchesList(chunks.flatMap(chunk => chunk.symbols || []), filters.symbols) &&
+    matchesPath(metadata.source, filters.path) &&
+    matchesFlag(chunks.some(chunk => chunk.exported === true), filters.exported) &&
+    matchesFlag(chunks.some(chunk => chunk.deprecated === true), filters.deprecated);
+  if (!listsMatch) {
+    return false;
+  }
+
+  if (filters.dateRange) {
+    const modified = new Date(metadata.lastModified).getTime();
+    if (filters.dateRange.after && modified < filters.dateRange.after.getTime()) {
+      return false;
+    }
+    if (filters.dateRange.before && modified > filters.dateRange.before.getTime()) {
+      return false;
+    }
+  }
+
+  if (filters.size) {
+    if (filters.size.min !== undefined && metadata.size < filters.size.min) {
+      return false;
+    }
+    if (filters.size.max !== undefined && metadata.size > filters.size.max) {
+      return false;
+    }
+  }
+
+  if (filters.must && !filters.must.every(group => matchesFilters(payload, group))) {
+    return false;
+  }
+
+  const should = (filters.should || []).filter(group => !isEmptyFilter(group));
+  if (should.length > 0 && !should.some(group => matchesFilters(payload, group))) {
+    return false;
+  }
+
+  const mustNot = (filters.mustNot || []).filter(group => !isEmptyFilter(group));
+  return !mustNot.some(group => matchesFilters(payload, group));
+}
+
+/**
+ * glob を正規表現に変換する
+ *
+ * ** は0個以上のディレクトリ、* と ? は / 以外に一致し、それ以外の文字（. など）は文字どおりに扱う。
+ * anchored（既定）ならパス全体と、そうでなければパスの任意のディレクトリ境界から末尾までと照合する。
+ */
+export function globToRegExp(pattern: string, options: { anchored?: boolean } = {}): RegExp {
+  const body = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\//g, '\u0000')
+    .replace(/\*\*/g, '\u0001')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '(?:.*/)?')
+    .replace(/\u0001/g, '.*');
+
+  return new RegExp(`${options.anchored === false ? '(?:^|/)' : '^'}${body}$`);
+}
+
+/**
+ * パスの glob が一致するか
+ *
+ * / で始まらないパターンはパスの任意のディレクトリ境界から照合する（packages/rag/** や *.test.ts）
+ */
+export function matchesPathGlob(path: string, pattern: string): boolean {
+  return globToRegExp(pattern, { anchored: pattern.startsWith('/') }).test(path);
+}
+
+/**
+ * パスの glob を既知のファイルパスの完全一致（source）に解決する
+ *
+ * Qdrant は glob で絞り込めないため、検索前にインデックス済みのファイル一覧と照合して
+ * match.any で表せる条件に変換する。どのドキュメントにも一致しなくなった場合は null を返す。
+ */
+export function resolvePathFilters(filters: SearchFilters, sources: string[]): SearchFilters | null {
+  const { path, must, should, mustNot, ...conditions } = filters;
+  const resolved: SearchFilters = { ...conditions };
+  const resolvedMust: SearchFilters[] = [];
+
+  if (path && path.length > 0) {
+    const { include, exclude } = splitNegated(path);
+    const candidates = include.length > 0
+      ? sources.filter(source => include.some(pattern => matchesPathGlob(source, pattern)))
+      : sources;
+    if (include.length > 0 && candidates.length === 0) {
+      return null;
+    }
+
+    const excluded = candidates.filter(source => exclude.some(pattern => matchesPathGlob(source, pattern)));
+    const source = [
+      ...(include.length > 0 ? candidates : []),
+      ...excluded.map(source => `${NEGATION_PREFIX}${source}`)
+    ];
+    if (source.length > 0) {
+      // source の指定が既にある場合は AND になるよう must に入れる
+      if (resolved.source && resolved.source.length > 0) {
+        resolvedMust.push({ source });
+      } else {
+        resolved.source = source;
+      }
+    }
+  }
+
+  for (const group of must || []) {
+    const resolvedGroup = resolvePathFilters(group, sources);
+    if (!resolvedGroup) {
+      return null;
+    }
+    resolvedMust.push(resolvedGroup);
+  }
+  if (resolvedMust.length > 0) {
+    resolved.must = resolvedMust;
+  }
+
+  if (should) {
+    const groups = should.filter(group => !isEmptyFilter(group));
+    const resolvedShould = groups
+      .map(group => resolvePathFilters(group, sources))
+      .filter((group): group is SearchFilters => group !== null);
+    if (groups.length > 0 && resolvedShould.length === 0) {
+      return null;
+    }
+    if (resolvedShould.length > 0) {
+      resolved.should = resolvedShould;
+    }
+  }
+
+  if (mustNot) {
+    // どのドキュメントにも一致しないグループは除外条件として意味を持たない
+    const resolvedMustNot = mustNot
+      .map(group => resolvePathFilters(group, sources))
+      .filter((group): group is SearchFilters => group !== null);
+    if (resolvedMustNot.length > 0) {
+      resolved.mustNot = resolvedMustNot;
+    }
+  }
+
+  return resolved;
+}
+
+// 値が未設定のドキュメントは一致させる条件に一致せず、除外条件には掛からない（Qdrant の match.any と同じ）
+function matchesList(values: Array<string | undefined>, candidates?: string[]): boolean {
+  const { include, exclude } = splitNegated(candidates);
+  const present = values.filter((value): value is string => value !== undefined);
+
+  if (include.length > 0 && !present.some(value => include.includes(value))) {
+    return false;
+  }
+  return !present.some(value => exclude.includes(value));
+}
+
+// 未設定は false とみなす（Qdrant では false の条件を「true でない」として評価する）
+function matchesFlag(value: boolean, expected?: boolean): boolean {
+  return expected === undefined || value === expected;
+}
+
+function matchesPath(source: string, patterns?: string[]): boolean {
+  const { include, exclude } = splitNegated(patterns);
+
+  if (include.length > 0 && !include.some(pattern => matchesPathGlob(source, pattern))) {
+    return false;
+  }
+  return !exclude.some(pattern => matchesPathGlob(source, pattern));
+}
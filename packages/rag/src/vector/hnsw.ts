@@ -0,0 +1,259 @@
+/**
+ * HNSW（Hierarchical Navigable Small World）近似最近傍インデックス
+ *
+ * 類似度は内積（コサイン距離では正規化済みベクトルを渡す）か、ユークリッド距離を変換したスコア。
+ * 削除はトゥームストーンで扱い、グラフの探索経路としては残したまま結果から除外する。
+ */
+import { euclideanScore } from './distance.js';
+
+export interface HnswOptions {
+  m?: number; // 上位レイヤーのノードあたり最大接続数（レイヤー0は2倍）
+  efConstruction?: number; // 挿入時の探索幅
+  efSearch?: number; // 検索時の探索幅（k より小さい場合は k を使用）
+  seed?: number; // レベル抽選の乱数シード（同じ入力から同じグラフを構築する）
+  metric?: 'dot' | 'euclidean'; // 既定: dot
+}
+
+export interface HnswMatch {
+  key: string;
+  score: number;
+}
+
+interface HnswNode {
+  key: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][];
+}
+
+interface Candidate {
+  node: number;
+  score: number;
+}
+
+export class HnswIndex {
+  private readonly nodes: HnswNode[] = [];
+  private readonly keyToNode = new Map<string, number>();
+  private readonly deleted = new Set<number>();
+  private readonly options: Required<HnswOptions>;
+  private readonly levelMultiplier: number;
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private random: () => number;
+
+  constructor(options: HnswOptions = {}) {
+    this.options = {
+      m: options.m || 16,
+      efConstruction: options.efConstruction || 100,
+      efSearch: options.efSearch || 64,
+      seed: options.seed ?? 42,
+      metric: options.metric || 'dot'
+    };
+    this.levelMultiplier = 1 / Math.log(this.options.m);
+    this.random = mulberry32(this.options.seed);
+  }
+
+  get size(): number {
+    return this.keyToNode.size;
+  }
+
+  /**
+   * 削除済みノードの割合（グラフ再構築の判断に使う）
+   */
+  get tombstoneRatio(): number {
+    return this.nodes.length === 0 ? 0 : this.deleted.size / this.nodes.length;
+  }
+
+  has(key: string): boolean {
+    return this.keyToNode.has(key);
+  }
+
+  /**
+   * ベクトルを追加する。既存キーは古いノードを削除扱いにして置き換える
+   */
+  insert(key: string, vector: Float32Array): void {
+    this.remove(key);
+
+    const node = this.nodes.length;
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    this.nodes.push({ key, vector, level, neighbors: Array.from({ length: level + 1 }, () => []) });
+    this.keyToNode.set(key, node);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    // 上位レイヤーは貪欲探索で入口を絞り込む
+    let entry: Candidate = { node: this.entryPoint, score: this.similarity(vector, this.entryPoint) };
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.greedySearch(vector, entry, layer);
+    }
+
+    let entryPoints = [entry];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(vector, entryPoints, this.options.efConstruction, layer);
+      const maxConnections = this.maxConnections(layer);
+      const selected = candidates.slice(0, maxConnections);
+
+      this.nodes[node].neighbors[layer] = selected.map(candidate => candidate.node);
+      for (const candidate of selected) {
+        this.connect(candidate.node, node, layer, maxConnections);
+      }
+      entryPoints = candidates;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+    }
+  }
+
+  remove(key: string): boolean {
+    const node = this.keyToNode.get(key);
+    if (node === undefined) {
+      return false;
+    }
+
+    this.keyToNode.delete(key);
+    this.deleted.add(node);
+    return true;
+  }
+
+  search(query: Float32Array, k: number, ef = this.options.efSearch): HnswMatch[] {
+    if (this.entryPoint === -1 || this.keyToNode.size === 0 || k <= 0) {
+      return [];
+    }
+
+    let entry: Candidate = { node: this.entryPoint, score: this.similarity(query, this.entryPoint) };
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.greedySearch(query, entry, layer);
+    }
+
+    // 削除済みノードの分だけ探索幅を広げる
+    const width = Math.max(ef, k) + Math.ceil(Math.max(ef, k) * this.tombstoneRatio);
+    return this.searchLayer(query, [entry], width, 0)
+      .filter(candidate => !this.deleted.has(candidate.node))
+      .slice(0, k)
+      .map(candidate => ({ key: this.nodes[candidate.node].key, score: candidate.score }));
+  }
+
+  private greedySearch(query: Float32Array, entry: Candidate, layer: number): Candidate {
+    let current = entry;
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.nodes[current.node].neighbors[layer] || []) {
+        const score = this.similarity(query, neighbor);
+        if (score > current.score) {
+          current = { node: neighbor, score };
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * レイヤー内のビームサーチ。類似度の降順で最大 ef 件を返す
+   */
+  private searchLayer(query: Float32Array, entryPoints: Candidate[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<number>(entryPoints.map(entry => entry.node));
+    const candidates = [...entryPoints].sort(byScore);
+    const results = [...entryPoints].sort(byScore).slice(0, ef);
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.score < results[results.length - 1].score) {
+        break;
+      }
+
+      for (const neighbor of this.nodes[current.node].neighbors[layer] || []) {
+        if (visited.has(neighbor)) {
+          continue;
+        }
+        visited.add(neighbor);
+
+        const score = this.similarity(query, neighbor);
+        if (results.length < ef || score > results[results.length - 1].score) {
+          insertSorted(candidates, { node: neighbor, score });
+          insertSorted(results, { node: neighbor, score });
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private connect(from: number, to: number, layer: number, maxConnections: number): void {
+    const neighbors = this.nodes[from].neighbors[layer];
+    neighbors.push(to);
+
+    if (neighbors.length > maxConnections) {
+      // 接続数の上限を超えたら類似度の高い近傍だけを残す
+      const vector = this.nodes[from].vector;
+      this.nodes[from].neighbors[layer] = neighbors
+        .map(node => ({ node, score: this.similarity(vector, node) }))
+        .sort(byScore)
+        .slice(0, maxConnections)
+        .map(candidate => candidate.node);
+    }
+  }
+
+  private maxConnections(layer: number): number {
+    return layer === 0 ? this.options.m * 2 : this.options.m;
+  }
+
+  private similarity(query: Float32Array, node: number): number {
+    const vector = this.nodes[node].vector;
+    if (this.options.metric === 'euclidean') {
+      let squared = 0;
+      for (let i = 0; i < vector.length; i++) {
+        squared += (query[i] - vector[i]) * (query[i] - vector[i]);
+      }
+      return euclideanScore(Math.sqrt(squared));
+    }
+
+    let dot = 0;
+    for (let i = 0; i < vector.length; i++) {
+      dot += query[i] * vector[i];
+    }
+    return dot;
+  }
+}
+
+function byScore(a: Candidate, b: Candidate): number {
+  return b.score - a.score;
+}
+
+// 降順を保ったまま二分探索で挿入する
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid].score >= candidate.score) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  list.splice(low, 0, candidate);
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
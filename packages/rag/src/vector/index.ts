@@ -2,7 +2,11 @@
  * ベクトル検索エンジン - CQM-TEC-002設計に基づくQdrant統合実装
  */
 import { QdrantClient } from '@qdrant/js-client-rest';
-import { CQMError } from '@cqm/shared';
+import { CQMError, DistanceMetric } from '@cqm/shared';
+import { toPointId } from './point-id.js';
+import { euclideanDistanceLimit, euclideanScore } from './distance.js';
+import { splitNegated } from './filters.js';
+import type { DocComment, CodeSignature } from '../chunking/index.js';
 
 export interface VectorDocument {
   id: string;
@@ -24,24 +28,42 @@ export interface DocumentMetadata {
   lastModified: Date;
   size: number;
   tags?: string[];
+  packageName?: string; // ファイルを含む最も近い package.json の name
 }
 
 export interface ChunkMetadata {
   index: number;
-  type: 'function' | 'class' | 'interface' | 'section' | 'paragraph';
+  type:
+    | 'function' | 'class' | 'interface' | 'variable' | 'enum' | 'namespace' | 'module'
+    | 'section' | 'paragraph' | 'issue' | 'comment';
   title?: string;
   startLine?: number;
   endLine?: number;
+  lineMap?: number[]; // 本文の各行が始まるファイルの行番号（本体を省略したアウトラインのみ）
   symbols?: string[];
+  parentId?: string; // 親チャンク（クラスのアウトラインなど）のID。ドキュメントIDは `${source}-${parentId}`
+  doc?: DocComment;
+  signature?: CodeSignature;
+  exported?: boolean; // signature.exported（フィルター用。未設定は false とみなす）
+  deprecated?: boolean; // JSDoc に @deprecated があるか（フィルター用。未設定は false とみなす）
 }
 
 export interface SearchQuery {
   vector: number[];
   limit?: number;
+  offset?: number; // 先頭から読み飛ばす件数（ページング用）
   threshold?: number;
   filters?: SearchFilters;
+  withVectors?: boolean; // 結果にベクトルを含める（多様化などの後段で類似度を測る場合）
 }
 
+/**
+ * 検索フィルター
+ *
+ * 各条件は AND で、配列条件はいずれかの値に一致すれば満たす。先頭に ! を付けた値
+ * （'!markdown'、'!*.test.ts'）はどれにも一致しないことを表す。
+ * must・should・mustNot でフィルターを入れ子にして OR や否定を組み立てられる。
+ */
 export interface SearchFilters {
   category?: string[];
   fileType?: string[];
@@ -55,19 +77,29 @@ export interface SearchFilters {
     min?: number;
     max?: number;
   };
+  path?: string[]; // ファイルパスの glob（Qdrant では resolvePathFilters で source に解決してから検索する）
+  source?: string[]; // ファイルパスの完全一致
+  chunkType?: string[]; // ChunkMetadata の type（function、class、interface、section 等）
+  symbols?: string[]; // チャンクが定義・参照するシンボル名
+  packageName?: string[];
+  exported?: boolean; // チャンクの宣言がモジュールの外から参照できるか
+  deprecated?: boolean; // チャンクの宣言が @deprecated か
+  must?: SearchFilters[]; // すべてに一致
+  should?: SearchFilters[]; // 少なくとも1つに一致
+  mustNot?: SearchFilters[]; // どれにも一致しない
 }
 
 export interface SearchResult {
   id: string;
   score: number;
   document: VectorDocument;
-  highlights?: string[];
 }
 
 export interface CollectionInfo {
   name: string;
   vectorCount: number;
   dimensions: number;
+  distance?: DistanceMetric;
   indexedAt: Date;
   status: 'ready' | 'indexing' | 'error';
 }
@@ -80,21 +112,41 @@ export interface VectorStoreOptions {
   batchSize?: number;
 }
 
+export interface ScrollOptions {
+  limit?: number; // 1ページの件数（既定: 256）
+  offset?: string; // 前ページの nextOffset
+}
+
+export interface ScrollPage {
+  documents: VectorDocument[]; // ベクトルを含む
+  nextOffset?: string; // 続きがある場合のみ
+}
+
 export interface VectorStore {
   initialize(): Promise<void>;
-  createCollection(name: string, dimensions: number): Promise<void>;
+  createCollection(name: string, dimensions: number, distance?: DistanceMetric): Promise<void>; // 既定: cosine
   deleteCollection(name: string): Promise<void>;
   upsertVectors(collection: string, vectors: VectorDocument[]): Promise<void>;
   search(collection: string, query: SearchQuery): Promise<SearchResult[]>;
+  scroll(collection: string, options?: ScrollOptions): Promise<ScrollPage>; // 全ドキュメントを順に読み出す（エクスポート用）
   deleteVectors(collection: string, ids: string[]): Promise<void>;
   getCollectionInfo(collection: string): Promise<CollectionInfo>;
   listCollections(): Promise<CollectionInfo[]>;
+  flush?(): Promise<void>; // 書き込みをまとめるストアで、保留中の変更を永続化する
 }
 
+// Qdrant の距離関数名
+const QDRANT_DISTANCES: Record<DistanceMetric, 'Cosine' | 'Dot' | 'Euclid'> = {
+  cosine: 'Cosine',
+  dot: 'Dot',
+  euclidean: 'Euclid'
+};
+
 export class QdrantVectorStore implements VectorStore {
   private client: QdrantClient;
   private readonly options: Required<VectorStoreOptions>;
   private isInitialized = false;
+  private readonly distances = new Map<string, DistanceMetric>(); // コレクションごとの距離関数
 
   constructor(options: VectorStoreOptions = {}) {
     this.options = {
@@ -131,13 +183,13 @@ export class QdrantVectorStore implements VectorStore {
     }
   }
 
-  async createCollection(name: string, dimensions: number): Promise<void> {
+  async createCollection(name: string, dimensions: number, distance: DistanceMetric = 'cosine'): Promise<void> {
     try {
       await this.retryOperation(async () => {
         await this.client.createCollection(name, {
           vectors: {
             size: dimensions,
-            distance: 'Cosine' // コサイン類似度を使用
+            distance: QDRANT_DISTANCES[distance]
           },
           optimizers_config: {
             default_segment_number: 2,
@@ -150,6 +202,7 @@ export class QdrantVectorStore implements VectorStore {
         });
       });
 
+      this.distances.set(name, distance);
       console.log(`✅ Created collection: ${name} (${dimensions}d)`);
     } catch (error) {
       if (error instanceof Error && error.message?.includes('already exists')) {
@@ -170,6 +223,7 @@ export class QdrantVectorStore implements VectorStore {
       await this.retryOperation(async () => {
         await this.client.deleteCollection(name);
       });
+      this.distances.delete(name);
       
       console.log(`🗑️  Deleted collection: ${name}`);
     } catch (error) {
@@ -193,9 +247,10 @@ export class QdrantVectorStore implements VectorStore {
         
         await this.retryOperation(async () => {
           const points = batch.map(doc => ({
-            id: doc.id,
+            id: toPointId(collection, doc.id),
             vector: doc.vector,
             payload: {
+              documentId: doc.id, // 可読な元のID（検索結果で復元する）
               content: doc.payload.content,
               source: doc.payload.metadata.source,
               type: doc.payload.metadata.type,
@@ -204,6 +259,7 @@ export class QdrantVectorStore implements VectorStore {
               lastModified: doc.payload.metadata.lastModified.toISOString(),
               size: doc.payload.metadata.size,
               tags: doc.payload.metadata.tags || [],
+              packageName: doc.payload.metadata.packageName,
               chunks: doc.payload.chunks || []
             }
           }));
@@ -227,14 +283,21 @@ export class QdrantVectorStore implements VectorStore {
 
   async search(collection: string, query: SearchQuery): Promise<SearchResult[]> {
     try {
+      // ユークリッド距離は小さいほど類似するため、他の距離関数と同じくスコアの下限として扱えるよう変換する
+      const euclidean = await this.getDistance(collection) === 'euclidean';
+      const threshold = query.threshold || 0.7;
       const searchParams: any = {
         vector: query.vector,
         limit: query.limit || 20,
-        score_threshold: query.threshold || 0.7,
+        score_threshold: euclidean ? euclideanDistanceLimit(threshold) : threshold,
         with_payload: true,
-        with_vector: false
+        with_vector: query.withVectors === true
       };
 
+      if (query.offset) {
+        searchParams.offset = query.offset;
+      }
+
       // フィルターの構築
       if (query.filters) {
         searchParams.filter = this.buildQdrantFilter(query.filters);
@@ -244,28 +307,11 @@ export class QdrantVectorStore implements VectorStore {
         return await this.client.search(collection, searchParams);
       });
 
-      return response.map(result => ({
-        id: String(result.id),
-        score: result.score || 0,
-        document: {
-          id: String(result.id),
-          vector: [],
-          payload: {
-            content: String(result.payload?.content || ''),
-            metadata: {
-              source: String(result.payload?.source || ''),
-              type: String(result.payload?.type || ''),
-              category: String(result.payload?.category || ''),
-              language: String(result.payload?.language || ''),
-              lastModified: new Date(String(result.payload?.lastModified || Date.now())),
-              size: Number(result.payload?.size || 0),
-              tags: Array.isArray(result.payload?.tags) ? result.payload.tags : []
-            },
-            chunks: Array.isArray(result.payload?.chunks) ? result.payload.chunks : []
-          }
-        },
-        highlights: this.generateHighlights(String(result.payload?.content || ''), query.vector)
-      }));
+      return response.map(result => {
+        const document = this.toDocument(result);
+        const score = result.score || 0;
+        return { id: document.id, score: euclidean ? euclideanScore(score) : score, document };
+      });
     } catch (error) {
       throw new CQMError(
         `Failed to search in collection ${collection}: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -275,6 +321,31 @@ export class QdrantVectorStore implements VectorStore {
     }
   }
 
+  async scroll(collection: string, options: ScrollOptions = {}): Promise<ScrollPage> {
+    try {
+      const response = await this.retryOperation(async () => {
+        return await this.client.scroll(collection, {
+          limit: options.limit || 256,
+          offset: options.offset,
+          with_payload: true,
+          with_vector: true
+        });
+      });
+
+      const nextOffset = response.next_page_offset;
+      return {
+        documents: response.points.map(point => this.toDocument(point)),
+        nextOffset: nextOffset !== undefined && nextOffset !== null ? String(nextOffset) : undefined
+      };
+    } catch (error) {
+      throw new CQMError(
+        `Failed to scroll collection ${collection}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VECTOR_STORE_ERROR',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
   async deleteVectors(collection: string, ids: string[]): Promise<void> {
     if (ids.length === 0) {
       return;
@@ -284,7 +355,7 @@ export class QdrantVectorStore implements VectorStore {
       await this.retryOperation(async () => {
         await this.client.delete(collection, {
           wait: true,
-          points: ids
+          points: ids.map(id => toPointId(collection, id))
         });
       });
 
@@ -304,12 +375,20 @@ export class QdrantVectorStore implements VectorStore {
         return await this.client.getCollection(collection);
       });
 
+      const vectors = typeof info.config?.params?.vectors === 'object' && 'size' in info.config.params.vectors
+        ? info.config.params.vectors as any
+        : undefined;
+      const distance = (Object.keys(QDRANT_DISTANCES) as DistanceMetric[])
+        .find(metric => QDRANT_DISTANCES[metric] === vectors?.distance);
+      if (distance) {
+        this.distances.set(collection, distance);
+      }
+
       return {
         name: collection,
         vectorCount: info.points_count || 0,
-        dimensions: typeof info.config?.params?.vectors === 'object' && 'size' in info.config.params.vectors 
-          ? (info.config.params.vectors as any).size || 0 
-          : 0,
+        dimensions: vectors?.size || 0,
+        distance,
         indexedAt: new Date(), // Qdrantは作成日時を直接提供しないため現在時刻を使用
         status: info.status === 'green' ? 'ready' : 'error'
       };
@@ -348,36 +427,70 @@ export class QdrantVectorStore implements VectorStore {
     }
   }
 
+  // Qdrant のポイントを VectorDocument に戻す（ベクトルは含めない）
+  private toDocument(point: { id: string | number; vector?: unknown; payload?: Record<string, any> | null }): VectorDocument {
+    const payload = point.payload || {};
+    const id = String(payload.documentId ?? point.id);
+    return {
+      id,
+      vector: Array.isArray(point.vector) ? point.vector as number[] : [],
+      payload: {
+        content: String(payload.content || ''),
+        metadata: {
+          source: String(payload.source || ''),
+          type: String(payload.type || ''),
+          category: String(payload.category || ''),
+          language: String(payload.language || ''),
+          lastModified: new Date(String(payload.lastModified || Date.now())),
+          size: Number(payload.size || 0),
+          tags: Array.isArray(payload.tags) ? payload.tags : [],
+          packageName: payload.packageName ? String(payload.packageName) : undefined
+        },
+        chunks: Array.isArray(payload.chunks) ? payload.chunks : []
+      }
+    };
+  }
+
   private buildQdrantFilter(filters: SearchFilters): any {
     const must: any[] = [];
+    const mustNot: any[] = [];
 
-    if (filters.category && filters.category.length > 0) {
-      must.push({
-        key: 'category',
-        match: { any: filters.category }
-      });
-    }
-
-    if (filters.fileType && filters.fileType.length > 0) {
-      must.push({
-        key: 'type',
-        match: { any: filters.fileType }
-      });
+    if (filters.path && filters.path.length > 0) {
+      throw new CQMError(
+        'Path globs cannot be evaluated by Qdrant; resolve them with resolvePathFilters before searching',
+        'VECTOR_STORE_ERROR',
+        { path: filters.path }
+      );
     }
 
-    if (filters.language && filters.language.length > 0) {
-      must.push({
-        key: 'language',
-        match: { any: filters.language }
-      });
-    }
+    // 配列条件は一致させる値を must、! 付きの値を must_not に振り分ける
+    const addMatch = (key: string, values?: string[]) => {
+      const { include, exclude } = splitNegated(values);
+      if (include.length > 0) {
+        must.push({ key, match: { any: include } });
+      }
+      if (exclude.length > 0) {
+        mustNot.push({ key, match: { any: exclude } });
+      }
+    };
 
-    if (filters.tags && filters.tags.length > 0) {
-      must.push({
-        key: 'tags',
-        match: { any: filters.tags }
-      });
-    }
+    addMatch('category', filters.category);
+    addMatch('type', filters.fileType);
+    addMatch('language', filters.language);
+    addMatch('tags', filters.tags);
+    addMatch('source', filters.source);
+    addMatch('packageName', filters.packageName);
+    addMatch('chunks[].type', filters.chunkType);
+    addMatch('chunks[].symbols', filters.symbols);
+
+    // 真偽値の条件は未設定のチャンクを false とみなすため、false は「true でない」として除外側に入れる
+    const addFlag = (key: string, value?: boolean) => {
+      if (value !== undefined) {
+        (value ? must : mustNot).push({ key, match: { value: true } });
+      }
+    };
+    addFlag('chunks[].exported', filters.exported);
+    addFlag('chunks[].deprecated', filters.deprecated);
 
     if (filters.dateRange) {
       const range: any = {};
@@ -417,13 +530,35 @@ export class QdrantVectorStore implements VectorStore {
       }
     }
 
-    return must.length > 0 ? { must } : undefined;
+    // 入れ子のフィルターは Qdrant の条件としてそのまま入れられる（条件のないグループは無視）
+    const nested = (groups?: SearchFilters[]) => (groups || [])
+      .map(group => this.buildQdrantFilter(group))
+      .filter(group => group !== undefined);
+
+    must.push(...nested(filters.must));
+    mustNot.push(...nested(filters.mustNot));
+    const should = nested(filters.should);
+
+    const filter: any = {};
+    if (must.length > 0) {
+      filter.must = must;
+    }
+    if (should.length > 0) {
+      filter.should = should;
+    }
+    if (mustNot.length > 0) {
+      filter.must_not = mustNot;
+    }
+
+    return Object.keys(filter).length > 0 ? filter : undefined;
   }
 
-  private generateHighlights(content: string, queryVector: number[]): string[] {
-    // 簡単なハイライト生成（実際の実装では埋め込みベースの類似性を使用）
-    const words = content.split(/\s+/).filter(word => word.length > 3);
-    return words.slice(0, 3); // 最初の3つの単語をハイライトとして返す
+  private async getDistance(collection: string): Promise<DistanceMetric | undefined> {
+    if (!this.distances.has(collection)) {
+      // 取得できない場合は既定の cosine とみなし、検索自体のエラーに任せる
+      await this.getCollectionInfo(collection).catch(() => undefined);
+    }
+    return this.distances.get(collection);
   }
 
   private async retryOperation<T>(operation: () => Promise<T>): Promise<T> {
@@ -451,14 +586,38 @@ export class QdrantVectorStore implements VectorStore {
   }
 }
 
+/**
+ * 検索対象コレクションの共有参照。IndexManager が書き込み・移行に合わせて更新し、
+ * VectorSearchEngine は常に最新の名前を読む
+ */
+export class CollectionReference {
+  private current: string;
+
+  constructor(name: string) {
+    this.current = name;
+  }
+
+  get name(): string {
+    return this.current;
+  }
+
+  set(name: string): void {
+    this.current = name;
+  }
+}
+
 // 検索エンジンファサード
 export class VectorSearchEngine {
   private store: VectorStore;
-  private defaultCollection: string;
+  private collection: CollectionReference;
 
-  constructor(store: VectorStore, defaultCollection = 'cqm-default') {
+  constructor(store: VectorStore, collection: string | CollectionReference = 'cqm-default') {
     this.store = store;
-    this.defaultCollection = defaultCollection;
+    this.collection = typeof collection === 'string' ? new CollectionReference(collection) : collection;
+  }
+
+  private get defaultCollection(): string {
+    return this.collection.name;
   }
 
   async initialize(dimensions: number): Promise<void> {
@@ -474,16 +633,20 @@ export class VectorSearchEngine {
     queryVector: number[], 
     options: {
       limit?: number;
+      offset?: number;
       threshold?: number;
       filters?: SearchFilters;
+      withVectors?: boolean;
       collection?: string;
     } = {}
   ): Promise<SearchResult[]> {
     const query: SearchQuery = {
       vector: queryVector,
       limit: options.limit || 20,
+      offset: options.offset,
       threshold: options.threshold || 0.7,
-      filters: options.filters
+      filters: options.filters,
+      withVectors: options.withVectors
     };
 
     return await this.store.search(options.collection || this.defaultCollection, query);
@@ -565,4 +728,21 @@ export class QdrantVectorDatabase implements VectorDatabase {
       return { count: 0, size: 0 };
     }
   }
-}
\ No newline at end of file
+}
+// インメモリストア
+export { InMemoryVectorStore } from './memory.js';
+export type { InMemoryVectorStoreOptions, InMemoryDistance } from './memory.js';
+export { matchesFilters, matchesPathGlob, globToRegExp, resolvePathFilters, isEmptyFilter, splitNegated } from './filters.js';
+
+// 組み込み（ディスク永続化）ストア
+export { EmbeddedVectorStore } from './embedded.js';
+export type { EmbeddedVectorStoreOptions, EmbeddedDistance } from './embedded.js';
+export { HnswIndex } from './hnsw.js';
+export type { HnswOptions, HnswMatch } from './hnsw.js';
+
+// 設定からのストア生成
+export { createVectorStore } from './factory.js';
+export type { VectorStoreType, VectorStoreConfig } from './factory.js';
+
+// Qdrant ポイントID変換
+export { uuidv5, toPointId, POINT_ID_NAMESPACE } from './point-id.js';
@@ -0,0 +1,303 @@
+/**
+ * インメモリベクトルストア - Qdrant 不要の全件走査による厳密検索
+ *
+ * テスト・オフライン環境・小規模リポジトリ向け。persistPath を指定すると
+ * 変更を persistDelay ごとにまとめて JSON スナップショットへ書き出し、初期化時に復元する。
+ */
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { CQMError, DistanceMetric } from '@cqm/shared';
+import { matchesFilters } from './filters.js';
+import { similarityScore } from './distance.js';
+import type {
+  VectorStore,
+  VectorDocument,
+  SearchQuery,
+  SearchResult,
+  ScrollOptions,
+  ScrollPage,
+  CollectionInfo
+} from './index.js';
+
+export type InMemoryDistance = DistanceMetric;
+
+export interface InMemoryVectorStoreOptions {
+  distance?: InMemoryDistance; // createCollection で距離関数を指定しない場合の既定（既定: cosine）
+  persistPath?: string; // JSON スナップショットの保存先（未指定なら永続化しない）
+  persistDelay?: number; // 変更から書き出しまでの待ち時間（ms、既定: 1000）。この間の変更は1回の書き込みにまとめる
+}
+
+interface MemoryCollection {
+  dimensions: number;
+  distance: InMemoryDistance;
+  indexedAt: Date;
+  vectors: Map<string, VectorDocument>;
+}
+
+interface MemorySnapshot {
+  version: 1;
+  distance: InMemoryDistance; // distance のないコレクション（以前のスナップショット）の距離関数
+  collections: Array<{
+    name: string;
+    dimensions: number;
+    distance?: InMemoryDistance;
+    indexedAt: string;
+    vectors: VectorDocument[];
+  }>;
+}
+
+export class InMemoryVectorStore implements VectorStore {
+  private readonly collections = new Map<string, MemoryCollection>();
+  private readonly options: InMemoryVectorStoreOptions & { distance: InMemoryDistance; persistDelay: number };
+  private isInitialized = false;
+  private pendingSave: Promise<void> = Promise.resolve();
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: InMemoryVectorStoreOptions = {}) {
+    this.options = {
+      distance: options.distance || 'cosine',
+      persistPath: options.persistPath,
+      persistDelay: options.persistDelay ?? 1000
+    };
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    if (this.options.persistPath) {
+      await this.loadSnapshot(this.options.persistPath);
+    }
+
+    this.isInitialized = true;
+  }
+
+  async createCollection(name: string, dimensions: number, distance?: DistanceMetric): Promise<void> {
+    if (this.collections.has(name)) {
+      console.log(`📋 Collection ${name} already exists`);
+      return;
+    }
+
+    this.collections.set(name, { dimensions, distance: distance || this.options.distance, indexedAt: new Date(), vectors: new Map() });
+    console.log(`✅ Created collection: ${name} (${dimensions}d)`);
+    this.schedulePersist();
+  }
+
+  async deleteCollection(name: string): Promise<void> {
+    if (this.collections.delete(name)) {
+      console.log(`🗑️  Deleted collection: ${name}`);
+      this.schedulePersist();
+    }
+  }
+
+  async upsertVectors(collection: string, vectors: VectorDocument[]): Promise<void> {
+    if (vectors.length === 0) {
+      return;
+    }
+
+    const target = this.getCollection(collection);
+    for (const doc of vectors) {
+      if (doc.vector.length !== target.dimensions) {
+        throw new CQMError(
+          `Failed to upsert vectors to collection ${collection}: expected ${target.dimensions}d vector, got ${doc.vector.length}d`,
+          'VECTOR_STORE_ERROR'
+        );
+      }
+    }
+
+    for (const doc of vectors) {
+      target.vectors.set(doc.id, cloneDocument(doc));
+    }
+    target.indexedAt = new Date();
+    this.schedulePersist();
+  }
+
+  async search(collection: string, query: SearchQuery): Promise<SearchResult[]> {
+    const target = this.getCollection(collection);
+    const limit = query.limit || 20;
+    const offset = query.offset || 0;
+    const threshold = query.threshold || 0.7;
+    const results: SearchResult[] = [];
+
+    for (const doc of target.vectors.values()) {
+      if (!matchesFilters(doc.payload, query.filters)) {
+        continue;
+      }
+
+      const score = this.score(query.vector, doc.vector, target.distance);
+      if (score >= threshold) {
+        results.push({
+          id: doc.id,
+          score,
+          // Qdrant 実装と同様に、要求された場合だけベクトルを返す
+          document: query.withVectors ? cloneDocument(doc) : { ...cloneDocument(doc), vector: [] }
+        });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(offset, offset + limit);
+  }
+
+  async deleteVectors(collection: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const target = this.getCollection(collection);
+    ids.forEach(id => target.vectors.delete(id));
+    this.schedulePersist();
+  }
+
+  async scroll(collection: string, options: ScrollOptions = {}): Promise<ScrollPage> {
+    const target = this.getCollection(collection);
+    const start = Number(options.offset || 0);
+    const end = start + (options.limit || 256);
+    const documents = Array.from(target.vectors.values()).slice(start, end).map(cloneDocument);
+
+    return { documents, nextOffset: end < target.vectors.size ? String(end) : undefined };
+  }
+
+  async getCollectionInfo(collection: string): Promise<CollectionInfo> {
+    const target = this.getCollection(collection);
+    return {
+      name: collection,
+      vectorCount: target.vectors.size,
+      dimensions: target.dimensions,
+      distance: target.distance,
+      indexedAt: target.indexedAt,
+      status: 'ready'
+    };
+  }
+
+  async listCollections(): Promise<CollectionInfo[]> {
+    return Promise.all(Array.from(this.collections.keys()).map(name => this.getCollectionInfo(name)));
+  }
+
+  /**
+   * 書き出し待ちの変更をすぐにスナップショットへ書き出し、完了を待つ
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      await this.writeSnapshot();
+    }
+    await this.pendingSave;
+  }
+
+  private getCollection(name: string): MemoryCollection {
+    const collection = this.collections.get(name);
+    if (!collection) {
+      throw new CQMError(`Collection ${name} not found`, 'VECTOR_STORE_ERROR', { collection: name });
+    }
+    return collection;
+  }
+
+  private score(a: number[], b: number[], distance: InMemoryDistance): number {
+    if (a.length !== b.length) {
+      throw new CQMError(
+        `Query vector dimensions mismatch: got ${a.length}, expected ${b.length}`,
+        'VECTOR_STORE_ERROR'
+      );
+    }
+
+    return similarityScore(a, b, distance);
+  }
+
+  private async loadSnapshot(path: string): Promise<void> {
+    let snapshot: MemorySnapshot;
+    try {
+      snapshot = JSON.parse(await readFile(path, 'utf-8')) as MemorySnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw new CQMError(
+        `Failed to load vector snapshot ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VECTOR_STORE_ERROR',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+
+    for (const collection of snapshot.collections) {
+      this.collections.set(collection.name, {
+        dimensions: collection.dimensions,
+        distance: collection.distance || snapshot.distance,
+        indexedAt: new Date(collection.indexedAt),
+        vectors: new Map(collection.vectors.map(doc => [doc.id, reviveDocument(doc)]))
+      });
+    }
+
+    console.log(`📂 Loaded ${snapshot.collections.length} collections from ${path}`);
+  }
+
+  /**
+   * 変更のたびに全件を書き出すと件数の2乗に比例するため、待ち時間内の変更を1回の書き込みにまとめる
+   */
+  private schedulePersist(): void {
+    const path = this.options.persistPath;
+    if (!path || this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.writeSnapshot().catch(error => console.warn(`⚠️  Failed to write vector snapshot ${path}:`, error));
+    }, this.options.persistDelay);
+  }
+
+  private writeSnapshot(): Promise<void> {
+    const path = this.options.persistPath!;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    // 書き込みを直列化し、一時ファイル経由のリネームで原子的に置き換える
+    this.pendingSave = this.pendingSave
+      .catch(() => {})
+      .then(async () => {
+        const snapshot: MemorySnapshot = {
+          version: 1,
+          distance: this.options.distance,
+          collections: Array.from(this.collections.entries()).map(([name, collection]) => ({
+            name,
+            dimensions: collection.dimensions,
+            distance: collection.distance,
+            indexedAt: collection.indexedAt.toISOString(),
+            vectors: Array.from(collection.vectors.values())
+          }))
+        };
+
+        const tempPath = `${path}.${process.pid}.tmp`;
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(tempPath, JSON.stringify(snapshot), 'utf-8');
+        await rename(tempPath, path);
+      });
+
+    return this.pendingSave;
+  }
+}
+
+function cloneDocument(doc: VectorDocument): VectorDocument {
+  return {
+    id: doc.id,
+    vector: [...doc.vector],
+    payload: {
+      ...doc.payload,
+      metadata: { ...doc.payload.metadata, tags: doc.payload.metadata.tags ? [...doc.payload.metadata.tags] : undefined },
+      chunks: doc.payload.chunks ? doc.payload.chunks.map(chunk => ({ ...chunk })) : undefined
+    }
+  };
+}
+
+// JSON では Date が文字列になるため復元する
+function reviveDocument(doc: VectorDocument): VectorDocument {
+  return {
+    ...doc,
+    payload: {
+      ...doc.payload,
+      metadata: { ...doc.payload.metadata, lastModified: new Date(doc.payload.metadata.lastModified) }
+    }
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Qdrant ポイントIDの変換
+ *
+ * Qdrant は符号なし整数か UUID しかポイントIDとして受け付けないため、可読なドキュメントID
+ * （`<ファイルパス>-<チャンクID>`）とコレクション名から UUIDv5 を導出する。元のIDはペイロードの
+ * documentId に保存し、検索結果では元のIDへ戻す。導出は決定的なので削除時に対応表は不要。
+ */
+import { createHash } from 'crypto';
+
+// CQM のポイントID用名前空間（固定値。変更すると既存ポイントを参照できなくなる）
+export const POINT_ID_NAMESPACE = '3b8f6c1e-5d2a-4e7b-9c0f-6a1d2e3f4b5c';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * RFC 4122 の UUIDv5（SHA-1 名前ベース）
+ */
+export function uuidv5(name: string, namespace: string): string {
+  if (!UUID_PATTERN.test(namespace)) {
+    throw new TypeError(`Invalid UUID namespace: ${namespace}`);
+  }
+
+  const bytes = createHash('sha1')
+    .update(Buffer.from(namespace.replace(/-/g, ''), 'hex'))
+    .update(name, 'utf-8')
+    .digest()
+    .subarray(0, 16);
+
+  bytes[6] = (bytes[6] & 0x0f) | 0x50; // バージョン 5
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 バリアント
+
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * ドキュメントIDに対応するポイントID。すでに UUID の場合はそのまま使う
+ */
+export function toPointId(collection: string, id: string): string {
+  if (UUID_PATTERN.test(id)) {
+    return id.toLowerCase();
+  }
+  return uuidv5(`${collection}\n${id}`, POINT_ID_NAMESPACE);
+}
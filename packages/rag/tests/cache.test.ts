@@ -0,0 +1,103 @@
+/**
+ * キャッシュシステムのテストスイート
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCache, CachedEmbeddingProvider, MemoryCache } from '../src/cache/index.js';
+import { CQMError } from '@cqm/shared';
+import { EmbeddingProvider, isPartialEmbeddingError } from '../src/embedding/index.js';
+
+function createMockProvider(name = 'mock-model', dimensions = 3): EmbeddingProvider {
+  return {
+    generateEmbedding: vi.fn(async (text: string) => [text.length, 0, 1]),
+    generateBatchEmbeddings: vi.fn(async (texts: string[]) => texts.map(text => [text.length, 0, 1])),
+    getDimensions: () => dimensions,
+    getMaxTokens: () => 512,
+    isModelAvailable: async () => true,
+    getModelInfo: () => ({ name, dimensions, maxTokens: 512, contextLength: 512, description: 'mock' })
+  };
+}
+
+describe('FileCache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cqm-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('インスタンスをまたいで値を永続化する', async () => {
+    await new FileCache(directory).set('key', [0.1, 0.2]);
+
+    const value = await new FileCache(directory).get<number[]>('key');
+    expect(value).toEqual([0.1, 0.2]);
+  });
+
+  it('存在しないキーはnullを返す', async () => {
+    expect(await new FileCache(directory).get('missing')).toBeNull();
+  });
+
+  it('削除とクリアができる', async () => {
+    const cache = new FileCache(directory);
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+
+    await cache.delete('a');
+    expect(await cache.get('a')).toBeNull();
+
+    await cache.clear();
+    expect(await cache.get('b')).toBeNull();
+  });
+});
+
+describe('CachedEmbeddingProvider', () => {
+  it('未キャッシュのテキストのみ下位プロバイダーに問い合わせる', async () => {
+    const provider = createMockProvider();
+    const cached = new CachedEmbeddingProvider(provider, new MemoryCache());
+
+    await cached.generateBatchEmbeddings(['alpha', 'beta']);
+    const result = await cached.generateBatchEmbeddings(['alpha', 'gamma', 'gamma']);
+
+    expect(result).toEqual([[5, 0, 1], [5, 0, 1], [5, 0, 1]]);
+    expect(provider.generateBatchEmbeddings).toHaveBeenCalledTimes(2);
+    expect(provider.generateBatchEmbeddings).toHaveBeenLastCalledWith(['gamma'], undefined);
+    expect(cached.getStats()).toEqual({ hits: 1, misses: 4, hitRate: 0.2 });
+  });
+
+  it('モデルが異なる場合はキャッシュを共有しない', async () => {
+    const cache = new MemoryCache();
+    const first = createMockProvider('model-a');
+    const second = createMockProvider('model-b');
+
+    await new CachedEmbeddingProvider(first, cache).generateEmbedding('shared text');
+    await new CachedEmbeddingProvider(second, cache).generateEmbedding('shared text');
+
+    expect(first.generateBatchEmbeddings).toHaveBeenCalledTimes(1);
+    expect(second.generateBatchEmbeddings).toHaveBeenCalledTimes(1);
+  });
+
+  it('一部失敗時は成功分のみキャッシュし、元のインデックスで失敗を報告する', async () => {
+    const provider = createMockProvider();
+    provider.generateBatchEmbeddings = vi.fn()
+      .mockResolvedValueOnce([[4, 0, 1]])
+      .mockRejectedValueOnce(new CQMError('Failed to embed 1 of 2 texts', 'PARTIAL_EMBEDDING_ERROR', {
+        embeddings: [null, [4, 0, 1]],
+        failures: [{ index: 0, error: 'too long' }]
+      }))
+    const cached = new CachedEmbeddingProvider(provider, new MemoryCache());
+    await cached.generateEmbedding('seed');
+
+    const error = await cached.generateBatchEmbeddings(['seed', 'bad!', 'good']).catch(err => err);
+
+    expect(isPartialEmbeddingError(error)).toBe(true);
+    expect(error.details.failures).toEqual([{ index: 1, error: 'too long' }]);
+    expect(error.details.embeddings).toEqual([[4, 0, 1], null, [4, 0, 1]]);
+    expect(await cached.generateEmbedding('good')).toEqual([4, 0, 1]);
+    expect(provider.generateBatchEmbeddings).toHaveBeenCalledTimes(2); // 'good' はキャッシュから取得
+  });
+});
@@ -9,6 +9,7 @@ import {
   detectLanguage,
   estimateTokenCount 
 } from '../src/chunking/index.js';
+import { WordPieceApproxTokenizer } from '../src/tokenizer/index.js';
 
 describe('MultimodalChunker', () => {
   let chunker: MultimodalChunker;
@@ -87,6 +88,269 @@ type TestType = {
     });
   });
 
+  describe('TypeScriptの宣言の網羅', () => {
+    const content = [
+      "import { join } from 'path';",
+      "import type { Config } from './types';",
+      '',
+      'export const handler = async (event: string) => {',
+      '  return event.length;',
+      '};',
+      '',
+      'export const DEFAULT_CONFIG: Config = {',
+      "  port: 3000",
+      '};',
+      '',
+      'export enum Color { Red, Green }',
+      '',
+      'export namespace Utils.Paths {',
+      '  export const root = join(__dirname, "..");',
+      '}',
+      '',
+      'registerPlugins();',
+      "export { join as joinPath } from 'path';",
+      '',
+      'function helper() {}',
+      '',
+      '// 末尾のコメント'
+    ].join('\n');
+
+    it('アロー関数・定数・列挙型・名前空間をチャンクにする', async () => {
+      const result = await chunker.processDocument({ content, filePath: 'module.ts', type: 'typescript' });
+      const byTitle = (title: string) => result.chunks.find(chunk => chunk.metadata.title === title);
+
+      expect(byTitle('handler')).toMatchObject({ type: 'function', metadata: { startLine: 4, endLine: 6 } });
+      expect(byTitle('DEFAULT_CONFIG')).toMatchObject({ type: 'variable', metadata: { symbols: ['DEFAULT_CONFIG'] } });
+      expect(byTitle('Color')).toMatchObject({ type: 'enum', metadata: { symbols: ['Color', 'Color.Red', 'Color.Green'] } });
+      expect(byTitle('Utils.Paths')?.type).toBe('namespace');
+      expect(byTitle('root')?.type).toBe('variable');
+      expect(byTitle('helper')?.type).toBe('function');
+    });
+
+    it('宣言以外のトップレベルの文をモジュール本体のチャンクにまとめ、すべての行を含める', async () => {
+      const result = await chunker.processDocument({ content, filePath: 'module.ts', type: 'typescript' });
+      const modules = result.chunks.filter(chunk => chunk.type === 'module');
+
+      expect(modules.map(chunk => chunk.content)).toEqual([
+        "import { join } from 'path';\nimport type { Config } from './types';",
+        "registerPlugins();\nexport { join as joinPath } from 'path';",
+        '// 末尾のコメント'
+      ]);
+      expect(modules[1].metadata).toMatchObject({ title: 'module body', startLine: 18, endLine: 19, symbols: ['joinPath'] });
+
+      // 空行以外のすべての行がいずれかのチャンクに含まれる
+      content.split('\n').forEach(line => {
+        if (line.trim()) {
+          expect(result.chunks.some(chunk => chunk.content.includes(line.trim()))).toBe(true);
+        }
+      });
+    });
+  });
+
+  describe('クラスの階層', () => {
+    const content = [
+      'export class Counter {',
+      '  private count = 0;',
+      '',
+      '  constructor(private readonly step: number) {',
+      '    this.count = step;',
+      '  }',
+      '',
+      '  get value(): number {',
+      '    return this.count;',
+      '  }',
+      '',
+      '  /** 1 ステップ進める */',
+      '  increment(): void {',
+      '    this.count += this.step;',
+      '  }',
+      '}'
+    ].join('\n');
+
+    it('クラスのチャンクはメンバーの本体を省略したアウトラインにする', async () => {
+      const result = await chunker.processDocument({ content, filePath: 'counter.ts', type: 'typescript' });
+      const outline = result.chunks.find(chunk => chunk.type === 'class')!;
+
+      expect(outline.content).toBe([
+        'export class Counter {',
+        '  private count = 0;',
+        '',
+        '  constructor(private readonly step: number) { … }',
+        '',
+        '  get value(): number { … }',
+        '',
+        '  /** 1 ステップ進める */',
+        '  increment(): void { … }',
+        '}'
+      ].join('\n'));
+      expect(outline.metadata).toMatchObject({ startLine: 1, endLine: 16 });
+    });
+
+    it('メソッド・コンストラクター・アクセサーを parentId でクラスに結び付け、本体を一度だけ含める', async () => {
+      const result = await chunker.processDocument({ content, filePath: 'counter.ts', type: 'typescript' });
+      const outline = result.chunks.find(chunk => chunk.type === 'class')!;
+      const members = result.chunks.filter(chunk => chunk.metadata.parentId === outline.id);
+
+      expect(members.map(chunk => chunk.metadata.title)).toEqual(['constructor', 'value', 'increment']);
+      expect(members[2].metadata).toMatchObject({ startLine: 12, endLine: 15 });
+      ['this.count = step;', 'return this.count;', 'this.count += this.step;'].forEach(line => {
+        expect(result.chunks.filter(chunk => chunk.content.includes(line))).toHaveLength(1);
+      });
+    });
+  });
+
+  describe('名前空間と入れ子の宣言', () => {
+    const content = [
+      'export namespace Geometry {',
+      '  export const PI = 3.14159;',
+      '',
+      '  export function area(radius: number): number {',
+      '    return PI * radius * radius;',
+      '  }',
+      '',
+      '  export class Shape {',
+      '    draw(): void {',
+      '      render(this);',
+      '    }',
+      '  }',
+      '}',
+      '',
+      'export function outer(): number {',
+      '  function inner(): number {',
+      '    return 1;',
+      '  }',
+      '  return inner();',
+      '}'
+    ].join('\n');
+
+    it('名前空間のチャンクは宣言の本体・初期化式を省略したアウトラインにし、メンバーを parentId で結び付ける', async () => {
+      const result = await chunker.processDocument({ content, filePath: 'geometry.ts', type: 'typescript' });
+      const outline = result.chunks.find(chunk => chunk.type === 'namespace')!;
+
+      expect(outline.content).toBe([
+        'export namespace Geometry {',
+        '  export const PI = …;',
+        '',
+        '  export function area(radius: number): number { … }',
+        '',
+        '  export class Shape { … }',
+        '}'
+      ].join('\n'));
+
+      // 省略した本体の分だけ行が飛ぶため、各行の開始行を対応表に持つ
+      expect(outline.metadata.lineMap).toEqual([1, 2, 3, 4, 7, 8, 13]);
+
+      const members = result.chunks.filter(chunk => chunk.metadata.parentId === outline.id);
+      expect(members.map(chunk => chunk.metadata.title)).toEqual(['PI', 'area', 'Shape']);
+      expect(result.chunks.find(chunk => chunk.metadata.title === 'draw')!.metadata.parentId)
+        .toBe(members[2].id);
+    });
+
+    it('名前空間の行と関数内の入れ子の関数を一度だけ含める', async () => {
+      const result = await chunker.processDocument({ content, filePath: 'geometry.ts', type: 'typescript' });
+
+      expect(result.chunks.some(chunk => chunk.metadata.title === 'inner')).toBe(false);
+      ['3.14159', 'return PI * radius * radius;', 'render(this);', 'return 1;'].forEach(line => {
+        expect(result.chunks.filter(chunk => chunk.content.includes(line))).toHaveLength(1);
+      });
+    });
+  });
+
+  describe('パンくず', () => {
+    it('クラス・名前空間のメンバーと見出しの下のセクションに外側からの所属を記録する', async () => {
+      const code = await chunker.processDocument({
+        content: 'export namespace Storage {\n  export class Store {\n    load() {\n      return 1;\n    }\n  }\n}',
+        filePath: 'store.ts',
+        type: 'typescript'
+      });
+      expect(code.chunks.find(chunk => chunk.metadata.title === 'load')!.metadata.breadcrumbs).toEqual(['Storage', 'Store']);
+      expect(code.chunks.find(chunk => chunk.metadata.title === 'Storage')!.metadata.breadcrumbs).toBeUndefined();
+
+      const markdown = await chunker.processDocument({
+        content: '# Guide\n\nIntro.\n\n## Install\n\nSteps.\n\n### Docker\n\nRun it.\n\n## Usage\n\nCall it.',
+        filePath: 'guide.md',
+        type: 'markdown'
+      });
+      expect(markdown.chunks.map(chunk => chunk.metadata.breadcrumbs)).toEqual([
+        undefined,
+        ['Guide'],
+        ['Guide', 'Install'],
+        ['Guide']
+      ]);
+    });
+  });
+
+  describe('JSDoc とシグネチャ', () => {
+    const content = [
+      '/**',
+      ' * 設定を読み込む',
+      ' *',
+      ' * @param path - 設定ファイルのパス',
+      ' * @param options 読み込みオプション',
+      ' * @returns 読み込んだ設定',
+      ' * @deprecated loadConfigV2 を使う',
+      ' * @example',
+      " * loadConfig('cqm.json');",
+      ' * @since 0.3.0',
+      ' */',
+      'export async function loadConfig(path: string, options?: { strict: boolean }): Promise<Config> {',
+      '  return parse(await read(path), options);',
+      '}',
+      '',
+      'class Store {',
+      '  /** 値を取得する */',
+      '  static get(key: string): string | undefined {',
+      '    return cache.get(key);',
+      '  }',
+      '}',
+      '',
+      'export const format = (value: number, digits = 2): string => value.toFixed(digits);',
+      'export { Store };'
+    ].join('\n');
+
+    it('概要・@param・@returns・@deprecated・@example と独自タグを構造化する', async () => {
+      const result = await chunker.processDocument({ content, filePath: 'config.ts', type: 'typescript' });
+      const loadConfig = result.chunks.find(chunk => chunk.metadata.title === 'loadConfig')!;
+
+      expect(loadConfig.metadata.doc).toEqual({
+        summary: '設定を読み込む',
+        params: [
+          { name: 'path', description: '設定ファイルのパス' },
+          { name: 'options', description: '読み込みオプション' }
+        ],
+        returns: '読み込んだ設定',
+        deprecated: 'loadConfigV2 を使う',
+        examples: ["loadConfig('cqm.json');"],
+        tags: { since: ['0.3.0'] }
+      });
+      expect(result.chunks.find(chunk => chunk.metadata.title === 'format')!.metadata.doc).toBeUndefined();
+    });
+
+    it('引数・戻り値の型・修飾子・公開かどうかをシグネチャとして記録する', async () => {
+      const result = await chunker.processDocument({ content, filePath: 'config.ts', type: 'typescript' });
+      const signatureOf = (title: string) => result.chunks.find(chunk => chunk.metadata.title === title)!.metadata.signature;
+
+      expect(signatureOf('loadConfig')).toEqual({
+        text: 'export async function loadConfig(path: string, options?: { strict: boolean }): Promise<Config>',
+        parameters: [
+          { name: 'path', type: 'string', optional: undefined },
+          { name: 'options', type: '{ strict: boolean }', optional: true }
+        ],
+        returnType: 'Promise<Config>',
+        modifiers: ['async'],
+        exported: true
+      });
+      expect(signatureOf('format')).toMatchObject({
+        text: 'export const format = (value: number, digits = 2): string =>',
+        parameters: [{ name: 'value', type: 'number' }, { name: 'digits', optional: true }],
+        returnType: 'string'
+      });
+      // export { Store } で公開されたクラスの public メンバーも公開
+      expect(signatureOf('Store')).toMatchObject({ text: 'class Store', exported: true });
+      expect(signatureOf('get')).toMatchObject({ text: 'static get(key: string): string | undefined', modifiers: ['static'], exported: true });
+    });
+  });
+
   describe('Markdown処理', () => {
     it('ヘッダー階層に基づいてセクションを分割する', async () => {
       const input: DocumentInput = {
@@ -218,6 +482,112 @@ Content of section 2.
       expect(strategies.has('text')).toBe(true);
     });
   });
+
+  describe('トークン上限', () => {
+    it('モデルの上限を超えるチャンクを重複付きで分割し、メタデータに記録する', async () => {
+      const limited = new MultimodalChunker({ tokenizer: new WordPieceApproxTokenizer(), maxTokens: 64 });
+      const body = Array.from({ length: 40 }, (_, i) => `  const value${i} = compute(${i});`).join('\n');
+      const input: DocumentInput = {
+        content: `export function large() {\n${body}\n}`,
+        filePath: 'large.ts',
+        type: 'typescript'
+      };
+
+      const result = await limited.processDocument(input);
+      const parts = result.chunks.filter(chunk => chunk.metadata.splitFrom);
+
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach((part, i) => {
+        expect(part.metadata.tokenCount).toBeLessThanOrEqual(64);
+        expect(part.metadata.partIndex).toBe(i);
+        expect(part.metadata.partCount).toBe(parts.length);
+        expect(part.id).toBe(`${part.metadata.splitFrom}-part-${i + 1}`);
+      });
+      expect(parts[0].metadata.startLine).toBe(1);
+      expect(parts[parts.length - 1].content).toContain('value39');
+      expect(result.metadata.warnings.some(warning => warning.includes('split into'))).toBe(true);
+    });
+
+    it('上限内のチャンクは分割せずトークン数のみ記録する', async () => {
+      const limited = new MultimodalChunker({ maxTokens: 512 });
+      const result = await limited.processDocument({ content: 'short paragraph', type: 'text' });
+
+      expect(result.chunks).toHaveLength(1);
+      expect(result.chunks[0].metadata.tokenCount).toBeGreaterThan(0);
+      expect(result.chunks[0].metadata.splitFrom).toBeUndefined();
+    });
+
+    it('埋め込み時に付加されるトークン数をモデルの上限から差し引いて分割する', async () => {
+      const limited = new MultimodalChunker({ maxTokens: 64 });
+      const content = Array.from({ length: 12 }, (_, i) => `Sentence number ${i} explains one detail.`).join(' ');
+
+      const whole = await limited.processDocument({ content, type: 'text' });
+      const reserved = await limited.processDocument({ content, type: 'text' }, () => 24);
+
+      expect(whole.chunks.every(chunk => chunk.metadata.tokenCount! <= 64)).toBe(true);
+      expect(reserved.chunks.length).toBeGreaterThan(whole.chunks.length);
+      reserved.chunks.forEach(chunk => expect(chunk.metadata.tokenCount).toBeLessThanOrEqual(40));
+    });
+
+    it('戦略の maxTokens を超えるクラスをメンバーの区切りで分割する', async () => {
+      const strategyLimited = new MultimodalChunker({
+        tokenizer: new WordPieceApproxTokenizer(),
+        strategies: { typescript: { type: 'function', maxTokens: 80, overlap: 0, preserveContext: true } }
+      });
+      const methods = Array.from({ length: 6 }, (_, i) =>
+        `  /** method ${i} */\n  method${i}(input: number): number {\n    const doubled = input * ${i};\n    return doubled + ${i};\n  }`
+      ).join('\n\n');
+
+      const result = await strategyLimited.processDocument({
+        content: `export class Large {\n${methods}\n}`,
+        filePath: 'large.ts',
+        type: 'typescript'
+      });
+      const parts = result.chunks.filter(chunk => chunk.metadata.splitFrom?.startsWith('class-'));
+
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach(part => expect(part.metadata.tokenCount).toBeLessThanOrEqual(80));
+      // 先頭以外の部分はメンバーの JSDoc から始まり、メソッドの途中で切れない
+      parts.slice(1).forEach(part => expect(part.content).toMatch(/^\/\*\* method \d \*\//));
+      // アウトラインではメソッドの本体を省略しているため、行番号はソース上の位置から求める（method i は 2 + 6i 行目）
+      const method = Number(parts[1].content.match(/method (\d)/)![1]);
+      expect(parts[1].metadata.startLine).toBe(2 + 6 * method);
+      expect(parts[0].metadata.endLine).toBe(2 + 6 * method - 2);
+    });
+
+    it('段落を文の区切りで分割し、隣接する部分を重複させる', async () => {
+      const strategyLimited = new MultimodalChunker({
+        strategies: { text: { type: 'paragraph', maxTokens: 40, overlap: 12, preserveContext: false } }
+      });
+      const sentences = Array.from({ length: 8 }, (_, i) => `Sentence number ${i} explains one detail.`);
+
+      const result = await strategyLimited.processDocument({ content: sentences.join(' '), type: 'text' });
+
+      expect(result.chunks.length).toBeGreaterThan(1);
+      result.chunks.forEach(chunk => {
+        expect(chunk.metadata.parentId).toBe('text-0');
+        expect(chunk.content).toMatch(/^Sentence number \d/);
+        expect(chunk.content).toMatch(/detail\.$/);
+      });
+      // 直前の部分の最後の文が次の部分の先頭に含まれる
+      const lastSentence = result.chunks[0].content.split(/(?<=\.) /).pop()!;
+      expect(result.chunks[1].content.startsWith(lastSentence)).toBe(true);
+      expect(result.chunks[result.chunks.length - 1].content).toContain('Sentence number 7');
+    });
+
+    it('コードブロック内の空行では分割しない', async () => {
+      const strategyLimited = new MultimodalChunker({
+        strategies: { markdown: { type: 'section', maxTokens: 60, overlap: 0, preserveContext: true } }
+      });
+      const code = '```ts\nconst a = 1;\n\nconst b = 2;\n```';
+      const filler = Array.from({ length: 4 }, (_, i) => `Paragraph ${i} has a few words in it`).join('\n\n');
+
+      const result = await strategyLimited.processDocument({ content: `# Guide\n\n${filler}\n\n${code}`, type: 'markdown' });
+
+      expect(result.chunks.length).toBeGreaterThan(1);
+      expect(result.chunks.some(chunk => chunk.content.includes(code))).toBe(true);
+    });
+  });
 });
 
 describe('ユーティリティ関数', () => {
@@ -0,0 +1,53 @@
+/**
+ * RAG設定管理のテストスイート
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { modelRegistry } from '@cqm/shared';
+import { RAGConfigManager } from '../src/config/index.js';
+
+describe('RAGConfigManager', () => {
+  let directory: string;
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cqm-rag-config-'));
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    (RAGConfigManager as unknown as { instance?: RAGConfigManager }).instance = undefined;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    (RAGConfigManager as unknown as { instance?: RAGConfigManager }).instance = undefined;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('旧形式（オブジェクト）の embedding.models を警告付きでモデル定義の配列に変換する', () => {
+    const configPath = join(directory, 'rag.config.json');
+    writeFileSync(configPath, JSON.stringify({
+      embedding: {
+        provider: 'ollama',
+        defaultModel: 'legacy-config-embed',
+        models: {
+          'nomic-embed-text': {
+            dimensions: 768,
+            description: 'General purpose embedding model optimized for search',
+            prompts: { query: 'search_query: {text}', document: 'search_document: {text}' }
+          },
+          'all-minilm': { dimensions: 384, description: 'Lightweight model for fast processing', prompts: { query: 'q: {text}' } },
+          'legacy-config-embed': { dimensions: 320, description: 'Custom model' }
+        }
+      }
+    }));
+
+    const manager = RAGConfigManager.getInstance(configPath);
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('legacy object format'));
+    expect(manager.getEmbeddingConfig().models.map(model => model.name)).toEqual(['all-minilm', 'legacy-config-embed']);
+    expect(modelRegistry.get('all-minilm')).toMatchObject({ dimensions: 384, prompts: { query: 'q: {text}' } });
+    expect(modelRegistry.get('legacy-config-embed', 'ollama')).toMatchObject({ dimensions: 320, description: 'Custom model' });
+    expect(manager.validateConfig().errors).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * 検索カーソルのテストスイート
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CQMError } from '@cqm/shared';
+import { searchFingerprint, encodeSearchCursor, decodeSearchCursor } from '../src/engine/cursor.js';
+import { RAGEngine } from '../src/engine/index.js';
+
+describe('検索カーソル', () => {
+  const fingerprint = searchFingerprint({ query: 'vectorStore', mode: 'hybrid', filters: { language: ['typescript'] } });
+
+  it('オフセットを符号化し、同じ条件・リビジョンで復元する', () => {
+    const cursor = encodeSearchCursor(20, fingerprint, 'collection:a.3');
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeSearchCursor(cursor, { fingerprint, revision: 'collection:a.3' })).toBe(20);
+  });
+
+  it('limit やハイライトの有無はフィンガープリントに含めず、hybrid の候補数は含める', () => {
+    expect(searchFingerprint({ query: 'vectorStore', mode: 'hybrid', filters: { language: ['typescript'] }, limit: 5, includeHighlights: false } as any))
+      .toBe(fingerprint);
+    expect(searchFingerprint({ query: 'vectorStore', mode: 'vector', filters: { language: ['typescript'] } })).not.toBe(fingerprint);
+    expect(searchFingerprint({ query: 'vectorStore', mode: 'hybrid', filters: { language: ['typescript'] }, candidates: 200 })).not.toBe(fingerprint);
+  });
+
+  it('検索条件の異なるカーソルや壊れたカーソルを拒否する', () => {
+    const cursor = encodeSearchCursor(10, fingerprint, 'collection:a.3');
+    const otherQuery = searchFingerprint({ query: 'embedding' });
+
+    expect(() => decodeSearchCursor(cursor, { fingerprint: otherQuery, revision: 'collection:a.3' })).toThrow('does not match');
+    expect(() => decodeSearchCursor('not-a-cursor', { fingerprint, revision: 'collection:a.3' })).toThrow(CQMError);
+  });
+
+  it('インデックスのリビジョンが変わったカーソルは期限切れにする', () => {
+    const cursor = encodeSearchCursor(10, fingerprint, 'collection:a.3');
+
+    try {
+      decodeSearchCursor(cursor, { fingerprint, revision: 'collection:a.4' });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as CQMError).code).toBe('CURSOR_EXPIRED');
+    }
+  });
+});
+
+describe('hybrid 検索のページング', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cqm-cursor-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('ページの大きさによらず融合後の同じ順位から切り出し、重複や欠落がない', async () => {
+    const topics = [
+      'vector store search with cosine similarity',
+      'lexical search ranks documents with BM25',
+      'the vector store persists snapshots to disk',
+      'search results are fused with reciprocal rank fusion',
+      'chunking splits TypeScript files into declarations',
+      'embedding providers fail over when a store is down',
+      'cursor paging keeps search results stable',
+      'vector dimensions depend on the embedding model',
+      'the store keeps a write ahead log',
+      'hybrid search combines vector and lexical search'
+    ];
+    const files = topics.map((topic, index) => {
+      const file = join(directory, `note-${index}.md`);
+      writeFileSync(file, `# Note ${index}\n\n${topic}.`);
+      return file;
+    });
+
+    const engine = new RAGEngine({
+      provider: 'local',
+      model: 'local-hash',
+      vectorStore: { type: 'memory' },
+      dataDir: join(directory, '.cqm'),
+      embeddingCache: { enabled: false },
+      indexOptions: { basePaths: [directory], includePatterns: ['**/*.md'] },
+      chunkingStrategies: {},
+      performance: { searchThreshold: 0.01 }
+    });
+    await engine.indexDocuments(files);
+
+    // 融合の深さの影響が出るよう、語彙検索はベクトル検索とほぼ逆の順位にする
+    const indexManager = engine.getIndexManager();
+    const searchLexical = indexManager.searchLexical.bind(indexManager);
+    vi.spyOn(indexManager, 'searchLexical').mockImplementation((query, lexicalOptions = {}) =>
+      searchLexical(query, { ...lexicalOptions, limit: 50 }).reverse().slice(0, lexicalOptions.limit));
+
+    const options = { query: 'vector store search', mode: 'hybrid' as const, includeHighlights: false };
+    const all = (await engine.search({ ...options, limit: 50 })).map(result => result.id);
+    expect(all.length).toBeGreaterThan(3);
+
+    const paged: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await engine.searchPage({ ...options, limit: 1, cursor });
+      paged.push(...page.results.map(result => result.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(paged).toEqual(all);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * 検索結果の多様化（MMR）のテストスイート
+ */
+import { describe, it, expect } from 'vitest';
+import { maximalMarginalRelevance } from '../src/diversity/index.js';
+import type { SearchResult } from '../src/vector/index.js';
+
+function createResult(id: string, source: string, score: number, vector: number[], content = `content of ${id}`): SearchResult {
+  return {
+    id,
+    score,
+    document: {
+      id,
+      vector,
+      payload: {
+        content,
+        metadata: { source, type: 'typescript', lastModified: new Date('2024-06-01T00:00:00Z'), size: content.length }
+      }
+    }
+  };
+}
+
+describe('maximalMarginalRelevance', () => {
+  // 大きなクラスのチャンクとそのメソッドのチャンクがほぼ同じベクトルで上位を占める
+  const candidates = [
+    createResult('engine-class', 'engine.ts', 0.95, [1, 0, 0]),
+    createResult('engine-search', 'engine.ts', 0.94, [0.99, 0.1, 0]),
+    createResult('engine-index', 'engine.ts', 0.93, [0.98, 0.15, 0]),
+    createResult('tools', 'rag-tools.ts', 0.8, [0.5, 0.8, 0]),
+    createResult('readme', 'README.md', 0.7, [0.3, 0, 0.9])
+  ];
+
+  it('lambda が 1 の場合は関連度順のまま返す', () => {
+    const results = maximalMarginalRelevance(candidates, { lambda: 1, limit: 3 });
+    expect(results.map(result => result.id)).toEqual(['engine-class', 'engine-search', 'engine-index']);
+  });
+
+  it('選択済みの結果と似た候補の順位を下げる', () => {
+    const results = maximalMarginalRelevance(candidates, { lambda: 0.5, limit: 3 });
+    expect(results.map(result => result.id)).toEqual(['engine-class', 'readme', 'tools']);
+  });
+
+  it('maxPerFile で同じファイルからの件数を制限する', () => {
+    const results = maximalMarginalRelevance(candidates, { lambda: 1, maxPerFile: 1 });
+    expect(results.map(result => result.id)).toEqual(['engine-class', 'tools', 'readme']);
+  });
+
+  it('ベクトルのない結果は語彙の重なりで類似度を測る', () => {
+    const lexical = [
+      createResult('a', 'a.ts', 1, [], 'vector store search results'),
+      createResult('b', 'b.ts', 0.9, [], 'vector store search results'),
+      createResult('c', 'c.ts', 0.8, [], 'markdown chunking sections')
+    ];
+
+    const results = maximalMarginalRelevance(lexical, { lambda: 0.5, limit: 2 });
+    expect(results.map(result => result.id)).toEqual(['a', 'c']);
+  });
+});
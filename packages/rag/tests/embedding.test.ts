@@ -1,9 +1,24 @@
 /**
  * 埋め込みプロバイダーのテストスイート
  */
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { OllamaEmbeddingProvider, EmbeddingProviderManager } from '../src/embedding/index.js';
-import { CQMError } from '@cqm/shared';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, Server, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  OllamaEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  LocalEmbeddingProvider,
+  EmbeddingProviderManager,
+  EmbeddingProvider,
+  FailoverEmbeddingProvider,
+  CircuitBreaker,
+  isPartialEmbeddingError,
+  formatEmbeddingInput,
+  OLLAMA_MODELS,
+  OPENAI_MODELS,
+  LOCAL_MODELS
+} from '../src/embedding/index.js';
+import { CQMError, EMBEDDING_MODELS, modelRegistry } from '@cqm/shared';
 
 describe('OllamaEmbeddingProvider', () => {
   let provider: OllamaEmbeddingProvider;
@@ -31,14 +46,37 @@ describe('OllamaEmbeddingProvider', () => {
         new OllamaEmbeddingProvider('unsupported-model' as any);
       }).toThrow(CQMError);
     });
+
+    it('レジストリに登録したカスタムモデルを使用できる', () => {
+      modelRegistry.register({
+        name: 'custom-ollama-embed',
+        provider: 'ollama',
+        dimensions: 640,
+        contextLength: 2048,
+        distance: 'dot',
+        prompts: { query: 'query: {text}' }
+      });
+
+      const custom = new OllamaEmbeddingProvider('custom-ollama-embed');
+      expect(custom.getDimensions()).toBe(640);
+      expect(custom.getMaxTokens()).toBe(2048);
+      expect(custom.getModelInfo()).toMatchObject({ prompts: { query: 'query: {text}' }, distance: 'dot' });
+    });
+
+    it('非推奨のモデル定数をレジストリの組み込みモデルから提供する', () => {
+      expect(OLLAMA_MODELS['nomic-embed-text']).toMatchObject({ dimensions: 768, maxTokens: 8192 });
+      expect(OPENAI_MODELS['text-embedding-3-large'].dimensions).toBe(3072);
+      expect(LOCAL_MODELS['local-hash'].dimensions).toBe(512);
+      expect(EMBEDDING_MODELS.ollama['mxbai-embed-large']).toEqual({ dimensions: 1024, maxTokens: 512 });
+    });
   });
 
   describe('embeddings生成', () => {
     it('正常なテキストで埋め込みを生成する', async () => {
       // Ollamaクライアントをモック
       const mockOllama = {
-        embeddings: vi.fn().mockResolvedValue({
-          embedding: new Array(768).fill(0.1)
+        embed: vi.fn().mockResolvedValue({
+          embeddings: [new Array(768).fill(0.1)]
         })
       };
       
@@ -49,9 +87,10 @@ describe('OllamaEmbeddingProvider', () => {
       
       expect(result).toHaveLength(768);
       expect(result.every(val => typeof val === 'number')).toBe(true);
-      expect(mockOllama.embeddings).toHaveBeenCalledWith({
+      expect(mockOllama.embed).toHaveBeenCalledWith({
         model: 'nomic-embed-text',
-        prompt: 'test text'
+        input: ['test text'],
+        truncate: false
       });
     });
 
@@ -61,9 +100,9 @@ describe('OllamaEmbeddingProvider', () => {
 
     it('バッチ埋め込み生成が正常に動作する', async () => {
       const mockOllama = {
-        embeddings: vi.fn()
-          .mockResolvedValueOnce({ embedding: new Array(768).fill(0.1) })
-          .mockResolvedValueOnce({ embedding: new Array(768).fill(0.2) })
+        embed: vi.fn().mockResolvedValueOnce({
+          embeddings: [new Array(768).fill(0.1), new Array(768).fill(0.2)]
+        })
       };
       
       (provider as any).client = mockOllama;
@@ -73,32 +112,116 @@ describe('OllamaEmbeddingProvider', () => {
       expect(result).toHaveLength(2);
       expect(result[0]).toHaveLength(768);
       expect(result[1]).toHaveLength(768);
+      expect(mockOllama.embed).toHaveBeenCalledTimes(1); // 1バッチ = 1リクエスト
     });
 
     it('ネットワークエラー時に適切にリトライする', async () => {
       const mockOllama = {
-        embeddings: vi.fn()
+        embed: vi.fn()
           .mockRejectedValueOnce(new Error('ECONNREFUSED'))
           .mockRejectedValueOnce(new Error('ECONNREFUSED'))
-          .mockResolvedValueOnce({ embedding: new Array(768).fill(0.1) })
+          .mockResolvedValueOnce({ embeddings: [new Array(768).fill(0.1)] })
       };
       
       (provider as any).client = mockOllama;
 
       const result = await provider.generateEmbedding('test text');
       expect(result).toHaveLength(768);
-      expect(mockOllama.embeddings).toHaveBeenCalledTimes(3);
+      expect(mockOllama.embed).toHaveBeenCalledTimes(3);
     });
 
     it('最大リトライ回数に達した場合エラーを投げる', async () => {
       const mockOllama = {
-        embeddings: vi.fn().mockRejectedValue(new Error('Persistent error'))
+        embed: vi.fn().mockRejectedValue(new Error('Persistent error'))
       };
       
       (provider as any).client = mockOllama;
 
       await expect(provider.generateEmbedding('test text')).rejects.toThrow(CQMError);
-      expect(mockOllama.embeddings).toHaveBeenCalledTimes(3); // デフォルト最大リトライ回数
+      expect(mockOllama.embed).toHaveBeenCalledTimes(3); // デフォルト最大リトライ回数
+    });
+  });
+
+  describe('バッチ処理', () => {
+    const embedAll = vi.fn(async ({ input }: { input: string[] }) => ({
+      embeddings: input.map(text => new Array(768).fill(text.length))
+    }));
+
+    beforeEach(() => {
+      embedAll.mockClear();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('推定トークン数に応じてバッチを分割する', async () => {
+      const batched = new OllamaEmbeddingProvider('nomic-embed-text', { maxBatchTokens: 10, batchSize: 100 });
+      (batched as any).client = { embed: embedAll };
+
+      // 各テキスト4トークン（WordPiece の特殊トークン2つを含む） → 2件ずつのバッチ
+      const texts = Array.from({ length: 5 }, (_, i) => `word ${i}`);
+      const result = await batched.generateBatchEmbeddings(texts);
+
+      expect(result).toHaveLength(5);
+      expect(embedAll).toHaveBeenCalledTimes(3);
+      expect(embedAll.mock.calls.map(([request]) => request.input.length)).toEqual([2, 2, 1]);
+    });
+
+    it('失敗したテキストのみを分離し、他の結果を保持する', async () => {
+      const isolated = new OllamaEmbeddingProvider('nomic-embed-text', { maxRetries: 1 });
+      (isolated as any).client = {
+        embed: vi.fn(async ({ input }: { input: string[] }) => {
+          if (input.includes('broken')) {
+            throw Object.assign(new Error('invalid input'), { status_code: 400 });
+          }
+          return embedAll({ input });
+        })
+      };
+
+      const error = await isolated.generateBatchEmbeddings(['alpha', 'broken', 'gamma', 'delta'])
+        .catch(err => err);
+
+      expect(isPartialEmbeddingError(error)).toBe(true);
+      expect(error.details.failures).toEqual([{ index: 1, error: 'invalid input' }]);
+      expect(error.details.embeddings[0]).toHaveLength(768);
+      expect(error.details.embeddings[1]).toBeNull();
+      expect(error.details.embeddings[3]).toHaveLength(768);
+    });
+
+    it('接続エラーやサーバーエラーではバッチを分割せずにすぐ失敗する', async () => {
+      const unavailable = new OllamaEmbeddingProvider('nomic-embed-text', { maxRetries: 2, retryDelay: 0, batchSize: 32 });
+      const embed = vi.fn()
+        .mockRejectedValueOnce(Object.assign(new TypeError('fetch failed'), { cause: new Error('connect ECONNREFUSED') }))
+        .mockRejectedValue(Object.assign(new Error('model runner has unexpectedly stopped'), { status_code: 500 }));
+      (unavailable as any).client = { embed };
+
+      const texts = Array.from({ length: 32 }, (_, i) => `text ${i}`);
+      const error = await unavailable.generateBatchEmbeddings(texts).catch(err => err);
+
+      expect(error).toBeInstanceOf(CQMError);
+      expect(isPartialEmbeddingError(error)).toBe(false);
+      expect(embed).toHaveBeenCalledTimes(2); // 再試行のみ（分割しない）
+    });
+
+    it('同時リクエスト数をconcurrencyで制限する', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const limited = new OllamaEmbeddingProvider('nomic-embed-text', { batchSize: 1, concurrency: 2 });
+      (limited as any).client = {
+        embed: vi.fn(async ({ input }: { input: string[] }) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          inFlight--;
+          return embedAll({ input });
+        })
+      };
+
+      await limited.generateBatchEmbeddings(['a', 'b', 'c', 'd', 'e']);
+
+      expect(maxInFlight).toBe(2);
     });
   });
 
@@ -196,4 +319,351 @@ describe('EmbeddingProviderManager', () => {
       expect(available).not.toContain('ollama');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('OpenAIEmbeddingProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: Array<{ headers: IncomingMessage['headers']; body: any }>;
+  let respond: (body: any, res: ServerResponse) => void;
+
+  beforeEach(async () => {
+    requests = [];
+    // デフォルトは入力ごとに index 逆順でダミー埋め込みを返す
+    respond = (body, res) => {
+      const inputs: string[] = body.input;
+      const data = inputs
+        .map((text, index) => ({ index, embedding: [text.length, index, 1] }))
+        .reverse();
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ data, model: body.model }));
+    };
+
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        requests.push({ headers: req.headers, body });
+        respond(body, res);
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('バッチごとに1リクエストで送信し index 順に並べ替える', async () => {
+    const provider = new OpenAIEmbeddingProvider('local-model', {
+      baseUrl,
+      apiKey: 'sk-test',
+      batchSize: 2
+    });
+
+    const result = await provider.generateBatchEmbeddings(['a', 'bb', 'ccc']);
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].body.input).toEqual(['a', 'bb']);
+    expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(result).toEqual([[1, 0, 1], [2, 1, 1], [3, 0, 1]]);
+    // 未知モデルの次元数はレスポンスから確定する
+    expect(provider.getDimensions()).toBe(3);
+  });
+
+  it('text-embedding-3 系では dimensions を送信する', async () => {
+    respond = (body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ data: [{ index: 0, embedding: new Array(256).fill(0.1) }] }));
+    };
+
+    const provider = new OpenAIEmbeddingProvider('text-embedding-3-small', { baseUrl, dimensions: 256 });
+    const result = await provider.generateEmbedding('test');
+
+    expect(result).toHaveLength(256);
+    expect(requests[0].body.dimensions).toBe(256);
+    expect(provider.getDimensions()).toBe(256);
+  });
+
+  it('サーバーエラー時にリトライする', async () => {
+    let calls = 0;
+    const defaultRespond = respond;
+    respond = (body, res) => {
+      if (++calls < 3) {
+        res.writeHead(503);
+        res.end('unavailable');
+        return;
+      }
+      defaultRespond(body, res);
+    };
+
+    const provider = new OpenAIEmbeddingProvider('local-model', { baseUrl, retryDelay: 1 });
+    const result = await provider.generateEmbedding('retry');
+
+    expect(result).toEqual([5, 0, 1]);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('認証エラーはリトライせずにエラーを投げる', async () => {
+    respond = (body, res) => {
+      res.writeHead(401);
+      res.end('invalid api key');
+    };
+
+    const provider = new OpenAIEmbeddingProvider('local-model', { baseUrl, retryDelay: 1 });
+
+    await expect(provider.generateEmbedding('test')).rejects.toThrow(CQMError);
+    expect(requests).toHaveLength(1);
+    expect(await provider.isModelAvailable()).toBe(false);
+  });
+
+  it('接続できる場合はモデル利用可能と判定する', async () => {
+    const provider = new OpenAIEmbeddingProvider('local-model', { baseUrl });
+
+    expect(await provider.isModelAvailable()).toBe(true);
+    expect(provider.getModelInfo().dimensions).toBe(3);
+  });
+});
+
+describe('LocalEmbeddingProvider', () => {
+  const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+  it('外部サービスなしで常に利用可能', async () => {
+    const provider = new LocalEmbeddingProvider();
+
+    expect(await provider.isModelAvailable()).toBe(true);
+    expect(provider.getDimensions()).toBe(512);
+  });
+
+  it('同じテキストに対して決定的で正規化されたベクトルを返す', async () => {
+    const provider = new LocalEmbeddingProvider({ dimensions: 128 });
+
+    const first = await provider.generateEmbedding('export function handleToolsCall() {}');
+    const second = await provider.generateEmbedding('export function handleToolsCall() {}');
+
+    expect(first).toHaveLength(128);
+    expect(first).toEqual(second);
+    expect(cosine(first, first)).toBeCloseTo(1, 5);
+  });
+
+  it('語彙を共有するテキストほど類似度が高い', async () => {
+    const provider = new LocalEmbeddingProvider();
+    const [query, related, unrelated] = await provider.generateBatchEmbeddings([
+      'vector search engine',
+      'class VectorSearchEngine performs vector search',
+      'markdown heading parser for documentation'
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('空のテキストでエラーを投げる', async () => {
+    const provider = new LocalEmbeddingProvider();
+
+    await expect(provider.generateEmbedding('  ')).rejects.toThrow(CQMError);
+  });
+});
+
+describe('FailoverEmbeddingProvider', () => {
+  function createStubProvider(dimensions: number, fail = false): EmbeddingProvider {
+    const embed = async (text: string) => {
+      if (fail) {
+        throw new Error('connection refused');
+      }
+      return new Array(dimensions).fill(text.length);
+    };
+
+    return {
+      generateEmbedding: vi.fn(embed),
+      generateBatchEmbeddings: vi.fn(async (texts: string[]) => Promise.all(texts.map(embed))),
+      getDimensions: () => dimensions,
+      getMaxTokens: () => 512,
+      isModelAvailable: async () => !fail,
+      getModelInfo: () => ({ name: 'stub', dimensions, maxTokens: 512, contextLength: 512, description: 'stub' })
+    };
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('プライマリ失敗時に次のプロバイダーへフォールバックする', async () => {
+    const primary = createStubProvider(4, true);
+    const secondary = createStubProvider(4);
+    const failover = new FailoverEmbeddingProvider([
+      { name: 'ollama', provider: primary },
+      { name: 'openai', provider: secondary }
+    ]);
+
+    const embedding = await failover.generateEmbedding('query');
+
+    expect(embedding).toEqual([5, 5, 5, 5]);
+    expect(failover.getBreakerStatus().ollama.failures).toBe(1);
+  });
+
+  it('連続失敗でブレーカーが開き、プライマリを呼ばなくなる', async () => {
+    const primary = createStubProvider(4, true);
+    const failover = new FailoverEmbeddingProvider(
+      [
+        { name: 'ollama', provider: primary },
+        { name: 'local', provider: createStubProvider(4) }
+      ],
+      { failureThreshold: 2, resetTimeout: 60000 }
+    );
+
+    await failover.generateEmbedding('a');
+    await failover.generateEmbedding('b');
+    await failover.generateEmbedding('c');
+
+    expect(primary.generateEmbedding).toHaveBeenCalledTimes(2);
+    expect(failover.getBreakerStatus().ollama.state).toBe('open');
+    expect(failover.getActiveProviderName()).toBe('local');
+  });
+
+  it('次元数の異なるプロバイダーはスキップする', async () => {
+    const failover = new FailoverEmbeddingProvider([
+      { name: 'openai', provider: createStubProvider(8, true) },
+      { name: 'local', provider: createStubProvider(4) }
+    ]);
+
+    await expect(failover.generateEmbedding('query')).rejects.toThrow(/dimension mismatch/);
+  });
+
+  it('全プロバイダー失敗時はPROVIDER_ERRORを投げる', async () => {
+    const failover = new FailoverEmbeddingProvider([
+      { name: 'ollama', provider: createStubProvider(4, true) }
+    ]);
+
+    await expect(failover.generateEmbedding('query')).rejects.toMatchObject({ code: 'PROVIDER_ERROR' });
+  });
+
+  it('フォールバック先のモデルのプロンプトテンプレートで埋め込む', async () => {
+    const primary = new OllamaEmbeddingProvider('nomic-embed-text', { maxRetries: 1, retryDelay: 1 });
+    const secondary = new OllamaEmbeddingProvider('nomic-embed-text', { prompts: { query: 'query: {text}' } });
+    const primaryClient = { embed: vi.fn().mockRejectedValue(new Error('connect ECONNREFUSED')) };
+    const secondaryClient = { embed: vi.fn().mockResolvedValue({ embeddings: [new Array(768).fill(0.1)] }) };
+    (primary as any).client = primaryClient;
+    (secondary as any).client = secondaryClient;
+
+    const failover = new FailoverEmbeddingProvider([
+      { name: 'ollama', provider: primary },
+      { name: 'ollama-backup', provider: secondary }
+    ]);
+    await failover.generateEmbedding('auth flow', { inputType: 'query' });
+
+    expect(primaryClient.embed.mock.calls[0][0].input).toEqual(['search_query: auth flow']);
+    expect(secondaryClient.embed.mock.calls[0][0].input).toEqual(['query: auth flow']);
+  });
+
+  it('インデックス用のプライマリプロバイダーはフォールバックせず、ブレーカーが開いている間は失敗する', async () => {
+    const primary = createStubProvider(4, true);
+    const secondary = createStubProvider(4);
+    const failover = new FailoverEmbeddingProvider(
+      [
+        { name: 'ollama', provider: primary },
+        { name: 'local', provider: secondary }
+      ],
+      { failureThreshold: 1, resetTimeout: 60000 }
+    );
+    const indexProvider = failover.getPrimaryProvider();
+
+    await expect(indexProvider.generateBatchEmbeddings(['doc'], { inputType: 'document' }))
+      .rejects.toMatchObject({ code: 'PROVIDER_ERROR' });
+    await expect(indexProvider.generateBatchEmbeddings(['doc'], { inputType: 'document' }))
+      .rejects.toThrow(/circuit open/);
+
+    expect(primary.generateBatchEmbeddings).toHaveBeenCalledTimes(1);
+    expect(secondary.generateBatchEmbeddings).not.toHaveBeenCalled();
+    expect(await failover.generateEmbedding('query', { inputType: 'query' })).toEqual([5, 5, 5, 5]);
+  });
+
+  it('マネージャーのフォールバックチェーンから構築できる', async () => {
+    const manager = new EmbeddingProviderManager();
+    manager.register('ollama', createStubProvider(4, true));
+    manager.register('local', createStubProvider(4));
+    manager.setFallbackChain(['local']);
+
+    const provider = await manager.getProvider();
+
+    expect(provider).toBeInstanceOf(FailoverEmbeddingProvider);
+    expect(await provider.generateEmbedding('abc')).toEqual([3, 3, 3, 3]);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('待機時間経過後にhalf-openで1件だけプローブを通し、成功で閉じる', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+
+    breaker.recordFailure(new Error('down'));
+    expect(breaker.tryAcquire()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getStatus().state).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('half-openのプローブ失敗で再びopenになる', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.getStatus().state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+});
+
+describe('formatEmbeddingInput', () => {
+  const prompts = {
+    query: 'search_query: {text}',
+    document: 'search_document: ',
+    tasks: {
+      code: { query: 'Represent this query for searching relevant code: {text}' }
+    }
+  };
+
+  it('入力種別ごとのテンプレートを適用する', () => {
+    expect(formatEmbeddingInput('auth flow', prompts, 'query')).toBe('search_query: auth flow');
+    // {text} を含まないテンプレートは接頭辞として付与する
+    expect(formatEmbeddingInput('body', prompts, 'document')).toBe('search_document: body');
+  });
+
+  it('タスク別テンプレートを優先し、未定義なら既定テンプレートにフォールバックする', () => {
+    expect(formatEmbeddingInput('parse', prompts, 'query', 'code'))
+      .toBe('Represent this query for searching relevant code: parse');
+    expect(formatEmbeddingInput('parse', prompts, 'document', 'code')).toBe('search_document: parse');
+    expect(formatEmbeddingInput('setup', prompts, 'query', 'docs')).toBe('search_query: setup');
+  });
+
+  it('テンプレート未定義のモデルでは入力をそのまま返す', () => {
+    expect(formatEmbeddingInput('$& {text}', undefined, 'query')).toBe('$& {text}');
+    expect(formatEmbeddingInput('$&', { query: 'q: {text}' }, 'query')).toBe('q: $&');
+  });
+
+  it('モデル定義のテンプレートをプロバイダー設定で上書きできる', () => {
+    expect(new OllamaEmbeddingProvider('nomic-embed-text').getModelInfo().prompts?.query).toBe('search_query: {text}');
+
+    const custom = new OllamaEmbeddingProvider('nomic-embed-text', { prompts: { query: 'q: {text}' } });
+    expect(custom.getModelInfo().prompts).toEqual({ query: 'q: {text}' });
+    expect(new OllamaEmbeddingProvider('nomic-embed-text').getModelInfo().prompts?.query).toBe('search_query: {text}');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * 埋め込み前のチャンクの文脈付加のテストスイート
+ */
+import { describe, it, expect } from 'vitest';
+import { enrichChunkText, relevantImports, describeEnrichment, DEFAULT_ENRICHMENT_TEMPLATE } from '../src/enrichment/index.js';
+
+describe('enrichChunkText', () => {
+  const context = {
+    path: 'packages/rag/src/vector/index.ts',
+    packageName: '@cqm/rag',
+    breadcrumbs: ['QdrantVectorStore'],
+    imports: "import { QdrantClient } from '@qdrant/js-client-rest';\nimport { CQMError } from '@cqm/shared';",
+    content: 'async initialize(): Promise<void> {\n  await this.client.getCollections();\n}'
+  };
+
+  it('無効（既定）の場合は本文をそのまま返す', () => {
+    expect(enrichChunkText(context)).toBe(context.content);
+    expect(enrichChunkText(context, { enabled: false, template: '{path}\n{content}' })).toBe(context.content);
+  });
+
+  it('既定のテンプレートでパス・パッケージ・所属・使われているインポートを前置し、空の値の行は省く', () => {
+    expect(enrichChunkText({ ...context, content: 'new QdrantClient(options);' }, { enabled: true })).toBe([
+      'File: packages/rag/src/vector/index.ts',
+      'Package: @cqm/rag',
+      'Scope: QdrantVectorStore',
+      "import { QdrantClient } from '@qdrant/js-client-rest';",
+      '',
+      'new QdrantClient(options);'
+    ].join('\n'));
+
+    expect(enrichChunkText({ path: 'README.md', content: '# Title' }, { enabled: true })).toBe('File: README.md\n\n# Title');
+  });
+
+  it('独自のテンプレートを使い、{content} がなければ末尾に本文を付ける', () => {
+    const settings = { enabled: true, template: '[{package}] {breadcrumbs}.{content}' };
+    expect(enrichChunkText({ ...context, content: 'close()' }, settings)).toBe('[@cqm/rag] QdrantVectorStore.close()');
+    expect(enrichChunkText(context, { enabled: true, template: '# {path}' })).toBe(`# ${context.path}\n\n${context.content}`);
+  });
+});
+
+describe('relevantImports', () => {
+  it('取り込んだ名前（別名・名前空間を含む）が本文で使われているインポートだけを残す', () => {
+    const imports = [
+      "import { readFile as read, stat } from 'fs/promises';",
+      "import * as ts from 'typescript';",
+      "import type {\n  Config\n} from './types';",
+      "import './polyfill';"
+    ].join('\n');
+
+    expect(relevantImports(imports, 'const source = ts.createSourceFile(await read(path));')).toBe(
+      "import { readFile as read, stat } from 'fs/promises';\nimport * as ts from 'typescript';"
+    );
+    expect(relevantImports(imports, 'function load(config: Config) {}')).toBe("import type {\n  Config\n} from './types';");
+  });
+});
+
+describe('describeEnrichment', () => {
+  it('有効な場合のみテンプレートを識別子にする', () => {
+    expect(describeEnrichment(undefined)).toBeUndefined();
+    expect(describeEnrichment({ template: '{path}' })).toBeUndefined();
+    expect(describeEnrichment({ enabled: true })).toBe(DEFAULT_ENRICHMENT_TEMPLATE);
+    expect(describeEnrichment({ enabled: true, template: '{path}\n{content}' })).toBe('{path}\n{content}');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * ハイライト生成のテストスイート
+ */
+import { describe, it, expect } from 'vitest';
+import { generateHighlights, splitHighlightSegments } from '../src/highlight/index.js';
+
+const code = [
+  'export class ToolRegistry {',
+  '  async handleToolsCall(request: MCPRequest) {',
+  '    const tool = this.tools.get(request.params.name);',
+  "    if (!tool) throw new CQMError('Tool not found', 'TOOL_NOT_FOUND');",
+  '  }',
+  '}'
+].join('\n');
+
+describe('splitHighlightSegments', () => {
+  it('行単位に分割し、前後の空白を除いたオフセットと行番号を返す', () => {
+    const segments = splitHighlightSegments('first line\n\n  second line  \n');
+
+    expect(segments).toEqual([
+      { text: 'first line', start: 0, end: 10, line: 1 },
+      { text: 'second line', start: 14, end: 25, line: 3 }
+    ]);
+  });
+
+  it('長い行は文に分割する', () => {
+    const sentence = 'The vector index stores chunk embeddings for every indexed file in the workspace.';
+    const line = `${sentence} ${sentence} 検索はコサイン類似度で行う。結果はスコア順に並ぶ。`;
+    const segments = splitHighlightSegments(line);
+
+    expect(segments.map(segment => segment.text)).toEqual([sentence, sentence, '検索はコサイン類似度で行う。', '結果はスコア順に並ぶ。']);
+    segments.forEach(segment => expect(line.slice(segment.start, segment.end)).toBe(segment.text));
+  });
+});
+
+describe('generateHighlights', () => {
+  it('クエリと語彙が重なる行をスコア順に返し、ファイル内の行番号に変換する', async () => {
+    const highlights = await generateHighlights('handleToolsCall TOOL_NOT_FOUND', code, { startLine: 10 });
+
+    // 3行目は構成語 tools だけが一致する
+    expect(highlights.map(highlight => highlight.line)).toEqual([11, 13, 12]);
+    expect(highlights[0].text).toBe('async handleToolsCall(request: MCPRequest) {');
+    expect(code.slice(highlights[0].start, highlights[0].end)).toBe(highlights[0].text);
+    expect(highlights[0].score).toBeGreaterThan(highlights[2].score);
+  });
+
+  it('行の対応表があれば本体を省略したアウトラインの行をファイルの行番号に変換する', async () => {
+    const outline = 'export class Shape {\n  draw(): void { … }\n\n  area(): number { … }\n}';
+    const highlights = await generateHighlights('area', outline, { startLine: 8, lineMap: [8, 9, 12, 13, 16] });
+
+    expect(highlights.map(highlight => highlight.line)).toEqual([13]);
+  });
+
+  it('一致する行がなければ空配列を返す', async () => {
+    expect(await generateHighlights('embedding cache', code)).toEqual([]);
+  });
+
+  it('文単位の埋め込み類似度を語彙の重なりと組み合わせる', async () => {
+    const content = 'alpha line\nbeta line\ngamma line';
+    const vectors: Record<string, number[]> = {
+      'alpha line': [1, 0],
+      'beta line': [0, 1],
+      'gamma line': [0.6, 0.8]
+    };
+
+    const highlights = await generateHighlights('unrelated words', content, {
+      maxHighlights: 2,
+      semantic: { queryVector: [0, 1], embed: async texts => texts.map(text => vectors[text]) }
+    });
+
+    expect(highlights.map(highlight => highlight.text)).toEqual(['beta line', 'gamma line']);
+    expect(highlights[0].score).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,453 @@
+/**
+ * インデックス管理のテストスイート
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CQMError } from '@cqm/shared';
+import { IndexManager, collectionNameFor, workspaceCollectionPrefix } from '../src/index/index.js';
+import { EmbeddingProvider, EmbeddingPrompts, formatEmbeddingInputs } from '../src/embedding/index.js';
+import { getTokenizerForModel } from '../src/tokenizer/index.js';
+import { VectorStore, VectorDocument, CollectionInfo } from '../src/vector/index.js';
+
+function createStubProvider(model: string, dimensions: number, prompts?: EmbeddingPrompts): EmbeddingProvider {
+  return {
+    generateEmbedding: async () => new Array(dimensions).fill(0.1),
+    generateBatchEmbeddings: async (texts: string[]) => texts.map(() => new Array(dimensions).fill(0.1)),
+    getDimensions: () => dimensions,
+    getMaxTokens: () => 8192,
+    isModelAvailable: async () => true,
+    getModelInfo: () => ({ name: model, dimensions, maxTokens: 8192, contextLength: 8192, description: 'stub', prompts })
+  };
+}
+
+// コレクションごとの次元数とベクトルを保持するだけのストア
+function createFakeStore(): VectorStore & { collections: Map<string, { dimensions: number; vectors: Map<string, VectorDocument> }> } {
+  const collections = new Map<string, { dimensions: number; vectors: Map<string, VectorDocument> }>();
+  const info = (name: string): CollectionInfo => {
+    const collection = collections.get(name);
+    if (!collection) {
+      throw new Error(`Collection ${name} not found`);
+    }
+    return { name, vectorCount: collection.vectors.size, dimensions: collection.dimensions, indexedAt: new Date(), status: 'ready' };
+  };
+
+  return {
+    collections,
+    initialize: async () => {},
+    createCollection: async (name, dimensions) => {
+      if (!collections.has(name)) {
+        collections.set(name, { dimensions, vectors: new Map() });
+      }
+    },
+    deleteCollection: async name => { collections.delete(name); },
+    upsertVectors: async (name, vectors) => {
+      vectors.forEach(vector => collections.get(name)!.vectors.set(vector.id, vector));
+    },
+    search: async () => [],
+    deleteVectors: async (name, ids) => { ids.forEach(id => collections.get(name)?.vectors.delete(id)); },
+    getCollectionInfo: async name => info(name),
+    listCollections: async () => Array.from(collections.keys()).map(info)
+  };
+}
+
+describe('IndexManager', () => {
+  let directory: string;
+  let manifestPath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cqm-index-'));
+    manifestPath = join(directory, '.cqm', 'index', 'manifest.json');
+    writeFileSync(join(directory, 'notes.md'), '# Notes\n\nEmbedding migration test document.');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('埋め込みモデル移行', () => {
+    it('マニフェストにコレクションと埋め込みモデルを記録し、再起動時に引き継ぐ', async () => {
+      const store = createFakeStore();
+      const first = new IndexManager(createStubProvider('model-a', 4), store, {}, { manifestPath, embeddingProviderName: 'local' });
+      await first.initialize();
+
+      const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+      expect(manifest.embedding).toEqual({ provider: 'local', model: 'model-a', dimensions: 4 });
+
+      const second = new IndexManager(createStubProvider('model-a', 4), store, {}, { manifestPath });
+      await second.initialize();
+
+      expect(second.getIndexMetadata().id).toBe(manifest.id);
+      expect(second.getMigrationStatus()).toBeNull();
+    });
+
+    it('次元数の変更を検出し、移行完了まで旧コレクションを検索対象に維持する', async () => {
+      const store = createFakeStore();
+      const options = { basePaths: [directory], includePatterns: ['**/*.md'] };
+
+      const original = new IndexManager(createStubProvider('model-a', 4), store, options, { manifestPath });
+      await original.indexDocuments([join(directory, 'notes.md')]);
+      const oldCollection = original.getIndexMetadata().id;
+
+      const upgraded = new IndexManager(createStubProvider('model-b', 8), store, options, { manifestPath });
+      await upgraded.initialize();
+
+      const pending = upgraded.getMigrationStatus()!;
+      expect(pending.state).toBe('pending');
+      expect(pending.reason).toBe('dimensions 4 → 8');
+      expect(upgraded.getSearchCollection()).toBe(oldCollection);
+
+      await upgraded.migrate();
+
+      const newCollection = upgraded.getIndexMetadata().id;
+      expect(upgraded.getMigrationStatus()!.state).toBe('completed');
+      expect(upgraded.getSearchCollection()).toBe(newCollection);
+      expect(store.collections.has(oldCollection)).toBe(false);
+      expect(store.collections.get(newCollection)!.dimensions).toBe(8);
+      expect(store.collections.get(newCollection)!.vectors.size).toBeGreaterThan(0);
+      expect(JSON.parse(readFileSync(manifestPath, 'utf-8')).id).toBe(newCollection);
+    });
+
+    it('再埋め込みに失敗したファイルがあれば移行を失敗にし、旧コレクションを残して検索を続ける', async () => {
+      const store = createFakeStore();
+      const options = { basePaths: [directory], includePatterns: ['**/*.md'] };
+
+      const original = new IndexManager(createStubProvider('model-a', 4), store, options, { manifestPath });
+      await original.indexDocuments([join(directory, 'notes.md')]);
+      const oldCollection = original.getIndexMetadata().id;
+
+      const unavailable = createStubProvider('model-b', 8);
+      unavailable.generateBatchEmbeddings = async () => { throw new Error('connect ECONNREFUSED'); };
+      const upgraded = new IndexManager(unavailable, store, options, { manifestPath });
+      await upgraded.initialize();
+
+      await expect(upgraded.migrate()).rejects.toThrow(/1 of 1 files could not be re-embedded/);
+
+      const status = upgraded.getMigrationStatus()!;
+      expect(status.state).toBe('failed');
+      expect(status.error).toContain('ECONNREFUSED');
+      expect(upgraded.getSearchCollection()).toBe(oldCollection);
+      expect(store.collections.get(oldCollection)!.vectors.size).toBeGreaterThan(0);
+      expect(JSON.parse(readFileSync(manifestPath, 'utf-8')).id).toBe(oldCollection);
+    });
+
+    it('一部のチャンクを埋め込めなかったファイルは失敗として数え、未変更でも次回再試行する', async () => {
+      const store = createFakeStore();
+      const options = { basePaths: [directory], includePatterns: ['**/*.md'] };
+      const filePath = join(directory, 'notes.md');
+      writeFileSync(filePath, '# Notes\n\nFirst section.\n\n## Details\n\nSecond section.');
+
+      const original = new IndexManager(createStubProvider('model-a', 4), store, options, { manifestPath });
+      await original.indexDocuments([filePath]);
+      const oldCollection = original.getIndexMetadata().id;
+
+      const provider = createStubProvider('model-b', 8);
+      const embed = vi.fn(async (texts: string[]) => {
+        if (embed.mock.calls.length > 1) {
+          return texts.map(() => new Array(8).fill(0.1));
+        }
+        throw new CQMError(`Failed to embed 1 of ${texts.length} texts`, 'PARTIAL_EMBEDDING_ERROR', {
+          embeddings: texts.map((_, index) => index === 0 ? null : new Array(8).fill(0.1)),
+          failures: [{ index: 0, error: 'input too long' }]
+        });
+      });
+      provider.generateBatchEmbeddings = embed;
+      const upgraded = new IndexManager(provider, store, options, { manifestPath });
+      await upgraded.initialize();
+
+      await expect(upgraded.migrate()).rejects.toThrow(/1 of 1 files could not be re-embedded/);
+      expect(upgraded.getSearchCollection()).toBe(oldCollection);
+      const failed = upgraded.getDocumentIndex(filePath)!;
+      expect(failed.status).toBe('error');
+      expect(failed.error).toContain('input too long');
+
+      await upgraded.migrate();
+
+      expect(embed).toHaveBeenCalledTimes(2);
+      expect(upgraded.getMigrationStatus()!.state).toBe('completed');
+      expect(upgraded.getDocumentIndex(filePath)!.status).toBe('indexed');
+    });
+
+    it('同じ次元数でもモデル名の変更を検出する', async () => {
+      const store = createFakeStore();
+      const original = new IndexManager(createStubProvider('model-a', 4), store, {}, { manifestPath });
+      await original.indexDocuments([join(directory, 'notes.md')]);
+
+      const replaced = new IndexManager(createStubProvider('model-c', 4), store, {}, { manifestPath });
+      await replaced.initialize();
+
+      expect(replaced.getMigrationStatus()?.reason).toBe('model model-a → model-c');
+    });
+
+    it('ドキュメント用テンプレートを適用して埋め込み、テンプレート変更を検出する', async () => {
+      const store = createFakeStore();
+      const provider = createStubProvider('model-a', 4, { document: 'search_document: {text}' });
+      const batchSpy = vi.spyOn(provider, 'generateBatchEmbeddings');
+
+      const original = new IndexManager(provider, store, {}, { manifestPath });
+      await original.indexDocuments([join(directory, 'notes.md')]);
+
+      // テンプレートは埋め込むプロバイダーが適用するため、入力種別を渡す
+      const [embedded, input] = batchSpy.mock.calls[0];
+      expect(embedded.some(text => text.startsWith('search_document: '))).toBe(false);
+      expect(input).toMatchObject({ inputType: 'document' });
+
+      const changed = new IndexManager(createStubProvider('model-a', 4), store, {}, { manifestPath });
+      await changed.initialize();
+
+      expect(changed.getMigrationStatus()?.reason).toBe('document prompt templates changed');
+    });
+
+    it('パス・パッケージ名・所属クラス・使われているインポートを付けて埋め込み、本文は元のまま保存する', async () => {
+      const store = createFakeStore();
+      const provider = createStubProvider('model-a', 4);
+      const batchSpy = vi.spyOn(provider, 'generateBatchEmbeddings');
+      mkdirSync(join(directory, 'src'));
+      writeFileSync(join(directory, 'package.json'), JSON.stringify({ name: '@cqm/example' }));
+      const sourcePath = join(directory, 'src', 'manager.ts');
+      writeFileSync(sourcePath, [
+        "import { readFile } from 'fs/promises';",
+        "import { join } from 'path';",
+        '',
+        'export class IndexManager {',
+        '  async initialize(): Promise<void> {',
+        "    await readFile('manifest.json');",
+        '  }',
+        '}'
+      ].join('\n'));
+
+      const manager = new IndexManager(provider, store, { basePaths: [directory] }, { manifestPath, enrichment: { enabled: true } });
+      await manager.indexDocuments([sourcePath]);
+
+      const embedded = batchSpy.mock.calls[0][0];
+      const method = embedded.find(text => text.includes("readFile('manifest.json')"))!;
+      expect(method).toBe([
+        'File: src/manager.ts',
+        'Package: @cqm/example',
+        'Scope: IndexManager',
+        "import { readFile } from 'fs/promises';",
+        '',
+        'async initialize(): Promise<void> {',
+        "    await readFile('manifest.json');",
+        '  }'
+      ].join('\n'));
+
+      const [hit] = manager.searchLexical('manifest');
+      expect(hit.document.payload.content.startsWith('async initialize')).toBe(true);
+    });
+
+    it('付加した文脈とプロンプトテンプレートを含めてモデルの入力上限に収まるよう分割する', async () => {
+      const store = createFakeStore();
+      const provider = { ...createStubProvider('model-a', 4, { document: 'search_document: {text}' }), getMaxTokens: () => 64 };
+      const batchSpy = vi.spyOn(provider, 'generateBatchEmbeddings');
+      const notesPath = join(directory, 'long-notes.txt');
+      writeFileSync(notesPath, Array.from({ length: 30 }, (_, i) => `Sentence number ${i} explains one detail.`).join(' '));
+
+      const manager = new IndexManager(provider, store, { basePaths: [directory] }, { manifestPath, enrichment: { enabled: true } });
+      await manager.indexDocuments([notesPath]);
+
+      const tokenizer = getTokenizerForModel('model-a');
+      const [embedded, input] = batchSpy.mock.calls[0];
+      expect(embedded.length).toBeGreaterThan(1);
+      formatEmbeddingInputs(embedded, provider.getModelInfo().prompts, input).forEach(text => {
+        expect(text.startsWith('search_document: File: long-notes.txt')).toBe(true);
+        expect(tokenizer.countTokens(text)).toBeLessThanOrEqual(64);
+      });
+    });
+
+    it('文脈付加の有効・無効を切り替えると別のコレクションへ移行し、無効時は付加前と同じ名前になる', async () => {
+      const store = createFakeStore();
+      const enriched = new IndexManager(createStubProvider('model-a', 4), store, { basePaths: [directory] }, {
+        manifestPath,
+        enrichment: { enabled: true }
+      });
+      await enriched.indexDocuments([join(directory, 'notes.md')]);
+
+      const plain = new IndexManager(createStubProvider('model-a', 4), store, { basePaths: [directory] }, {
+        manifestPath,
+        enrichment: { enabled: false }
+      });
+      await plain.initialize();
+
+      expect(plain.getMigrationStatus()?.reason).toBe('chunk enrichment template changed');
+      expect(plain.getIndexMetadata().id).not.toBe(enriched.getIndexMetadata().id);
+      expect(plain.getIndexMetadata().id).toBe(collectionNameFor(directory, { model: 'model-a', dimensions: 4 }));
+    });
+  });
+
+  describe('コレクション命名', () => {
+    it('ワークスペースと埋め込みモデルから決定的なコレクション名を導出する', async () => {
+      const store = createFakeStore();
+      const first = new IndexManager(createStubProvider('model-a', 4), store, { basePaths: [directory] });
+      const second = new IndexManager(createStubProvider('model-a', 4), store, { basePaths: [directory] });
+      const otherModel = new IndexManager(createStubProvider('model-b', 4), store, { basePaths: [directory] });
+      const otherWorkspace = new IndexManager(createStubProvider('model-a', 4), store, { basePaths: [tmpdir()] });
+
+      const name = first.getIndexMetadata().id;
+      expect(name.startsWith(workspaceCollectionPrefix(directory))).toBe(true);
+      expect(second.getIndexMetadata().id).toBe(name);
+      expect(otherModel.getIndexMetadata().id).not.toBe(name);
+      expect(otherWorkspace.getIndexMetadata().id).not.toBe(name);
+
+      await first.initialize();
+      expect(first.getSearchCollection()).toBe(name);
+      expect(store.collections.has(name)).toBe(true);
+    });
+
+    it('モデルの距離関数でコレクションを作成し、cosine 以外の場合は別のコレクション名にする', async () => {
+      const store = createFakeStore();
+      const createCollection = vi.spyOn(store, 'createCollection');
+      const cosine = createStubProvider('model-a', 4);
+      const dot = { ...cosine, getModelInfo: () => ({ ...cosine.getModelInfo(), distance: 'dot' as const }) };
+      const explicitCosine = { ...cosine, getModelInfo: () => ({ ...cosine.getModelInfo(), distance: 'cosine' as const }) };
+
+      const manager = new IndexManager(dot, store, { basePaths: [directory] }, { manifestPath });
+      await manager.initialize();
+
+      const name = manager.getIndexMetadata().id;
+      expect(name).toBe(collectionNameFor(directory, { model: 'model-a', dimensions: 4, distance: 'dot' }));
+      expect(name).not.toBe(collectionNameFor(directory, { model: 'model-a', dimensions: 4 }));
+      expect(createCollection).toHaveBeenCalledWith(name, 4, 'dot');
+      expect(JSON.parse(readFileSync(manifestPath, 'utf-8')).embedding.distance).toBe('dot');
+
+      const switched = new IndexManager(explicitCosine, store, { basePaths: [directory] }, { manifestPath });
+      expect(switched.getIndexMetadata().id).toBe(collectionNameFor(directory, { model: 'model-a', dimensions: 4 }));
+    });
+
+    it('旧バージョンのランダム名コレクションから決定的な名前へ移行する', async () => {
+      const store = createFakeStore();
+      const options = { basePaths: [directory], includePatterns: ['**/*.md'] };
+      const legacy = 'cqm-index-1700000000000-abc123def';
+      await store.createCollection(legacy, 4);
+      await store.upsertVectors(legacy, [{
+        id: 'legacy-1',
+        vector: [0.1, 0.1, 0.1, 0.1],
+        payload: { content: 'legacy', metadata: { source: 'notes.md', type: 'markdown', lastModified: new Date(), size: 6 } }
+      }]);
+      mkdirSync(join(directory, '.cqm', 'index'), { recursive: true });
+      writeFileSync(manifestPath, JSON.stringify({
+        id: legacy,
+        name: 'CQM Default Index',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        version: '1.0.0',
+        embedding: { model: 'model-a', dimensions: 4 }
+      }));
+
+      const manager = new IndexManager(createStubProvider('model-a', 4), store, options, { manifestPath });
+      await manager.initialize();
+
+      const expected = collectionNameFor(directory, { model: 'model-a', dimensions: 4 });
+      expect(manager.getMigrationStatus()?.reason).toBe(`collection renamed ${legacy} → ${expected}`);
+      expect(manager.getCollectionReference().name).toBe(legacy);
+
+      await manager.migrate();
+
+      expect(manager.getCollectionReference().name).toBe(expected);
+      expect(store.collections.has(legacy)).toBe(false);
+      expect(JSON.parse(readFileSync(manifestPath, 'utf-8')).id).toBe(expected);
+    });
+
+    it('参照されなくなったコレクションを検出して削除する', async () => {
+      const store = createFakeStore();
+      const manager = new IndexManager(createStubProvider('model-a', 4), store, { basePaths: [directory] });
+      await manager.initialize();
+
+      const active = manager.getIndexMetadata().id;
+      const staleModel = collectionNameFor(directory, { model: 'model-old', dimensions: 4 });
+      const otherWorkspace = collectionNameFor(tmpdir(), { model: 'model-a', dimensions: 4 });
+      for (const name of ['cqm-index-1700000000000-abc123def', 'cqm-default', staleModel, otherWorkspace, 'unrelated']) {
+        await store.createCollection(name, 4);
+      }
+
+      // 旧バージョンのコレクションは他のワークスペースのものでありうるため、既定では対象外
+      const orphaned = (await manager.findOrphanedCollections()).map(collection => collection.name);
+      expect(orphaned).toEqual([staleModel]);
+      const withLegacy = (await manager.findOrphanedCollections({ includeLegacy: true })).map(collection => collection.name);
+      expect(withLegacy.sort()).toEqual(['cqm-default', 'cqm-index-1700000000000-abc123def', staleModel].sort());
+
+      expect(await manager.removeOrphanedCollections()).toEqual([staleModel]);
+      expect(Array.from(store.collections.keys()).sort())
+        .toEqual([active, 'cqm-index-1700000000000-abc123def', 'cqm-default', otherWorkspace, 'unrelated'].sort());
+
+      const removed = await manager.removeOrphanedCollections({ includeLegacy: true });
+      expect(removed.sort()).toEqual(['cqm-default', 'cqm-index-1700000000000-abc123def']);
+      expect(Array.from(store.collections.keys()).sort()).toEqual([active, otherWorkspace, 'unrelated'].sort());
+    });
+  });
+
+  describe('語彙インデックス', () => {
+    it('ベクトルと同じチャンクを BM25 で索引し、削除と永続化に追従する', async () => {
+      const store = createFakeStore();
+      const lexicalIndexPath = join(directory, '.cqm', 'index', 'lexical.json');
+      const sourcePath = join(directory, 'handler.ts');
+      writeFileSync(sourcePath, 'export function handleToolsCall() {\n  throw new Error("RAG_ERROR");\n}\n');
+
+      const manager = new IndexManager(createStubProvider('model-a', 4), store, { basePaths: [directory] }, { lexicalIndexPath });
+      await manager.indexDocuments([sourcePath, join(directory, 'notes.md')]);
+
+      const [hit] = manager.searchLexical('handleToolsCall');
+      expect(hit.document.payload.metadata.source).toBe(sourcePath);
+      expect(manager.getDocumentIndex(sourcePath)!.vectorIds).toContain(hit.id);
+
+      const restarted = new IndexManager(createStubProvider('model-a', 4), store, { basePaths: [directory] }, { lexicalIndexPath });
+      await restarted.initialize();
+      expect(restarted.searchLexical('RAG_ERROR').map(result => result.id)).toEqual([hit.id]);
+
+      await manager.removeDocument(sourcePath);
+      expect(manager.searchLexical('handleToolsCall')).toEqual([]);
+      expect(manager.searchLexical('migration')).toHaveLength(1);
+    });
+
+    it('メソッドのチャンクから親のクラスのアウトラインと兄弟のメソッドを引く', async () => {
+      const store = createFakeStore();
+      const sourcePath = join(directory, 'engine.ts');
+      writeFileSync(sourcePath, [
+        'export class Engine {',
+        '  start(): void {',
+        '    this.run();',
+        '  }',
+        '',
+        '  stop(): void {',
+        '    this.halt();',
+        '  }',
+        '}',
+        ''
+      ].join('\n'));
+
+      const manager = new IndexManager(createStubProvider('model-a', 4), store, { basePaths: [directory] });
+      await manager.indexDocuments([sourcePath]);
+
+      const [hit] = manager.searchLexical('halt');
+      const parentId = hit.document.payload.chunks![0].parentId!;
+      const family = manager.getChunkFamily(sourcePath, parentId);
+
+      expect(family.parent!.payload.content).toContain('stop(): void { … }');
+      expect(family.children.map(child => child.payload.chunks![0].title)).toEqual(['start', 'stop']);
+    });
+  });
+
+  describe('リビジョン', () => {
+    it('ドキュメントの追加・削除で変わり、未変更ファイルの再インデックスでは変わらない', async () => {
+      const store = createFakeStore();
+      const notesPath = join(directory, 'notes.md');
+      const manager = new IndexManager(createStubProvider('model-a', 4), store, { basePaths: [directory], enableIncremental: true });
+      await manager.initialize();
+
+      const initial = manager.getRevision();
+      await manager.indexDocuments([notesPath]);
+      const indexed = manager.getRevision();
+      expect(indexed).not.toBe(initial);
+
+      await manager.indexDocuments([notesPath]);
+      expect(manager.getRevision()).toBe(indexed);
+
+      await manager.removeDocument(notesPath);
+      expect(manager.getRevision()).not.toBe(indexed);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * インデックス対象ファイルの include / exclude パターンのテストスイート
+ */
+import { describe, it, expect } from 'vitest';
+import { matchesIndexPatterns } from '../src/index/patterns.js';
+
+describe('matchesIndexPatterns', () => {
+  it('** は0個以上のディレクトリに一致する', () => {
+    expect(matchesIndexPatterns('index.ts', ['**/*.ts'])).toBe(true);
+    expect(matchesIndexPatterns('packages/rag/src/index.ts', ['**/*.ts'])).toBe(true);
+    expect(matchesIndexPatterns('packages/rag/tests/lexical.test.ts', ['**/*.test.*'])).toBe(true);
+    expect(matchesIndexPatterns('dist/esm/index.js', ['dist/**'])).toBe(true);
+    expect(matchesIndexPatterns('packages/rag/dist/index.js', ['packages/**/dist/**'])).toBe(true);
+  });
+
+  it('* と ? はディレクトリ区切りをまたがない', () => {
+    expect(matchesIndexPatterns('README.md', ['*.md'])).toBe(true);
+    expect(matchesIndexPatterns('docs/README.md', ['*.md'])).toBe(false);
+    expect(matchesIndexPatterns('src/a.ts', ['src/?.ts'])).toBe(true);
+    expect(matchesIndexPatterns('src/ab.ts', ['src/?.ts'])).toBe(false);
+  });
+
+  it('正規表現の特殊文字を文字どおりに扱う', () => {
+    expect(matchesIndexPatterns('src/index.ts', ['**/*.ts'])).toBe(true);
+    expect(matchesIndexPatterns('src/indexets', ['**/*.ts'])).toBe(false);
+    expect(matchesIndexPatterns('src/(generated)/a+b.ts', ['src/(generated)/a+b.ts'])).toBe(true);
+  });
+
+  it('パス全体と照合し、いずれかのパターンに一致すれば true を返す', () => {
+    expect(matchesIndexPatterns('lib/node_modules/x.js', ['node_modules/**'])).toBe(false);
+    expect(matchesIndexPatterns('node_modules2/x.js', ['node_modules/**'])).toBe(false);
+    expect(matchesIndexPatterns('notes.txt', ['**/*.ts', '**/*.md'])).toBe(false);
+    expect(matchesIndexPatterns('notes.md', ['**/*.ts', '**/*.md'])).toBe(true);
+    expect(matchesIndexPatterns('notes.md', [])).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * 語彙検索（BM25）と順位融合のテストスイート
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BM25Index, tokenizeForLexicalSearch, reciprocalRankFusion } from '../src/lexical/index.js';
+import { VectorDocument, SearchResult } from '../src/vector/index.js';
+
+function createDocument(id: string, content: string, source = `${id}.ts`, language = 'typescript'): VectorDocument {
+  return {
+    id,
+    vector: [0.1, 0.2],
+    payload: {
+      content,
+      metadata: { source, type: 'typescript', language, lastModified: new Date('2024-01-01'), size: content.length }
+    }
+  };
+}
+
+function ranked(...ids: string[]): SearchResult[] {
+  return ids.map((id, index) => ({ id, score: 1 - index * 0.1, document: createDocument(id, id) }));
+}
+
+describe('tokenizeForLexicalSearch', () => {
+  it('識別子を全体と camelCase・snake_case の構成語で分割する', () => {
+    expect(tokenizeForLexicalSearch('handleToolsCall(RAG_ERROR)')).toEqual([
+      'handletoolscall', 'handle', 'tools', 'call',
+      'rag_error', 'rag', 'error'
+    ]);
+    expect(tokenizeForLexicalSearch('HTTPServer')).toEqual(['httpserver', 'http', 'server']);
+  });
+
+  it('日本語は文字 bigram に分割する', () => {
+    expect(tokenizeForLexicalSearch('検索エンジン')).toEqual(['検索', '索エ', 'エン', 'ンジ', 'ジン']);
+  });
+});
+
+describe('BM25Index', () => {
+  let directory: string | undefined;
+
+  afterEach(() => {
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  it('識別子の完全一致を上位に返す', () => {
+    const index = new BM25Index();
+    index.add(createDocument('handler', 'async function handleToolsCall(request) { return tools.call(request); }'));
+    index.add(createDocument('other', 'function handleRequest() { /* tools are listed here */ }'));
+    index.add(createDocument('errors', "throw new CQMError('RAG failed', 'RAG_ERROR');"));
+
+    expect(index.search('handleToolsCall')[0].id).toBe('handler');
+    expect(index.search('RAG_ERROR')[0].id).toBe('errors');
+    expect(index.search('nothing matches')).toEqual([]);
+  });
+
+  it('削除したドキュメントとファイル単位の削除を反映する', () => {
+    const index = new BM25Index();
+    index.add(createDocument('a-1', 'alpha beta', 'a.ts'));
+    index.add(createDocument('a-2', 'alpha gamma', 'a.ts'));
+    index.add(createDocument('b-1', 'alpha delta', 'b.ts'));
+
+    expect(index.remove('b-1')).toBe(true);
+    expect(index.search('delta')).toEqual([]);
+
+    expect(index.removeBySource('a.ts')).toBe(2);
+    expect(index.size).toBe(0);
+    expect(index.search('alpha')).toEqual([]);
+  });
+
+  it('フィルターをベクトル検索と同じ意味論で適用する', () => {
+    const index = new BM25Index();
+    index.add(createDocument('ts', 'shared keyword', 'a.ts', 'typescript'));
+    index.add(createDocument('md', 'shared keyword', 'a.md', 'markdown'));
+
+    const results = index.search('keyword', { filters: { language: ['markdown'] } });
+    expect(results.map(result => result.id)).toEqual(['md']);
+  });
+
+  it('スナップショットへ保存して復元する', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'cqm-lexical-'));
+    const path = join(directory, 'lexical.json');
+
+    const index = new BM25Index();
+    index.add(createDocument('handler', 'handleToolsCall implementation'));
+    await index.save(path);
+
+    const restored = await BM25Index.load(path);
+    const results = restored.search('handleToolsCall');
+    expect(results.map(result => result.id)).toEqual(['handler']);
+    expect(results[0].document.payload.metadata.lastModified).toBeInstanceOf(Date);
+    expect(results[0].document.vector).toEqual([]);
+
+    expect((await BM25Index.load(join(directory, 'missing.json'))).size).toBe(0);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('両方のリストで上位の結果を優先し、スコアを 0〜1 に正規化する', () => {
+    const fused = reciprocalRankFusion([
+      { results: ranked('a', 'b', 'c') },
+      { results: ranked('a', 'c', 'd') }
+    ]);
+
+    expect(fused.map(result => result.id)).toEqual(['a', 'c', 'b', 'd']);
+    expect(fused[0].score).toBeCloseTo(1);
+    expect(fused.every(result => result.score > 0 && result.score <= 1)).toBe(true);
+  });
+
+  it('重みで一方のリストを優先し、重み 0 のリストは無視する', () => {
+    const lexicalHeavy = reciprocalRankFusion([
+      { results: ranked('vector-top', 'vector-second'), weight: 1 },
+      { results: ranked('lexical-top', 'lexical-second'), weight: 3 }
+    ], { limit: 1 });
+    expect(lexicalHeavy.map(result => result.id)).toEqual(['lexical-top']);
+
+    const vectorOnly = reciprocalRankFusion([
+      { results: ranked('x', 'y'), weight: 1 },
+      { results: ranked('z'), weight: 0 }
+    ]);
+    expect(vectorOnly.map(result => result.id)).toEqual(['x', 'y']);
+  });
+
+  it('minScore を下回る候補を融合前に除き、残りの順位で融合する', () => {
+    const fused = reciprocalRankFusion([
+      { results: ranked('a', 'b', 'c'), minScore: 0.85 },
+      { results: ranked('c', 'd', 'e'), minScore: 0.9 }
+    ]);
+
+    expect(fused.map(result => result.id)).toEqual(['a', 'c', 'b', 'd']);
+    // 1つ目のリストの c は下限未満のため加算されない
+    expect(fused[1].score).toBeCloseTo(fused[0].score);
+  });
+});
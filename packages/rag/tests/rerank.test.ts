@@ -0,0 +1,152 @@
+/**
+ * 再ランキングのテストスイート
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { CQMError } from '@cqm/shared';
+import {
+  CrossEncoderReranker,
+  LexicalOverlapReranker,
+  Reranker,
+  SymbolMatchReranker,
+  rerankResults
+} from '../src/rerank/index.js';
+import type { SearchResult } from '../src/vector/index.js';
+
+function createResult(id: string, score: number, content: string, chunk?: { title?: string; symbols?: string[] }): SearchResult {
+  return {
+    id,
+    score,
+    document: {
+      id,
+      vector: [],
+      payload: {
+        content,
+        metadata: { source: `${id}.ts`, type: 'typescript', lastModified: new Date('2024-06-01T00:00:00Z'), size: content.length },
+        chunks: chunk ? [{ index: 0, type: 'function', ...chunk }] : undefined
+      }
+    }
+  };
+}
+
+const candidates = [
+  createResult('engine', 0.9, 'class RAGEngine { async search() {} }', { title: 'RAGEngine', symbols: ['RAGEngine'] }),
+  createResult('tools', 0.8, 'semanticSearch calls the engine search', { title: 'createSemanticSearchHandler' }),
+  createResult('manager', 0.6, 'export class IndexManager { handleToolsCall() {} }', { title: 'IndexManager', symbols: ['handleToolsCall'] })
+];
+
+describe('組み込みの Reranker', () => {
+  it('LexicalOverlapReranker はクエリ語の重なりを前段のスコアと混ぜる', async () => {
+    const scores = await new LexicalOverlapReranker({ weight: 0.5 }).rerank('semantic search', [
+      { ...candidates[0], score: 1 },
+      { ...candidates[1], score: 0.5 }
+    ]);
+
+    expect(scores[0]).toBeCloseTo(0.75); // search のみ一致
+    expect(scores[1]).toBeCloseTo(0.75); // semantic・search の両方が一致
+  });
+
+  it('SymbolMatchReranker は識別子がシンボル名と完全一致した候補に加点する', async () => {
+    const scores = await new SymbolMatchReranker({ boost: 0.3 }).rerank('where is handleToolsCall defined', candidates);
+    expect(scores).toEqual([0.9, 0.8, 0.6 + 0.3]);
+
+    const caseMismatch = await new SymbolMatchReranker().rerank('handletoolscall', candidates);
+    expect(caseMismatch).toEqual([0.9, 0.8, 0.6]);
+  });
+});
+
+describe('CrossEncoderReranker', () => {
+  let server: Server;
+  let url: string;
+  const requests: any[] = [];
+
+  beforeAll(async () => {
+    // ローカルの再ランキングモデルの代わりに、文書の長さの逆順で関連度を返すスタブ
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => body += chunk);
+      request.on('end', () => {
+        const parsed = JSON.parse(body);
+        requests.push(parsed);
+        if (parsed.query === 'fail') {
+          response.writeHead(503).end('model not loaded');
+          return;
+        }
+        const results = parsed.documents.map((document: string, index: number) => ({
+          index,
+          relevance_score: 1 / document.length
+        }));
+        response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ results }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/rerank`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('エンドポイントの関連度を候補ごとのスコアとして返す', async () => {
+    const reranker = new CrossEncoderReranker({ url, model: 'bge-reranker-base' });
+    const scores = await reranker.rerank('engine', candidates);
+
+    expect(requests.at(-1)).toEqual({ model: 'bge-reranker-base', query: 'engine', documents: candidates.map(c => c.document.payload.content) });
+    expect(scores).toEqual(candidates.map(c => 1 / c.document.payload.content.length));
+  });
+
+  it('エラー応答は RERANK_ERROR にする', async () => {
+    const reranker = new CrossEncoderReranker({ url });
+    await expect(reranker.rerank('fail', candidates)).rejects.toThrow(CQMError);
+    await expect(reranker.rerank('fail', candidates)).rejects.toThrow('503');
+  });
+
+  it('rerankResults で設定から生成し、各段のスコアを explain に残す', async () => {
+    const results = await rerankResults('handleToolsCall', candidates, {
+      rerankers: [{ type: 'cross-encoder', url }, { type: 'symbol', boost: 1 }]
+    });
+
+    // クロスエンコーダーでは最下位の manager が、シンボル名の一致で最上位になる
+    const relevance = candidates.map(c => 1 / c.document.payload.content.length);
+    expect(results.map(result => result.id)).toEqual(['manager', 'engine', 'tools']);
+    expect(results[0].explain.retrieval).toBe(0.6);
+    expect(results[0].explain.stages.map(stage => stage.reranker)).toEqual(['cross-encoder', 'symbol']);
+    expect(results[0].explain.stages[0].score).toBeCloseTo(relevance[2]);
+    expect(results[0].explain.stages[1].score).toBeCloseTo(relevance[2] / relevance[0] + 1);
+  });
+});
+
+describe('rerankResults', () => {
+  it('上位 topN 件だけを並べ替え、残りは元の順位で続ける', async () => {
+    const reverse: Reranker = { name: 'reverse', rerank: async (_query, items) => items.map((_, index) => index) };
+    const results = await rerankResults('query', candidates, { topN: 2, rerankers: [reverse] });
+
+    expect(results.map(result => result.id)).toEqual(['tools', 'engine', 'manager']);
+    expect(results[2].explain).toEqual({ retrieval: 0.6, stages: [] });
+  });
+
+  it('前段のスコアを 0〜1 に正規化して渡す', async () => {
+    const received: number[] = [];
+    const recorder: Reranker = {
+      name: 'recorder',
+      rerank: async (_query, items) => items.map(item => {
+        received.push(item.score);
+        return item.score;
+      })
+    };
+
+    await rerankResults('query', candidates, { rerankers: [recorder] });
+    expect(received).toEqual([1, 0.8 / 0.9, 0.6 / 0.9]);
+  });
+
+  it('失敗した段は読み飛ばして前段の順位を保つ', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing: Reranker = { name: 'failing', rerank: async () => { throw new Error('offline'); } };
+
+    const results = await rerankResults('query', candidates, { rerankers: [failing, new SymbolMatchReranker()] });
+    expect(results.map(result => result.id)).toEqual(['engine', 'tools', 'manager']);
+    expect(results[0].explain.stages.map(stage => stage.reranker)).toEqual(['symbol']);
+    vi.restoreAllMocks();
+  });
+});
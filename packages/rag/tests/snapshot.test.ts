@@ -0,0 +1,218 @@
+/**
+ * インデックスのスナップショット（エクスポート・インポート）のテストスイート
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { gunzipSync, gzipSync } from 'zlib';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CQMError } from '@cqm/shared';
+import { InMemoryVectorStore, EmbeddedVectorStore, VectorDocument } from '../src/vector/index.js';
+import { BM25Index } from '../src/lexical/index.js';
+import { collectionNameFor, readIndexManifest, writeIndexManifest, EmbeddingFingerprint } from '../src/index/index.js';
+import { exportIndexSnapshot, importIndexSnapshot, readIndexSnapshotHeader } from '../src/snapshot/index.js';
+
+const embedding: EmbeddingFingerprint = { provider: 'ollama', model: 'nomic-embed-text', dimensions: 2 };
+
+function createDocument(source: string, chunkId: string, vector: number[], content: string): VectorDocument {
+  return {
+    id: `${source}-${chunkId}`,
+    vector,
+    payload: {
+      content,
+      metadata: { source, type: 'typescript', language: 'typescript', lastModified: new Date('2024-06-01T00:00:00Z'), size: content.length },
+      chunks: [{ index: 0, type: 'function', title: chunkId, startLine: 1, endLine: 3 }]
+    }
+  };
+}
+
+describe('インデックスのスナップショット', () => {
+  let directory: string;
+  let sourceRoot: string;
+  let targetRoot: string;
+  let archivePath: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    directory = mkdtempSync(join(tmpdir(), 'cqm-snapshot-'));
+    sourceRoot = join(directory, 'alice', 'repo');
+    targetRoot = join(directory, 'bob', 'checkout');
+    archivePath = join(directory, 'index.jsonl.gz');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function createSourceIndex(): Promise<{ store: InMemoryVectorStore; manifestPath: string }> {
+    const store = new InMemoryVectorStore();
+    await store.initialize();
+    const collection = collectionNameFor(sourceRoot, embedding);
+    await store.createCollection(collection, 2);
+    await store.upsertVectors(collection, [
+      createDocument(join(sourceRoot, 'src', 'server.ts'), 'func-0-handleToolsCall', [1, 0], 'function handleToolsCall() {}'),
+      createDocument(join(sourceRoot, 'src', 'engine.ts'), 'class-0-RAGEngine', [0, 1], 'class RAGEngine {}'),
+      createDocument(join(sourceRoot, 'README.md'), 'section-0', [0.6, 0.8], '# RAG engine')
+    ]);
+
+    const manifestPath = join(sourceRoot, '.cqm', 'index', 'manifest.json');
+    await writeIndexManifest(manifestPath, {
+      id: collection,
+      name: 'CQM Default Index',
+      createdAt: '2024-06-01T00:00:00.000Z',
+      updatedAt: '2024-06-02T00:00:00.000Z',
+      version: '1.0.0',
+      embedding
+    });
+    return { store, manifestPath };
+  }
+
+  it('ワークスペースからの相対パスでチャンクとベクトルを書き出す', async () => {
+    const { store, manifestPath } = await createSourceIndex();
+
+    const result = await exportIndexSnapshot({ store, workspaceRoot: sourceRoot, manifestPath, archivePath, batchSize: 2 });
+    expect(result.chunkCount).toBe(3);
+
+    const lines = gunzipSync(readFileSync(archivePath)).toString('utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines[0]).toMatchObject({ format: 'cqm-index-snapshot', version: 1, embedding, manifest: { id: result.collection } });
+    expect(lines.slice(1).map(line => line.id).sort()).toEqual([
+      'README.md-section-0',
+      'src/engine.ts-class-0-RAGEngine',
+      'src/server.ts-func-0-handleToolsCall'
+    ]);
+    expect(lines[1].vector).toEqual([1, 0]);
+    expect((await readIndexSnapshotHeader(archivePath)).manifest.name).toBe('CQM Default Index');
+  });
+
+  it('別のワークスペース・別のベクトルストアへ復元し、マニフェストと語彙インデックスを書き換える', async () => {
+    const { store, manifestPath } = await createSourceIndex();
+    await exportIndexSnapshot({ store, workspaceRoot: sourceRoot, manifestPath, archivePath });
+
+    const target = new EmbeddedVectorStore({ directory: join(targetRoot, '.cqm', 'vectors') });
+    await target.initialize();
+    const targetManifestPath = join(targetRoot, '.cqm', 'index', 'manifest.json');
+    const lexicalIndexPath = join(targetRoot, '.cqm', 'index', 'lexical.json');
+
+    const result = await importIndexSnapshot({
+      store: target,
+      workspaceRoot: targetRoot,
+      archivePath,
+      manifestPath: targetManifestPath,
+      lexicalIndexPath,
+      embedding
+    });
+
+    expect(result.collection).toBe(collectionNameFor(targetRoot, embedding));
+    expect(result.chunkCount).toBe(3);
+
+    const [hit] = await target.search(result.collection, { vector: [1, 0], limit: 1 });
+    expect(hit.id).toBe(`${join(targetRoot, 'src', 'server.ts')}-func-0-handleToolsCall`);
+    expect(hit.document.payload.metadata.source).toBe(join(targetRoot, 'src', 'server.ts'));
+    expect(hit.document.payload.metadata.lastModified).toBeInstanceOf(Date);
+
+    const manifest = await readIndexManifest(targetManifestPath);
+    expect(manifest).toMatchObject({ id: result.collection, createdAt: '2024-06-01T00:00:00.000Z', embedding });
+
+    const lexical = await BM25Index.load(lexicalIndexPath);
+    expect(lexical.search('RAGEngine')[0].id).toBe(`${join(targetRoot, 'src', 'engine.ts')}-class-0-RAGEngine`);
+  });
+
+  it('埋め込みモデルや次元数が異なる場合はインポートを拒否する', async () => {
+    const { store, manifestPath } = await createSourceIndex();
+    await exportIndexSnapshot({ store, workspaceRoot: sourceRoot, manifestPath, archivePath });
+
+    const target = new InMemoryVectorStore();
+    await target.initialize();
+    const importWith = (current: EmbeddingFingerprint) => importIndexSnapshot({
+      store: target,
+      workspaceRoot: targetRoot,
+      archivePath,
+      manifestPath: join(targetRoot, '.cqm', 'index', 'manifest.json'),
+      embedding: current
+    });
+
+    await expect(importWith({ ...embedding, model: 'text-embedding-3-small' })).rejects.toThrow('model nomic-embed-text');
+    await expect(importWith({ ...embedding, dimensions: 768 })).rejects.toThrow(CQMError);
+    expect(await target.listCollections()).toEqual([]);
+  });
+
+  it('途中で壊れたアーカイブでは既存のインデックス・マニフェスト・語彙インデックスを変更しない', async () => {
+    const { store, manifestPath } = await createSourceIndex();
+    await exportIndexSnapshot({ store, workspaceRoot: sourceRoot, manifestPath, archivePath });
+    const targetManifestPath = join(targetRoot, '.cqm', 'index', 'manifest.json');
+    const lexicalIndexPath = join(targetRoot, '.cqm', 'index', 'lexical.json');
+    const importArchive = (path: string) => importIndexSnapshot({
+      store: target,
+      workspaceRoot: targetRoot,
+      archivePath: path,
+      manifestPath: targetManifestPath,
+      lexicalIndexPath,
+      embedding,
+      batchSize: 1
+    });
+
+    const target = new InMemoryVectorStore();
+    await target.initialize();
+    const { collection } = await importArchive(archivePath);
+    const manifest = readFileSync(targetManifestPath, 'utf-8');
+    const lexical = readFileSync(lexicalIndexPath, 'utf-8');
+
+    // 2件目のチャンクの途中で切れたアーカイブ
+    const lines = gunzipSync(readFileSync(archivePath)).toString('utf-8').split('\n');
+    const truncatedPath = join(directory, 'truncated.jsonl.gz');
+    writeFileSync(truncatedPath, gzipSync([lines[0], lines[1], lines[2].slice(0, 40)].join('\n')));
+
+    await expect(importArchive(truncatedPath)).rejects.toThrow(CQMError);
+
+    expect((await target.listCollections()).map(info => info.name)).toEqual([collection]);
+    expect((await target.getCollectionInfo(collection)).vectorCount).toBe(3);
+    expect(readFileSync(targetManifestPath, 'utf-8')).toBe(manifest);
+    expect(readFileSync(lexicalIndexPath, 'utf-8')).toBe(lexical);
+  });
+
+  it('既存のコレクションを削除した後に置き換えに失敗した場合は一時コレクションを残して参照する', async () => {
+    const { store, manifestPath } = await createSourceIndex();
+    await exportIndexSnapshot({ store, workspaceRoot: sourceRoot, manifestPath, archivePath });
+    const targetManifestPath = join(targetRoot, '.cqm', 'index', 'manifest.json');
+    const collection = collectionNameFor(targetRoot, embedding);
+
+    const target = new InMemoryVectorStore();
+    await target.initialize();
+    await target.createCollection(collection, 2);
+    await target.upsertVectors(collection, [createDocument(join(targetRoot, 'old.ts'), 'func-0-old', [1, 0], 'function old() {}')]);
+    const upsertVectors = target.upsertVectors.bind(target);
+    vi.spyOn(target, 'upsertVectors').mockImplementation(async (name, vectors) => {
+      if (name === collection) {
+        throw new Error('disk full');
+      }
+      return upsertVectors(name, vectors);
+    });
+
+    const error = await importIndexSnapshot({
+      store: target,
+      workspaceRoot: targetRoot,
+      archivePath,
+      manifestPath: targetManifestPath,
+      embedding
+    }).catch(error => error);
+
+    expect(error).toMatchObject({ code: 'SNAPSHOT_ERROR', details: { collection: `${collection}-import` } });
+    expect((await target.getCollectionInfo(`${collection}-import`)).vectorCount).toBe(3);
+    expect((await readIndexManifest(targetManifestPath))!.id).toBe(`${collection}-import`);
+  });
+
+  it('スナップショットでないファイルやマニフェストのないインデックスはエラーにする', async () => {
+    const { store } = await createSourceIndex();
+    const notSnapshot = join(directory, 'plain.gz');
+    writeFileSync(notSnapshot, 'not gzip');
+
+    await expect(readIndexSnapshotHeader(notSnapshot)).rejects.toThrow();
+    await expect(exportIndexSnapshot({
+      store,
+      workspaceRoot: sourceRoot,
+      manifestPath: join(directory, 'missing.json'),
+      archivePath
+    })).rejects.toThrow('No index manifest');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * トークナイザーのテストスイート
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  BpeApproxTokenizer,
+  WordPieceApproxTokenizer,
+  getTokenizerForModel,
+  splitByTokens
+} from '../src/tokenizer/index.js';
+
+describe('getTokenizerForModel', () => {
+  it('モデルファミリーに応じたトークナイザーを返す', () => {
+    expect(getTokenizerForModel('nomic-embed-text').name).toBe('wordpiece-approx');
+    expect(getTokenizerForModel('all-minilm').name).toBe('wordpiece-approx');
+    expect(getTokenizerForModel('text-embedding-3-small').name).toBe('bpe-approx');
+    expect(getTokenizerForModel('unknown-model').name).toBe('bpe-approx');
+  });
+});
+
+describe('近似トークナイザー', () => {
+  it('WordPieceは記号と識別子を細かく分割し、特殊トークンを加算する', () => {
+    const wordPiece = new WordPieceApproxTokenizer();
+    const bpe = new BpeApproxTokenizer();
+    const code = 'const handleToolsCall = async (request: MCPRequest) => { return null; };';
+
+    expect(wordPiece.countTokens('hello world')).toBe(4); // hello, world, [CLS], [SEP]
+    expect(wordPiece.countTokens(code)).toBeGreaterThan(bpe.countTokens(code));
+  });
+
+  it('CJKは1文字ごとにトークン化する', () => {
+    expect(new BpeApproxTokenizer().countTokens('埋め込み')).toBe(4);
+  });
+
+  it('空文字列は0トークン', () => {
+    expect(new WordPieceApproxTokenizer().countTokens('')).toBe(0);
+  });
+});
+
+describe('splitByTokens', () => {
+  const tokenizer = new BpeApproxTokenizer();
+  const lines = Array.from({ length: 30 }, (_, i) => `line ${i} with some words`);
+  const text = lines.join('\n');
+
+  it('上限内のテキストはそのまま返す', () => {
+    expect(splitByTokens('short text', tokenizer, 100)).toEqual([
+      { content: 'short text', start: 0, end: 10, tokenCount: 2 }
+    ]);
+  });
+
+  it('上限を超えるテキストを改行位置で分割し、重複させる', () => {
+    const splits = splitByTokens(text, tokenizer, 40, 8);
+
+    expect(splits.length).toBeGreaterThan(1);
+    splits.forEach(split => {
+      expect(split.tokenCount).toBeLessThanOrEqual(40);
+      expect(text.substring(split.start, split.end)).toBe(split.content);
+    });
+    // 先頭以外の分割は前の分割の末尾と重複する
+    expect(splits[1].start).toBeLessThan(splits[0].end);
+    expect(splits[0].content.endsWith('words')).toBe(true);
+    expect(splits[splits.length - 1].end).toBe(text.length);
+  });
+});
@@ -1,10 +1,20 @@
 /**
  * ベクトル検索エンジンのテストスイート
  */
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, appendFileSync, readFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { 
   QdrantVectorStore,
+  InMemoryVectorStore,
+  EmbeddedVectorStore,
+  HnswIndex,
   VectorSearchEngine,
+  toPointId,
+  uuidv5,
+  resolvePathFilters,
+  globToRegExp,
   VectorDocument,
   SearchQuery 
 } from '../src/vector/index.js';
@@ -80,6 +90,15 @@ describe('QdrantVectorStore', () => {
       });
     });
 
+    it('モデルの距離関数に対応する Qdrant の距離でコレクションを作成する', async () => {
+      await vectorStore.createCollection('dot-collection', 768, 'dot');
+      await vectorStore.createCollection('euclid-collection', 768, 'euclidean');
+
+      const mockClient = (vectorStore as any).client;
+      expect(mockClient.createCollection).toHaveBeenCalledWith('dot-collection', expect.objectContaining({ vectors: { size: 768, distance: 'Dot' } }));
+      expect(mockClient.createCollection).toHaveBeenCalledWith('euclid-collection', expect.objectContaining({ vectors: { size: 768, distance: 'Euclid' } }));
+    });
+
     it('既存のコレクションを削除する', async () => {
       await vectorStore.deleteCollection('test-collection');
       
@@ -224,11 +243,112 @@ describe('QdrantVectorStore', () => {
       const mockClient = (vectorStore as any).client;
       expect(mockClient.delete).toHaveBeenCalledWith('test-collection', {
         wait: true,
-        points: ['doc1', 'doc2']
+        points: [toPointId('test-collection', 'doc1'), toPointId('test-collection', 'doc2')]
       });
     });
   });
 
+  describe('ポイントID', () => {
+    beforeEach(async () => {
+      const mockClient = {
+        getCollections: vi.fn().mockResolvedValue({ collections: [] }),
+        upsert: vi.fn().mockResolvedValue({}),
+        search: vi.fn().mockResolvedValue([])
+      };
+
+      (vectorStore as any).client = mockClient;
+      await vectorStore.initialize();
+    });
+
+    it('RFC 4122 の UUIDv5 を生成する', () => {
+      // DNS 名前空間の既知の値
+      expect(uuidv5('www.example.com', '6ba7b810-9dad-11d1-80b4-00c04fd430c8')).toBe('2ed6657d-e927-568b-95e1-2665a8aea6a2');
+    });
+
+    it('コレクションとドキュメントIDから決定的な UUID を導出する', () => {
+      const id = toPointId('collection-a', 'src/app.ts-func-0-main');
+
+      expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(toPointId('collection-a', 'src/app.ts-func-0-main')).toBe(id);
+      expect(toPointId('collection-b', 'src/app.ts-func-0-main')).not.toBe(id);
+      expect(toPointId('collection-a', 'src/app.ts-func-1-main')).not.toBe(id);
+    });
+
+    it('アップサート時は UUID を使い、検索結果では元のIDを復元する', async () => {
+      const mockClient = (vectorStore as any).client;
+      const document: VectorDocument = {
+        id: 'src/app.ts-func-0-main',
+        vector: [0.1, 0.2, 0.3],
+        payload: {
+          content: 'function main() {}',
+          metadata: { source: 'src/app.ts', type: 'typescript', lastModified: new Date(), size: 18 }
+        }
+      };
+
+      await vectorStore.upsertVectors('test-collection', [document]);
+
+      const point = mockClient.upsert.mock.calls[0][1].points[0];
+      expect(point.id).toBe(toPointId('test-collection', document.id));
+      expect(point.payload.documentId).toBe(document.id);
+
+      mockClient.search.mockResolvedValue([{ id: point.id, score: 0.9, payload: point.payload }]);
+      const results = await vectorStore.search('test-collection', { vector: [0.1, 0.2, 0.3] });
+
+      expect(results[0].id).toBe(document.id);
+      expect(results[0].document.id).toBe(document.id);
+    });
+  });
+
+  describe('フィルター', () => {
+    const buildFilter = (filters: SearchQuery['filters']) => (vectorStore as any).buildQdrantFilter(filters);
+
+    it('! 付きの値を must_not に、チャンクの条件を配列のネストしたキーに変換する', () => {
+      expect(buildFilter({
+        language: ['typescript', '!markdown'],
+        chunkType: ['function'],
+        symbols: ['handleToolsCall'],
+        packageName: ['@cqm/rag']
+      })).toEqual({
+        must: [
+          { key: 'language', match: { any: ['typescript'] } },
+          { key: 'packageName', match: { any: ['@cqm/rag'] } },
+          { key: 'chunks[].type', match: { any: ['function'] } },
+          { key: 'chunks[].symbols', match: { any: ['handleToolsCall'] } }
+        ],
+        must_not: [
+          { key: 'language', match: { any: ['markdown'] } }
+        ]
+      });
+    });
+
+    it('must・should・mustNot のグループを入れ子のフィルターに変換し、空のグループは無視する', () => {
+      expect(buildFilter({
+        should: [{ category: ['source'] }, { tags: ['api'] }, {}],
+        mustNot: [{ source: ['src/legacy.ts'] }]
+      })).toEqual({
+        should: [
+          { must: [{ key: 'category', match: { any: ['source'] } }] },
+          { must: [{ key: 'tags', match: { any: ['api'] } }] }
+        ],
+        must_not: [
+          { must: [{ key: 'source', match: { any: ['src/legacy.ts'] } }] }
+        ]
+      });
+      expect(buildFilter({ must: [{}] })).toBeUndefined();
+    });
+
+    it('exported・deprecated の真偽値を、false は true の除外として変換する', () => {
+      expect(buildFilter({ exported: true, deprecated: false })).toEqual({
+        must: [{ key: 'chunks[].exported', match: { value: true } }],
+        must_not: [{ key: 'chunks[].deprecated', match: { value: true } }]
+      });
+    });
+
+    it('未解決のパス glob はエラーにする', () => {
+      expect(() => buildFilter({ path: ['src/**'] })).toThrow(CQMError);
+    });
+  });
+
   describe('エラーハンドリング', () => {
     it('初期化前の操作でエラーを投げる', async () => {
       await expect(vectorStore.createCollection('test', 768)).rejects.toThrow(CQMError);
@@ -316,8 +436,7 @@ describe('VectorSearchEngine', () => {
               metadata: { source: 'test.ts', type: 'typescript', lastModified: new Date(), size: 1000 },
               chunks: []
             }
-          },
-          highlights: ['test']
+          }
         }
       ];
 
@@ -367,4 +486,396 @@ describe('VectorSearchEngine', () => {
       await expect(searchEngine.search([0.1])).rejects.toThrow(CQMError);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('InMemoryVectorStore', () => {
+  let store: InMemoryVectorStore;
+
+  const createDocument = (id: string, vector: number[], metadata: Partial<VectorDocument['payload']['metadata']> = {}): VectorDocument => ({
+    id,
+    vector,
+    payload: {
+      content: `content of ${id}`,
+      metadata: {
+        source: `${id}.ts`,
+        type: '.ts',
+        category: 'code',
+        language: 'typescript',
+        lastModified: new Date('2024-06-01T00:00:00Z'),
+        size: 100,
+        tags: [],
+        ...metadata
+      }
+    }
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    store = new InMemoryVectorStore();
+    await store.initialize();
+    await store.createCollection('test', 2);
+    await store.upsertVectors('test', [
+      createDocument('a', [1, 0], { tags: ['api'] }),
+      createDocument('b', [0.8, 0.6], { category: 'documentation', type: '.md', language: 'markdown', size: 2000 }),
+      createDocument('c', [0, 1], { lastModified: new Date('2023-01-01T00:00:00Z') })
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('コサイン類似度の降順で閾値以上の結果を返す', async () => {
+    const results = await store.search('test', { vector: [1, 0], threshold: 0.5 });
+
+    expect(results.map(result => result.id)).toEqual(['a', 'b']);
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[1].score).toBeCloseTo(0.8);
+    expect(results[0].document.vector).toEqual([]);
+  });
+
+  it('コレクションの距離関数（dot・euclidean）でスコアを計算する', async () => {
+    await store.createCollection('dot', 2, 'dot');
+    await store.createCollection('euclid', 2, 'euclidean');
+    const documents = [createDocument('near', [1, 0]), createDocument('long', [3, 3])];
+    await store.upsertVectors('dot', documents);
+    await store.upsertVectors('euclid', documents);
+
+    const byDot = await store.search('dot', { vector: [1, 0], threshold: 0.5 });
+    expect(byDot.map(result => [result.id, result.score])).toEqual([['long', 3], ['near', 1]]);
+
+    const byEuclid = await store.search('euclid', { vector: [1, 0], threshold: 0.3 });
+    expect(byEuclid.map(result => result.id)).toEqual(['near']);
+    expect(byEuclid[0].score).toBeCloseTo(1);
+    expect((await store.getCollectionInfo('euclid')).distance).toBe('euclidean');
+  });
+
+  it('Qdrant フィルターと同じ条件で絞り込む', async () => {
+    const search = (filters: SearchQuery['filters']) =>
+      store.search('test', { vector: [1, 1], threshold: 0.1, filters }).then(results => results.map(result => result.id).sort());
+
+    expect(await search({ category: ['code'] })).toEqual(['a', 'c']);
+    expect(await search({ fileType: ['.md'], language: ['markdown'] })).toEqual(['b']);
+    expect(await search({ tags: ['api', 'cli'] })).toEqual(['a']);
+    expect(await search({ dateRange: { after: new Date('2024-01-01T00:00:00Z') } })).toEqual(['a', 'b']);
+    expect(await search({ size: { min: 100, max: 100 } })).toEqual(['a', 'c']);
+  });
+
+  it('パス glob・チャンク種別・シンボル・否定・入れ子のグループで絞り込む', async () => {
+    const withChunk = (document: VectorDocument, type: 'function' | 'class' | 'section', symbols: string[]): VectorDocument => ({
+      ...document,
+      payload: { ...document.payload, chunks: [{ index: 0, type, symbols }] }
+    });
+    await store.createCollection('code', 2);
+    await store.upsertVectors('code', [
+      withChunk(createDocument('handler', [1, 0], { source: 'packages/server/src/tools/index.ts', packageName: '@cqm/server' }), 'function', ['handleToolsCall']),
+      withChunk(createDocument('registry', [1, 0], { source: 'packages/server/src/tools/registry.test.ts', packageName: '@cqm/server' }), 'class', ['ToolRegistry']),
+      withChunk(createDocument('engine', [1, 0], { source: 'packages/rag/src/engine/index.ts', packageName: '@cqm/rag' }), 'class', ['RAGEngine']),
+      withChunk(createDocument('readme', [1, 0], { source: 'packages/rag/README.md', language: 'markdown' }), 'section', [])
+    ]);
+    const search = (filters: SearchQuery['filters']) =>
+      store.search('code', { vector: [1, 0], threshold: 0.1, filters }).then(results => results.map(result => result.id).sort());
+
+    expect(await search({ path: ['packages/server/**', '!*.test.ts'] })).toEqual(['handler']);
+    expect(await search({ chunkType: ['class'], packageName: ['!@cqm/server'] })).toEqual(['engine']);
+    expect(await search({ symbols: ['handleToolsCall', 'RAGEngine'] })).toEqual(['engine', 'handler']);
+    expect(await search({ language: ['!markdown'], should: [{ packageName: ['@cqm/rag'] }, { chunkType: ['function'] }] })).toEqual(['engine', 'handler']);
+    expect(await search({ mustNot: [{ chunkType: ['class'] }, { path: ['*.md'] }] })).toEqual(['handler']);
+  });
+
+  it('公開・非推奨の宣言で絞り込み、未設定のチャンクは false とみなす', async () => {
+    const withFlags = (id: string, flags: { exported?: boolean; deprecated?: boolean }): VectorDocument => ({
+      ...createDocument(id, [1, 0]),
+      payload: { ...createDocument(id, [1, 0]).payload, chunks: [{ index: 0, type: 'function', ...flags }] }
+    });
+    await store.createCollection('api', 2);
+    await store.upsertVectors('api', [
+      withFlags('current', { exported: true, deprecated: false }),
+      withFlags('legacy', { exported: true, deprecated: true }),
+      withFlags('internal', { exported: false, deprecated: false }),
+      createDocument('readme', [1, 0])
+    ]);
+    const search = (filters: SearchQuery['filters']) =>
+      store.search('api', { vector: [1, 0], threshold: 0.1, filters }).then(results => results.map(result => result.id).sort());
+
+    expect(await search({ exported: true, deprecated: false })).toEqual(['current']);
+    expect(await search({ exported: false })).toEqual(['internal', 'readme']);
+    expect(await search({ deprecated: true })).toEqual(['legacy']);
+  });
+
+  it('offset で先頭の結果を読み飛ばす', async () => {
+    const page = (offset: number) =>
+      store.search('test', { vector: [1, 1], threshold: 0.1, limit: 2, offset }).then(results => results.map(result => result.id));
+
+    expect(await page(0)).toEqual(['b', 'a']);
+    expect(await page(2)).toEqual(['c']);
+    expect(await page(3)).toEqual([]);
+  });
+
+  it('withVectors を指定した場合だけ結果にベクトルを含める', async () => {
+    const [withoutVector] = await store.search('test', { vector: [1, 0], limit: 1 });
+    const [withVector] = await store.search('test', { vector: [1, 0], limit: 1, withVectors: true });
+
+    expect(withoutVector.document.vector).toEqual([]);
+    expect(withVector.document.vector).toHaveLength(2);
+  });
+
+  it('次元数の異なるベクトルや存在しないコレクションでエラーを投げる', async () => {
+    await expect(store.upsertVectors('test', [createDocument('d', [1, 0, 0])])).rejects.toThrow(CQMError);
+    await expect(store.search('missing', { vector: [1, 0] })).rejects.toThrow(CQMError);
+  });
+
+  it('JSON スナップショットに永続化し、再初期化時に復元する', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'cqm-vector-'));
+    try {
+      const persistPath = join(directory, 'vectors.json');
+      const persisted = new InMemoryVectorStore({ persistPath });
+      await persisted.initialize();
+      await persisted.createCollection('docs', 2);
+      await persisted.upsertVectors('docs', [createDocument('a', [1, 0]), createDocument('b', [0, 1])]);
+      await persisted.deleteVectors('docs', ['b']);
+      await persisted.flush();
+
+      const restored = new InMemoryVectorStore({ persistPath });
+      await restored.initialize();
+
+      expect((await restored.getCollectionInfo('docs')).vectorCount).toBe(1);
+      const [result] = await restored.search('docs', { vector: [1, 0] });
+      expect(result.id).toBe('a');
+      expect(result.document.payload.metadata.lastModified).toEqual(new Date('2024-06-01T00:00:00Z'));
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('待ち時間内の変更を1回の書き込みにまとめる', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'cqm-vector-'));
+    try {
+      const persistPath = join(directory, 'vectors.json');
+      const persisted = new InMemoryVectorStore({ persistPath, persistDelay: 20 });
+      await persisted.initialize();
+      await persisted.createCollection('docs', 2);
+      for (let i = 0; i < 50; i++) {
+        await persisted.upsertVectors('docs', [createDocument(`doc-${i}`, [1, i])]);
+      }
+
+      // 変更の直後にはまだ書き出さない
+      expect(existsSync(persistPath)).toBe(false);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await persisted.flush();
+      const restored = new InMemoryVectorStore({ persistPath });
+      await restored.initialize();
+      expect((await restored.getCollectionInfo('docs')).vectorCount).toBe(50);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('HnswIndex', () => {
+  // 決定的な疑似乱数ベクトル
+  const randomVectors = (count: number, dimensions: number, seed: number): Float32Array[] => {
+    let state = seed;
+    const next = () => {
+      state = (state * 1103515245 + 12345) % 2147483648;
+      return state / 2147483648 - 0.5;
+    };
+    return Array.from({ length: count }, () => {
+      const vector = Float32Array.from({ length: dimensions }, next);
+      const norm = Math.hypot(...vector);
+      return vector.map(value => value / norm);
+    });
+  };
+
+  it('全件走査と比べて高い再現率で近傍を返す', () => {
+    const vectors = randomVectors(2000, 16, 7);
+    const index = new HnswIndex({ m: 12, efConstruction: 80 });
+    vectors.forEach((vector, i) => index.insert(`v${i}`, vector));
+
+    const queries = randomVectors(20, 16, 99);
+    let found = 0;
+    for (const query of queries) {
+      const exact = vectors
+        .map((vector, i) => ({ key: `v${i}`, score: vector.reduce((sum, value, j) => sum + value * query[j], 0) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 10)
+        .map(match => match.key);
+      const approximate = new Set(index.search(query, 10).map(match => match.key));
+      found += exact.filter(key => approximate.has(key)).length;
+    }
+
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  it('削除したキーを結果から除外する', () => {
+    const vectors = randomVectors(50, 8, 3);
+    const index = new HnswIndex();
+    vectors.forEach((vector, i) => index.insert(`v${i}`, vector));
+
+    index.remove('v0');
+
+    expect(index.size).toBe(49);
+    expect(index.search(vectors[0], 5).map(match => match.key)).not.toContain('v0');
+  });
+});
+
+describe('EmbeddedVectorStore', () => {
+  let directory: string;
+
+  const createDocument = (id: string, vector: number[], category = 'code'): VectorDocument => ({
+    id,
+    vector,
+    payload: {
+      content: `content of ${id}`,
+      metadata: { source: `${id}.ts`, type: '.ts', category, lastModified: new Date('2024-06-01T00:00:00Z'), size: 10 }
+    }
+  });
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cqm-embedded-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('操作ログから増分更新を復元する', async () => {
+    const store = new EmbeddedVectorStore({ directory });
+    await store.initialize();
+    await store.createCollection('docs', 2);
+    await store.upsertVectors('docs', [createDocument('a', [1, 0]), createDocument('b', [0, 1])]);
+    await store.upsertVectors('docs', [createDocument('a', [0.6, 0.8])]);
+    await store.deleteVectors('docs', ['b']);
+
+    const reopened = new EmbeddedVectorStore({ directory });
+    await reopened.initialize();
+
+    const [info] = await reopened.listCollections();
+    expect(info).toMatchObject({ name: 'docs', vectorCount: 1, dimensions: 2 });
+    const [result] = await reopened.search('docs', { vector: [0.6, 0.8] });
+    expect(result.id).toBe('a');
+    expect(result.score).toBeCloseTo(1);
+    expect(result.document.payload.metadata.lastModified).toEqual(new Date('2024-06-01T00:00:00Z'));
+  });
+
+  it('書き込み途中で中断された末尾の記録を無視して復旧する', async () => {
+    const store = new EmbeddedVectorStore({ directory });
+    await store.initialize();
+    await store.createCollection('docs', 2);
+    await store.upsertVectors('docs', [createDocument('a', [1, 0])]);
+    appendFileSync(join(directory, 'docs', 'wal.jsonl'), '{"op":"upsert","records":[{"id":"b"');
+
+    const reopened = new EmbeddedVectorStore({ directory });
+    await reopened.initialize();
+
+    expect((await reopened.getCollectionInfo('docs')).vectorCount).toBe(1);
+  });
+
+  it('中断後の追記が末尾の途切れた行に混ざらない', async () => {
+    const store = new EmbeddedVectorStore({ directory });
+    await store.initialize();
+    await store.createCollection('docs', 2);
+    await store.upsertVectors('docs', [createDocument('a', [1, 0])]);
+    appendFileSync(join(directory, 'docs', 'wal.jsonl'), '{"op":"upsert","records":[{"id":"b"');
+
+    const recovered = new EmbeddedVectorStore({ directory });
+    await recovered.initialize();
+    await recovered.upsertVectors('docs', [createDocument('b', [0, 1])]);
+    await recovered.upsertVectors('docs', [createDocument('c', [0.6, 0.8])]);
+
+    const reopened = new EmbeddedVectorStore({ directory });
+    await reopened.initialize();
+    expect((await reopened.getCollectionInfo('docs')).vectorCount).toBe(3);
+    const [result] = await reopened.search('docs', { vector: [0, 1] });
+    expect(result.id).toBe('b');
+  });
+
+  it('操作ログをスナップショットへ圧縮する', async () => {
+    const store = new EmbeddedVectorStore({ directory, compactionThreshold: 2 });
+    await store.initialize();
+    await store.createCollection('docs', 2);
+    await store.upsertVectors('docs', [createDocument('a', [1, 0])]);
+    await store.upsertVectors('docs', [createDocument('b', [0, 1])]);
+
+    expect(readFileSync(join(directory, 'docs', 'wal.jsonl'), 'utf-8')).toBe('');
+    expect(readFileSync(join(directory, 'docs', 'snapshot.jsonl'), 'utf-8').trim().split('\n')).toHaveLength(2);
+
+    const reopened = new EmbeddedVectorStore({ directory });
+    await reopened.initialize();
+    expect((await reopened.getCollectionInfo('docs')).vectorCount).toBe(2);
+  });
+
+  it('近似検索でもフィルターを適用する', async () => {
+    const store = new EmbeddedVectorStore({ directory, exactSearchThreshold: 0 });
+    await store.initialize();
+    await store.createCollection('docs', 2);
+    await store.upsertVectors('docs', Array.from({ length: 40 }, (_, i) => {
+      const angle = (i / 40) * Math.PI / 2;
+      return createDocument(`d${i}`, [Math.cos(angle), Math.sin(angle)], i % 2 === 0 ? 'code' : 'documentation');
+    }));
+
+    const results = await store.search('docs', { vector: [1, 0], limit: 5, threshold: 0.1, filters: { category: ['documentation'] } });
+
+    expect(results.map(result => result.id)).toEqual(['d1', 'd3', 'd5', 'd7', 'd9']);
+  });
+
+  it('コレクションの距離関数を記録し、再初期化後の近似検索でも使う', async () => {
+    const store = new EmbeddedVectorStore({ directory, exactSearchThreshold: 0 });
+    await store.initialize();
+    await store.createCollection('docs', 2, 'euclidean');
+    await store.upsertVectors('docs', Array.from({ length: 20 }, (_, i) => createDocument(`d${i}`, [i, i])));
+
+    const reopened = new EmbeddedVectorStore({ directory, exactSearchThreshold: 0 });
+    await reopened.initialize();
+
+    expect((await reopened.getCollectionInfo('docs')).distance).toBe('euclidean');
+    const results = await reopened.search('docs', { vector: [5, 5], limit: 3, threshold: 0.1 });
+    expect(results[0].id).toBe('d5');
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results.slice(1).map(result => result.id).sort()).toEqual(['d4', 'd6']);
+  });
+
+  it('コレクションを削除するとディスクからも消える', async () => {
+    const store = new EmbeddedVectorStore({ directory });
+    await store.initialize();
+    await store.createCollection('docs', 2);
+    await store.deleteCollection('docs');
+
+    const reopened = new EmbeddedVectorStore({ directory });
+    await reopened.initialize();
+    expect(await reopened.listCollections()).toEqual([]);
+  });
+});
+
+describe('resolvePathFilters', () => {
+  const sources = ['src/app.ts', 'src/app.test.ts', 'docs/guide.md'];
+
+  it('パス glob を一致するファイルパスの source 条件に解決する', () => {
+    expect(resolvePathFilters({ language: ['typescript'], path: ['src/**', '!*.test.ts'] }, sources)).toEqual({
+      language: ['typescript'],
+      source: ['src/app.ts', 'src/app.test.ts', '!src/app.test.ts']
+    });
+    expect(resolvePathFilters({ path: ['!docs/**'] }, sources)).toEqual({ source: ['!docs/guide.md'] });
+  });
+
+  it('どのファイルにも一致しない条件は null、一致しないグループは除外する', () => {
+    expect(resolvePathFilters({ path: ['lib/**'] }, sources)).toBeNull();
+    expect(resolvePathFilters({ should: [{ path: ['lib/**'] }] }, sources)).toBeNull();
+    expect(resolvePathFilters({ should: [{ path: ['lib/**'] }, { path: ['*.md'] }], mustNot: [{ path: ['lib/**'] }] }, sources))
+      .toEqual({ should: [{ source: ['docs/guide.md'] }] });
+  });
+});
+
+describe('globToRegExp', () => {
+  it('既定ではパス全体と、anchored: false ではディレクトリ境界から末尾までと照合する', () => {
+    expect(globToRegExp('*.test.ts').test('src/app.test.ts')).toBe(false);
+    expect(globToRegExp('*.test.ts', { anchored: false }).test('src/app.test.ts')).toBe(true);
+    expect(globToRegExp('rag/**', { anchored: false }).test('packages/rag/src/index.ts')).toBe(true);
+    expect(globToRegExp('rag/**', { anchored: false }).test('packages/xrag/src/index.ts')).toBe(false);
+    expect(globToRegExp('**/*.ts').test('index.ts')).toBe(true);
+  });
+});
@@ -3,6 +3,20 @@
  * CQM MCP Server CLI実行可能ファイル
  */
 import { Command } from 'commander';
+import { join } from 'path';
+import { createInterface } from 'readline/promises';
+import { modelRegistry, EmbeddingProviderName } from '@cqm/shared';
+import {
+  createVectorStore,
+  readIndexManifest,
+  collectionNameFor,
+  describeDocumentPrompts,
+  describeEnrichment,
+  describeDistance,
+  findOrphanedCollections,
+  isLegacyCollection,
+  workspaceCollectionPrefix
+} from '@cqm/rag';
 import { MCPServerCore } from './server/index.js';
 import { ConfigManager } from './config/index.js';
 
@@ -131,6 +145,152 @@ program
     }
   });
 
+program
+  .command('models')
+  .description('List registered embedding models')
+  .option('--config <path>', 'Configuration file path', './cqm.config.json')
+  .option('--provider <provider>', 'Filter by provider (openai|ollama|local)')
+  .option('--json', 'Output as JSON')
+  .action((options) => {
+    try {
+      // 設定ファイルのカスタムモデルを登録
+      new ConfigManager(options.config);
+      const models = modelRegistry.list(options.provider as EmbeddingProviderName | undefined);
+
+      if (options.json) {
+        console.log(JSON.stringify(models, null, 2));
+        return;
+      }
+
+      console.log(`🧠 Embedding Models (${models.length}):`);
+      models.forEach(model => {
+        const source = modelRegistry.isCustom(model.name) ? 'custom' : 'builtin';
+        console.log(`\n📋 ${model.name} [${model.provider}, ${source}]`);
+        console.log(`   Dimensions: ${model.dimensions}  Context: ${model.contextLength} tokens  Distance: ${model.distance || 'cosine'}`);
+        if (model.description) {
+          console.log(`   Description: ${model.description}`);
+        }
+        if (model.prompts) {
+          console.log(`   Prompts: ${JSON.stringify(model.prompts)}`);
+        }
+      });
+
+    } catch (error) {
+      console.error('❌ Error listing models:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('collections')
+  .description('List vector collections and remove orphaned index collections')
+  .option('--config <path>', 'Configuration file path', './cqm.config.json')
+  .option('--workspace <path>', 'Workspace root the index was built from', '.')
+  .option('--data-dir <path>', 'Local data directory containing the index manifest', '.cqm')
+  .option('--cleanup', 'Delete orphaned collections (stop the server first)')
+  .option('--include-legacy', 'Also treat legacy cqm-index-* and empty cqm-default collections as orphaned (they may belong to other workspaces)')
+  .option('-y, --yes', 'Delete legacy collections without confirmation')
+  .action(async (options) => {
+    try {
+      const ragConfig = new ConfigManager(options.config).getConfig().rag;
+      const store = createVectorStore({
+        type: ragConfig.vectorStore?.type,
+        url: process.env.QDRANT_URL || 'http://localhost:6333',
+        apiKey: process.env.QDRANT_API_KEY,
+        persistPath: ragConfig.vectorStore?.persistPath,
+        directory: ragConfig.vectorStore?.directory || join(options.dataDir, 'vectors')
+      });
+      await store.initialize();
+
+      const manifestPath = join(options.dataDir, 'index', 'manifest.json');
+      const manifest = await readIndexManifest(manifestPath);
+
+      // 移行中はマニフェストのコレクション（旧）と現在の設定のコレクション（移行先）の両方が使用中
+      const model = modelRegistry.resolve(ragConfig.model, ragConfig.provider);
+      const current = collectionNameFor(options.workspace, {
+        provider: ragConfig.provider,
+        model: model.name,
+        dimensions: model.dimensions,
+        documentPrompts: describeDocumentPrompts(model.prompts),
+        enrichment: describeEnrichment(ragConfig.enrichment),
+        distance: describeDistance(model.distance)
+      });
+      const inUse = new Set(manifest ? [manifest.id, current] : [current]);
+
+      const collections = await store.listCollections();
+      let orphaned = findOrphanedCollections(collections, {
+        workspaceRoot: options.workspace,
+        inUse: Array.from(inUse),
+        includeLegacy: options.includeLegacy
+      });
+
+      if (!manifest) {
+        // 使用中のコレクションが分からないため、このワークスペースのコレクションは残す
+        console.warn(`⚠️  No index manifest at ${manifestPath}; this workspace's collections are kept`);
+        const prefix = workspaceCollectionPrefix(options.workspace);
+        orphaned = orphaned.filter(collection => !collection.name.startsWith(prefix));
+      }
+
+      const orphanedNames = new Set(orphaned.map(collection => collection.name));
+      console.log(`🗂️  Vector Collections (${collections.length}):`);
+      collections.forEach(collection => {
+        const state = inUse.has(collection.name) ? 'in use' : orphanedNames.has(collection.name) ? 'orphaned' : 'other';
+        console.log(`   ${collection.name} [${state}] ${collection.vectorCount} vectors, ${collection.dimensions}d`);
+      });
+      if (!options.includeLegacy && collections.some(isLegacyCollection)) {
+        console.log('ℹ️  Legacy collections are not considered orphaned; pass --include-legacy to include them');
+      }
+
+      if (orphaned.length === 0) {
+        console.log('✅ No orphaned collections');
+        return;
+      }
+
+      if (!options.cleanup) {
+        console.log(`\n${orphaned.length} orphaned collection(s). Run with --cleanup to delete them.`);
+        return;
+      }
+
+      // 旧バージョンのコレクションはどのワークスペースのものか判別できないため、削除前に確認する
+      const legacy = orphaned.filter(isLegacyCollection);
+      if (legacy.length > 0 && !options.yes) {
+        const confirmed = await confirm(
+          `${legacy.length} legacy collection(s) (${legacy.map(collection => collection.name).join(', ')}) may belong to other workspaces sharing this store. Delete them? [y/N] `
+        );
+        if (!confirmed) {
+          orphaned = orphaned.filter(collection => !isLegacyCollection(collection));
+          console.log('⏭️  Keeping legacy collections');
+        }
+      }
+
+      for (const collection of orphaned) {
+        await store.deleteCollection(collection.name);
+      }
+      console.log(`✅ Deleted ${orphaned.length} orphaned collection(s)`);
+
+    } catch (error) {
+      console.error('❌ Error managing collections:', error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * 対話端末で y/N の確認を取る（端末でなければ拒否とみなす）
+ */
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    console.warn('⚠️  Not a terminal; pass --yes to confirm');
+    return false;
+  }
+
+  const readline = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return /^y(es)?$/i.test((await readline.question(question)).trim());
+  } finally {
+    readline.close();
+  }
+}
+
 program
   .command('status')
   .description('Show server status')
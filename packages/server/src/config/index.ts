@@ -5,7 +5,7 @@
 import { readFileSync, existsSync, writeFileSync } from 'fs';
 import { dirname } from 'path';
 import { mkdir } from 'fs/promises';
-import { CQMConfig, deepMerge } from '@cqm/shared';
+import { CQMConfig, ChunkingSettings, RerankSettings, deepMerge, modelRegistry, validateModelDefinition } from '@cqm/shared';
 
 export interface MCPServerConfig extends CQMConfig {
   mcp: {
@@ -73,6 +73,7 @@ export class ConfigManager {
   constructor(configPath = './cqm.config.json') {
     this.configPath = configPath;
     this.config = this.loadConfig();
+    this.registerCustomModels();
   }
 
   private loadConfig(): MCPServerConfig {
@@ -123,7 +124,7 @@ export class ConfigManager {
     if (process.env.CQM_RAG_PROVIDER) {
       envConfig.rag = {
         ...envConfig.rag,
-        provider: process.env.CQM_RAG_PROVIDER as 'openai' | 'ollama'
+        provider: process.env.CQM_RAG_PROVIDER as 'openai' | 'ollama' | 'local'
       };
     }
     
@@ -134,6 +135,17 @@ export class ConfigManager {
       };
     }
 
+    if (process.env.CQM_VECTOR_STORE) {
+      envConfig.rag = {
+        ...envConfig.rag,
+        vectorStore: {
+          type: process.env.CQM_VECTOR_STORE as 'qdrant' | 'memory' | 'embedded',
+          persistPath: process.env.CQM_VECTOR_SNAPSHOT,
+          directory: process.env.CQM_VECTOR_DIR
+        }
+      } as MCPServerConfig['rag']; // provider・model は他の設定ソースから補完される
+    }
+
     // MCP設定
     if (process.env.CQM_MAX_CONNECTIONS) {
       envConfig.mcp = {
@@ -204,6 +216,7 @@ export class ConfigManager {
 
   update(updates: Partial<MCPServerConfig>): void {
     this.config = deepMerge(this.config, updates);
+    this.registerCustomModels();
     this.notifyWatchers();
   }
 
@@ -230,9 +243,17 @@ export class ConfigManager {
   reload(): void {
     console.log('🔄 Reloading configuration...');
     this.config = this.loadConfig();
+    this.registerCustomModels();
     this.notifyWatchers();
   }
 
+  // カスタム埋め込みモデルをレジストリに登録（不正な定義は validate で報告）
+  private registerCustomModels(): void {
+    modelRegistry.registerAll(
+      (this.config.rag.models || []).filter(model => validateModelDefinition(model).length === 0)
+    );
+  }
+
   // 設定変更の監視
   watch(callback: (config: MCPServerConfig) => void): () => void {
     this.watchers.push(callback);
@@ -279,10 +300,54 @@ export class ConfigManager {
     }
 
     // RAGプロバイダーチェック
-    const validProviders = ['openai', 'ollama'];
+    const validProviders = ['openai', 'ollama', 'local'];
     if (!validProviders.includes(this.config.rag.provider)) {
       errors.push(`rag.provider must be one of: ${validProviders.join(', ')}`);
     }
+    (this.config.rag.fallbacks || []).forEach((fallback, index) => {
+      if (!validProviders.includes(fallback.provider)) {
+        errors.push(`rag.fallbacks[${index}].provider must be one of: ${validProviders.join(', ')}`);
+      } else if (fallback.model) {
+        errors.push(...validateModelReference(`rag.fallbacks[${index}].model`, fallback.model, fallback.provider));
+      }
+    });
+
+    // ベクトルストアチェック
+    const validVectorStores = ['qdrant', 'memory', 'embedded'];
+    const vectorStoreType = this.config.rag.vectorStore?.type;
+    if (vectorStoreType && !validVectorStores.includes(vectorStoreType)) {
+      errors.push(`rag.vectorStore.type must be one of: ${validVectorStores.join(', ')}`);
+    }
+
+    // 検索モードチェック
+    const validSearchModes = ['vector', 'lexical', 'hybrid'];
+    Object.entries(this.config.rag.search?.tools || {}).forEach(([tool, settings]) => {
+      if (settings.mode && !validSearchModes.includes(settings.mode)) {
+        errors.push(`rag.search.tools.${tool}.mode must be one of: ${validSearchModes.join(', ')}`);
+      }
+      (['vectorWeight', 'lexicalWeight'] as const).forEach(key => {
+        const weight = settings[key];
+        if (weight !== undefined && (typeof weight !== 'number' || weight < 0)) {
+          errors.push(`rag.search.tools.${tool}.${key} must be a non-negative number`);
+        }
+      });
+      if (settings.rerank) {
+        errors.push(...validateRerankSettings(`rag.search.tools.${tool}.rerank`, settings.rerank));
+      }
+    });
+
+    // チャンク分割チェック
+    if (this.config.rag.chunking) {
+      errors.push(...validateChunkingSettings('rag.chunking', this.config.rag.chunking));
+    }
+
+    // 埋め込みモデルチェック
+    (this.config.rag.models || []).forEach((model, index) => {
+      validateModelDefinition(model).forEach(error => errors.push(`rag.models[${index}]: ${error}`));
+    });
+    if (validProviders.includes(this.config.rag.provider)) {
+      errors.push(...validateModelReference('rag.model', this.config.rag.model, this.config.rag.provider));
+    }
 
     // ログレベルチェック
     const validLogLevels = ['debug', 'info', 'warn', 'error'];
@@ -312,4 +377,76 @@ export class ConfigManager {
       logging: `${this.config.logging.level}${this.config.logging.file ? ` -> ${this.config.logging.file}` : ''}`
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * モデル名がプロバイダーのモデルとしてレジストリに登録されているか検証する
+ * OpenAI互換サーバーの未登録モデルは次元数を初回レスポンスで確定できるため許可する
+ */
+function validateModelReference(path: string, model: string, provider: CQMConfig['rag']['provider']): string[] {
+  const registered = modelRegistry.get(model);
+
+  if (registered && registered.provider !== provider) {
+    return [`${path} '${model}' is registered for provider '${registered.provider}', not '${provider}'`];
+  }
+  if (!registered && provider !== 'openai') {
+    return [`${path} '${model}' is not a registered ${provider} model (see \`cqm-server models\` or add it to rag.models)`];
+  }
+  return [];
+}
+
+/**
+ * ツールごとの再ランキング設定を検証する
+ */
+function validateRerankSettings(path: string, rerank: RerankSettings): string[] {
+  const errors: string[] = [];
+  const validTypes = ['lexical', 'symbol', 'cross-encoder'];
+
+  if (rerank.topN !== undefined && (!Number.isInteger(rerank.topN) || rerank.topN < 1)) {
+    errors.push(`${path}.topN must be a positive integer`);
+  }
+  if (!Array.isArray(rerank.rerankers)) {
+    return [...errors, `${path}.rerankers must be an array`];
+  }
+
+  rerank.rerankers.forEach((reranker, index) => {
+    const prefix = `${path}.rerankers[${index}]`;
+    if (!validTypes.includes(reranker.type)) {
+      errors.push(`${prefix}.type must be one of: ${validTypes.join(', ')}`);
+    } else if (reranker.type === 'cross-encoder' && !/^https?:\/\//.test(reranker.url || '')) {
+      errors.push(`${prefix}.url must be an http(s) URL`);
+    }
+    if ('weight' in reranker && reranker.weight !== undefined && !(reranker.weight >= 0 && reranker.weight <= 1)) {
+      errors.push(`${prefix}.weight must be between 0 and 1`);
+    }
+  });
+
+  return errors;
+}
+
+function validateChunkingSettings(path: string, chunking: ChunkingSettings): string[] {
+  const errors: string[] = [];
+  const validTypes = [
+    'function', 'class', 'interface', 'variable', 'enum', 'namespace', 'module',
+    'section', 'paragraph', 'issue', 'comment'
+  ];
+  const validateLimits = (prefix: string, limits: { maxTokens?: number; overlap?: number }) => {
+    if (limits.maxTokens !== undefined && (!Number.isInteger(limits.maxTokens) || limits.maxTokens < 1)) {
+      errors.push(`${prefix}.maxTokens must be a positive integer`);
+    }
+    if (limits.overlap !== undefined && (!Number.isInteger(limits.overlap) || limits.overlap < 0)) {
+      errors.push(`${prefix}.overlap must be a non-negative integer`);
+    }
+  };
+
+  validateLimits(`${path}.defaults`, chunking.defaults || {});
+  Object.entries(chunking.strategies || {}).forEach(([documentType, strategy]) => {
+    const prefix = `${path}.strategies.${documentType}`;
+    if (!validTypes.includes(strategy.type)) {
+      errors.push(`${prefix}.type must be one of: ${validTypes.join(', ')}`);
+    }
+    validateLimits(prefix, strategy);
+  });
+
+  return errors;
+}
@@ -11,6 +11,7 @@ export * from './tools/index.js';
 export * from './transport/index.js';
 export * from './connection/index.js';
 export * from './plugin/index.js';
+export * from './config/index.js';
 
 // デフォルトエクスポート
 export { MCPServer } from './server/index.js';
\ No newline at end of file
@@ -2,11 +2,98 @@
  * RAGエンジン統合ツール
  * CQM Issue #15 [IMP-004] MCP-RAG統合実装
  */
-import { RAGEngine, RAGEngineOptions, RAGSearchOptions } from '@cqm/rag';
+import { ChunkStrategy, RAGEngine, RAGEngineOptions, RAGSearchOptions, SearchFilters, SearchMode } from '@cqm/rag';
+import { ChunkingSettings, CQMError, ToolSearchSettings } from '@cqm/shared';
 import { ToolDefinition, ToolHandler, ToolContext, ToolResult } from './index.js';
 import { ConfigManager } from '../config/index.js';
 import { join } from 'path';
 
+// ツールごとの検索モードの既定値（設定の rag.search.tools で上書き可能）
+const DEFAULT_TOOL_SEARCH: Record<string, ToolSearchSettings> = {
+  semanticSearch: { mode: 'hybrid', vectorWeight: 1, lexicalWeight: 0.5 },
+  codeSearch: { mode: 'hybrid', vectorWeight: 1, lexicalWeight: 2 }, // 識別子・エラーコードの完全一致を重視
+  documentationSearch: { mode: 'hybrid', vectorWeight: 1, lexicalWeight: 0.5 },
+  contextualSearch: { mode: 'hybrid', vectorWeight: 1, lexicalWeight: 0.5 }
+};
+
+const SEARCH_MODE_PROPERTY = {
+  type: 'string',
+  enum: ['vector', 'lexical', 'hybrid'],
+  description: '検索モード（vector: 埋め込み、lexical: BM25、hybrid: 両者を順位融合）。既定は hybrid'
+};
+
+const SEARCH_CURSOR_PROPERTY = {
+  type: 'string',
+  description: '前回の結果の nextCursor（同じ検索条件で続きのページを取得する。インデックスが更新されると無効）'
+};
+
+const DIVERSITY_PROPERTY = {
+  type: 'object',
+  properties: {
+    lambda: {
+      type: 'number',
+      description: '関連度の重み（1.0 で関連度順のまま、小さいほど似た結果を避ける）',
+      default: 0.5,
+      minimum: 0.0,
+      maximum: 1.0
+    },
+    maxPerFile: { type: 'number', description: '同じファイルから返す最大件数', minimum: 1 },
+    candidates: { type: 'number', description: '再ランキングの対象にする上位候補数', default: 100, minimum: 1, maximum: 500 }
+  },
+  additionalProperties: false,
+  description: 'MMR による多様化（同じファイル・似た内容の結果が上位を占めるのを防ぐ）'
+};
+
+const EXPAND_PROPERTY = {
+  type: 'object',
+  properties: {
+    parent: { type: 'boolean', description: '一致したメソッドなどの親チャンク（クラスのアウトライン）を添える', default: false },
+    siblings: { type: 'boolean', description: '同じ親を持つ他のチャンク（同じクラスの他のメソッド）を添える', default: false }
+  },
+  additionalProperties: false,
+  description: '一致した子チャンクから親・兄弟のチャンクへ広げる（small-to-big）'
+};
+
+const CHUNK_TYPES = [
+  'function', 'class', 'interface', 'variable', 'enum', 'namespace', 'module', 'section', 'paragraph', 'issue', 'comment'
+];
+
+const stringList = (description: string, pattern?: string) => ({
+  type: 'array',
+  items: pattern ? { type: 'string', pattern } : { type: 'string' },
+  description
+});
+
+// semanticSearch・codeSearch・documentationSearch 共通の検索フィルター（@cqm/rag の SearchFilters に対応）
+const SEARCH_FILTERS_PROPERTY = {
+  type: 'object',
+  description: '検索フィルター（各条件の AND。配列条件はいずれかに一致し、先頭に ! を付けた値は除外。must・should・mustNot で入れ子にできる）',
+  properties: {
+    path: stringList('ファイルパスの glob（例: packages/rag/**、!*.test.ts）'),
+    language: stringList('言語（typescript、markdown 等）'),
+    category: stringList('カテゴリ（source、documentation、configuration、test、example）'),
+    fileType: stringList('ドキュメント種別（typescript、javascript、markdown、text 等）'),
+    chunkType: stringList('チャンク種別', `^!?(${CHUNK_TYPES.join('|')})$`),
+    symbols: stringList('チャンクが定義・参照するシンボル名'),
+    packageName: stringList('ファイルを含むパッケージ名（package.json の name）'),
+    tags: stringList('タグ'),
+    exported: { type: 'boolean', description: 'TypeScript の宣言がモジュールの外から参照できるか（export 済みのクラスの public メンバーを含む）' },
+    deprecated: { type: 'boolean', description: 'TypeScript の宣言が JSDoc の @deprecated か' },
+    dateRange: {
+      type: 'object',
+      properties: {
+        after: { type: 'string', format: 'date-time', description: 'この日時以降に更新' },
+        before: { type: 'string', format: 'date-time', description: 'この日時以前に更新' }
+      },
+      additionalProperties: false
+    },
+    must: { type: 'array', items: { $ref: '#/properties/filters' }, description: 'すべてに一致するフィルター' },
+    should: { type: 'array', items: { $ref: '#/properties/filters' }, description: '少なくとも1つに一致するフィルター' },
+    mustNot: { type: 'array', items: { $ref: '#/properties/filters' }, description: 'どれにも一致しないフィルター' }
+  },
+  additionalProperties: false
+};
+
 export class RAGToolsManager {
   private ragEngine: RAGEngine | null = null;
   private isInitialized = false;
@@ -28,10 +115,17 @@ export class RAGToolsManager {
       
       // RAGエンジンの初期化
       this.ragEngine = new RAGEngine({
-        provider: ragConfig.provider as 'openai' | 'ollama',
+        provider: ragConfig.provider,
         model: ragConfig.model,
+        embeddingBaseUrl: ragConfig.provider === 'ollama' ? process.env.OLLAMA_HOST : process.env.OPENAI_BASE_URL,
+        embeddingApiKey: process.env.OPENAI_API_KEY,
+        fallbackProviders: ragConfig.fallbacks,
+        customModels: ragConfig.models,
         vectorDbUrl: process.env.QDRANT_URL || 'http://localhost:6333',
         vectorDbApiKey: process.env.QDRANT_API_KEY,
+        vectorStore: ragConfig.vectorStore,
+        enrichment: ragConfig.enrichment,
+        chunkingStrategies: ragConfig.chunking && resolveChunkingStrategies(ragConfig.chunking),
         indexOptions: {
           basePaths: ['.'],
           includePatterns: ['**/*.ts', '**/*.js', '**/*.md', '**/*.json'],
@@ -90,7 +184,7 @@ export class RAGToolsManager {
           },
           threshold: {
             type: 'number',
-            description: '関連度の閾値（0.0-1.0）',
+            description: '関連度の閾値（0.0-1.0）。埋め込みの類似度に適用し、hybrid では融合前に語彙検索の候補も最上位の BM25 スコアに対する比率で絞り込む',
             default: 0.7,
             minimum: 0.0,
             maximum: 1.0
@@ -103,11 +197,15 @@ export class RAGToolsManager {
             },
             description: 'カテゴリフィルタ'
           },
+          filters: SEARCH_FILTERS_PROPERTY,
           includeContent: {
             type: 'boolean',
             description: 'コンテンツ全文を含めるか',
             default: true
-          }
+          },
+          mode: SEARCH_MODE_PROPERTY,
+          diversity: DIVERSITY_PROPERTY,
+          cursor: SEARCH_CURSOR_PROPERTY
         },
         required: ['query'],
         additionalProperties: false
@@ -141,17 +239,22 @@ export class RAGToolsManager {
             type: 'array',
             items: { 
               type: 'string',
-              enum: ['function', 'class', 'interface', 'type', 'variable']
+              enum: ['function', 'class', 'interface', 'variable', 'enum', 'namespace', 'module']
             },
-            description: 'コード要素タイプフィルタ'
+            description: 'コード要素タイプフィルタ（チャンク種別）'
           },
+          filters: SEARCH_FILTERS_PROPERTY,
           limit: {
             type: 'number',
             description: '最大結果数',
             default: 15,
             minimum: 1,
             maximum: 50
-          }
+          },
+          mode: SEARCH_MODE_PROPERTY,
+          diversity: DIVERSITY_PROPERTY,
+          expand: EXPAND_PROPERTY,
+          cursor: SEARCH_CURSOR_PROPERTY
         },
         required: ['query'],
         additionalProperties: false
@@ -181,13 +284,17 @@ export class RAGToolsManager {
             },
             description: 'ドキュメントタイプフィルタ'
           },
+          filters: SEARCH_FILTERS_PROPERTY,
           limit: {
             type: 'number',
             description: '最大結果数',
             default: 10,
             minimum: 1,
             maximum: 30
-          }
+          },
+          mode: SEARCH_MODE_PROPERTY,
+          diversity: DIVERSITY_PROPERTY,
+          cursor: SEARCH_CURSOR_PROPERTY
         },
         required: ['query'],
         additionalProperties: false
@@ -233,7 +340,10 @@ export class RAGToolsManager {
             default: 12,
             minimum: 1,
             maximum: 30
-          }
+          },
+          mode: SEARCH_MODE_PROPERTY,
+          diversity: DIVERSITY_PROPERTY,
+          cursor: SEARCH_CURSOR_PROPERTY
         },
         required: ['query'],
         additionalProperties: false
@@ -322,18 +432,21 @@ export class RAGToolsManager {
       }
 
       try {
-        const { query, limit, threshold, categories, includeContent } = params;
+        const { query, limit, threshold, categories, filters, includeContent, mode, diversity, cursor } = params;
         
         const searchOptions: RAGSearchOptions = {
           query,
+          ...this.searchSettingsFor('semanticSearch', mode),
           limit,
           threshold,
-          filters: categories ? { category: categories } : undefined,
+          filters: combineFilters({ category: categories }, filters),
           includeContent,
-          includeHighlights: true
+          includeHighlights: true,
+          diversity,
+          cursor
         };
 
-        const results = await this.ragEngine!.search(searchOptions);
+        const { results, nextCursor } = await this.ragEngine!.searchPage(searchOptions);
 
         const formattedResults = results.map(result => ({
           source: result.metadata.source,
@@ -342,6 +455,7 @@ export class RAGToolsManager {
           category: result.metadata.category,
           content: includeContent ? result.content : undefined,
           highlights: result.highlights,
+          explain: result.explain,
           chunk: result.chunk ? {
             title: result.chunk.title,
             startLine: result.chunk.startLine,
@@ -355,6 +469,7 @@ export class RAGToolsManager {
             text: JSON.stringify({
               query,
               results: formattedResults,
+              nextCursor: nextCursor || null,
               totalResults: results.length,
               searchTime: Date.now(),
               threshold
@@ -399,21 +514,23 @@ export class RAGToolsManager {
       }
 
       try {
-        const { query, languages, limit } = params;
+        const { query, languages, codeTypes, filters, limit, mode, diversity, expand, cursor } = params;
         
         const searchOptions: RAGSearchOptions = {
-          query: `code: ${query}`, // コード検索のプレフィックス
+          query,
+          task: 'code', // モデルのコード検索用プロンプトテンプレートを使用
+          ...this.searchSettingsFor('codeSearch', mode),
           limit,
-          filters: {
-            language: languages,
-            // codeTypesは将来的にチャンクメタデータで対応
-          },
+          filters: combineFilters({ language: languages, chunkType: codeTypes }, filters),
           threshold: 0.6, // コード検索は少し低い閾値
           includeContent: true,
-          includeHighlights: true
+          includeHighlights: true,
+          diversity,
+          expand,
+          cursor
         };
 
-        const results = await this.ragEngine!.search(searchOptions);
+        const { results, nextCursor } = await this.ragEngine!.searchPage(searchOptions);
 
         // コード特化の結果フォーマット
         const codeResults = results
@@ -425,7 +542,19 @@ export class RAGToolsManager {
             function: result.chunk?.title,
             lineRange: result.chunk ? `${result.chunk.startLine}-${result.chunk.endLine}` : undefined,
             code: result.content.length > 500 ? result.content.substring(0, 500) + '...' : result.content,
-            symbols: result.chunk?.symbols
+            symbols: result.chunk?.symbols,
+            signature: result.chunk?.signature,
+            doc: result.chunk?.doc,
+            explain: result.explain,
+            parent: result.expansion?.parent && {
+              title: result.expansion.parent.title,
+              lineRange: `${result.expansion.parent.startLine}-${result.expansion.parent.endLine}`,
+              outline: result.expansion.parent.content
+            },
+            siblings: result.expansion?.siblings?.map(sibling => ({
+              title: sibling.title,
+              lineRange: `${sibling.startLine}-${sibling.endLine}`
+            }))
           }));
 
         return {
@@ -434,6 +563,7 @@ export class RAGToolsManager {
             text: JSON.stringify({
               query,
               codeResults,
+              nextCursor: nextCursor || null,
               totalMatches: codeResults.length,
               languages: languages || 'all',
               searchTime: Date.now()
@@ -464,21 +594,25 @@ export class RAGToolsManager {
       }
 
       try {
-        const { query, documentTypes, limit } = params;
+        const { query, documentTypes, filters, limit, mode, diversity, cursor } = params;
         
         const searchOptions: RAGSearchOptions = {
           query,
+          task: 'docs',
+          ...this.searchSettingsFor('documentationSearch', mode),
           limit,
-          filters: {
+          filters: combineFilters({
             category: ['documentation'],
-            fileType: documentTypes?.includes('markdown') ? ['.md'] : undefined
-          },
+            fileType: documentTypes?.includes('markdown') ? ['markdown'] : undefined
+          }, filters),
           threshold: 0.65,
           includeContent: true,
-          includeHighlights: true
+          includeHighlights: true,
+          diversity,
+          cursor
         };
 
-        const results = await this.ragEngine!.search(searchOptions);
+        const { results, nextCursor } = await this.ragEngine!.searchPage(searchOptions);
 
         const docResults = results.map(result => ({
           document: result.metadata.source,
@@ -486,7 +620,8 @@ export class RAGToolsManager {
           section: result.chunk?.title,
           excerpt: result.content.length > 300 ? result.content.substring(0, 300) + '...' : result.content,
           highlights: result.highlights?.slice(0, 3), // 最大3つのハイライト
-          lastModified: result.metadata.lastModified
+          lastModified: result.metadata.lastModified,
+          explain: result.explain
         }));
 
         return {
@@ -495,6 +630,7 @@ export class RAGToolsManager {
             text: JSON.stringify({
               query,
               documentationResults: docResults,
+              nextCursor: nextCursor || null,
               totalDocuments: docResults.length,
               documentTypes: documentTypes || 'all',
               searchTime: Date.now()
@@ -525,7 +661,7 @@ export class RAGToolsManager {
       }
 
       try {
-        const { query, currentContext, limit } = params;
+        const { query, currentContext, limit, mode, diversity, cursor } = params;
         
         // コンテキスト情報を検索クエリに含める
         let enhancedQuery = query;
@@ -538,13 +674,16 @@ export class RAGToolsManager {
 
         const searchOptions: RAGSearchOptions = {
           query: enhancedQuery,
+          ...this.searchSettingsFor('contextualSearch', mode),
           limit,
           threshold: 0.6, // コンテキスト検索は幅広く候補を取得
           includeContent: true,
-          includeHighlights: true
+          includeHighlights: true,
+          diversity,
+          cursor
         };
 
-        const results = await this.ragEngine!.search(searchOptions);
+        const { results, nextCursor } = await this.ragEngine!.searchPage(searchOptions);
 
         // コンテキストスコアリング（現在のファイルや最近のファイルに関連するものを優先）
         const contextualResults = results.map(result => {
@@ -573,7 +712,8 @@ export class RAGToolsManager {
           type: result.metadata.type,
           excerpt: result.content.length > 250 ? result.content.substring(0, 250) + '...' : result.content,
           relevanceReason: this.getRelevanceReason(result, currentContext),
-          chunk: result.chunk
+          chunk: result.chunk,
+          explain: result.explain
         }));
 
         return {
@@ -582,6 +722,7 @@ export class RAGToolsManager {
             text: JSON.stringify({
               query,
               contextualResults: formattedResults,
+              nextCursor: nextCursor || null,
               context: currentContext,
               totalResults: formattedResults.length,
               searchTime: Date.now()
@@ -744,7 +885,8 @@ export class RAGToolsManager {
             documents: stats.documents,
             chunks: stats.chunks,
             vectors: stats.vectors,
-            providers: stats.providers
+            providers: stats.providers,
+            embeddingCache: stats.cache
           };
         }
 
@@ -803,6 +945,22 @@ export class RAGToolsManager {
   }
 
   // 公開メソッド
+  /**
+   * ツールの検索モード・融合の重み・再ランキング（引数の mode > 設定 > 既定値）
+   */
+  private searchSettingsFor(toolName: string, mode?: SearchMode): Pick<RAGSearchOptions, 'mode' | 'weights' | 'rerank'> {
+    const settings: ToolSearchSettings = {
+      ...DEFAULT_TOOL_SEARCH[toolName],
+      ...this.configManager.getConfig().rag.search?.tools?.[toolName]
+    };
+
+    return {
+      mode: mode || settings.mode,
+      weights: { vector: settings.vectorWeight, lexical: settings.lexicalWeight },
+      rerank: settings.rerank
+    };
+  }
+
   async isReady(): Promise<boolean> {
     return this.isInitialized && this.ragEngine?.isReady() === true;
   }
@@ -812,4 +970,67 @@ export class RAGToolsManager {
     this.isInitialized = false;
     this.ragEngine = null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 設定の chunking を MultimodalChunker の戦略に変換する（maxTokens・overlap の省略時は defaults）
+ */
+function resolveChunkingStrategies(chunking: ChunkingSettings): Record<string, ChunkStrategy> {
+  const defaults = { maxTokens: 512, overlap: 50, ...chunking.defaults };
+
+  return Object.fromEntries(
+    Object.entries(chunking.strategies || {}).map(([documentType, strategy]) => [documentType, {
+      type: strategy.type,
+      maxTokens: strategy.maxTokens ?? defaults.maxTokens,
+      overlap: strategy.overlap ?? defaults.overlap,
+      preserveContext: strategy.preserveContext ?? false
+    }])
+  );
+}
+
+/**
+ * ツール固有の引数とツール引数の filters を AND で組み合わせる
+ */
+function combineFilters(toolFilters: SearchFilters, input?: unknown): SearchFilters | undefined {
+  const groups = [toolFilters, ...(input ? [parseSearchFilters(input)] : [])]
+    .filter(group => Object.values(group).some(value => value !== undefined));
+
+  if (groups.length === 0) {
+    return undefined;
+  }
+  return groups.length === 1 ? groups[0] : { must: groups };
+}
+
+/**
+ * ツール引数の filters を SearchFilters に変換する（JSON の日時文字列を Date にする）
+ */
+function parseSearchFilters(input: any): SearchFilters {
+  const { dateRange, must, should, mustNot, ...conditions } = input;
+  const filters: SearchFilters = { ...conditions };
+
+  if (dateRange) {
+    filters.dateRange = {
+      after: dateRange.after ? parseFilterDate(dateRange.after) : undefined,
+      before: dateRange.before ? parseFilterDate(dateRange.before) : undefined
+    };
+  }
+  if (must) {
+    filters.must = must.map(parseSearchFilters);
+  }
+  if (should) {
+    filters.should = should.map(parseSearchFilters);
+  }
+  if (mustNot) {
+    filters.mustNot = mustNot.map(parseSearchFilters);
+  }
+
+  return filters;
+}
+
+function parseFilterDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new CQMError(`Invalid date in filters.dateRange: ${value}`, 'INVALID_PARAMS');
+  }
+  return date;
+}
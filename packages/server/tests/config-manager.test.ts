@@ -3,6 +3,7 @@
  */
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ConfigManager } from '../src/config/index.js';
+import { modelRegistry } from '@cqm/shared';
 import { writeFileSync, unlinkSync, existsSync } from 'fs';
 import { join } from 'path';
 
@@ -182,6 +183,14 @@ describe('ConfigManager', () => {
       expect(result.errors.some(e => e.includes('port'))).toBe(true);
     });
 
+    it('ローカル埋め込みプロバイダーを有効な設定として扱う', () => {
+      configManager.set('rag.provider', 'local');
+      
+      const result = configManager.validate();
+      
+      expect(result.errors.some(e => e.includes('rag.provider'))).toBe(false);
+    });
+
     it('無効な最大接続数で検証が失敗する', () => {
       configManager.set('mcp.maxConnections', 0);
       
@@ -199,6 +208,125 @@ describe('ConfigManager', () => {
       expect(result.valid).toBe(false);
       expect(result.errors.some(e => e.includes('logging.level'))).toBe(true);
     });
+
+    it('レジストリに未登録のOllamaモデルで検証が失敗する', () => {
+      configManager.update({ rag: { provider: 'ollama', model: 'unregistered-embed' } });
+
+      const result = configManager.validate();
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.some(e => e.includes("rag.model 'unregistered-embed'"))).toBe(true);
+    });
+
+    it('カスタムモデルをレジストリに登録し、有効なモデルとして扱う', () => {
+      configManager.update({
+        rag: {
+          provider: 'ollama',
+          model: 'custom-config-embed',
+          models: [{
+            name: 'custom-config-embed',
+            provider: 'ollama',
+            dimensions: 256,
+            contextLength: 1024,
+            distance: 'dot',
+            prompts: { query: 'query: {text}' }
+          }]
+        }
+      });
+
+      expect(configManager.validate().errors.filter(e => e.startsWith('rag.'))).toEqual([]);
+      expect(modelRegistry.get('custom-config-embed', 'ollama')).toMatchObject({ dimensions: 256, contextLength: 1024, distance: 'dot' });
+      expect(modelRegistry.isCustom('custom-config-embed')).toBe(true);
+    });
+
+    it('不正なカスタムモデル定義とプロバイダーの不一致を報告する', () => {
+      configManager.update({
+        rag: {
+          provider: 'ollama',
+          model: 'text-embedding-3-large',
+          models: [
+            { name: 'broken-embed', provider: 'ollama', dimensions: 0, contextLength: 512 },
+            { name: 'manhattan-embed', provider: 'ollama', dimensions: 256, contextLength: 512, distance: 'manhattan' as any }
+          ]
+        }
+      });
+
+      const result = configManager.validate();
+
+      expect(result.errors).toContain("rag.models[0]: model 'broken-embed': dimensions must be a positive integer");
+      expect(result.errors).toContain("rag.models[1]: model 'manhattan-embed': distance must be one of: cosine, dot, euclidean");
+      expect(result.errors.some(e => e.includes("registered for provider 'openai'"))).toBe(true);
+      expect(modelRegistry.has('broken-embed')).toBe(false);
+    });
+
+    it('ツールごとの検索モードと重みを検証する', () => {
+      configManager.update({
+        rag: {
+          provider: 'local',
+          model: 'local-hash',
+          search: {
+            tools: {
+              codeSearch: { mode: 'hybrid', vectorWeight: 1, lexicalWeight: 2 },
+              semanticSearch: { mode: 'keyword' as any, lexicalWeight: -1 }
+            }
+          }
+        }
+      });
+
+      expect(configManager.validate().errors.filter(e => e.startsWith('rag.'))).toEqual([
+        'rag.search.tools.semanticSearch.mode must be one of: vector, lexical, hybrid',
+        'rag.search.tools.semanticSearch.lexicalWeight must be a non-negative number'
+      ]);
+    });
+
+    it('ツールごとの再ランキング設定を検証する', () => {
+      configManager.update({
+        rag: {
+          provider: 'local',
+          model: 'local-hash',
+          search: {
+            tools: {
+              codeSearch: {
+                rerank: { topN: 30, rerankers: [{ type: 'symbol', boost: 0.5 }, { type: 'cross-encoder', url: 'http://localhost:8080/rerank' }] }
+              },
+              semanticSearch: {
+                rerank: { topN: 0, rerankers: [{ type: 'bm25' as any }, { type: 'cross-encoder', url: 'localhost:8080' }, { type: 'lexical', weight: 2 }] }
+              }
+            }
+          }
+        }
+      });
+
+      expect(configManager.validate().errors.filter(e => e.startsWith('rag.'))).toEqual([
+        'rag.search.tools.semanticSearch.rerank.topN must be a positive integer',
+        'rag.search.tools.semanticSearch.rerank.rerankers[0].type must be one of: lexical, symbol, cross-encoder',
+        'rag.search.tools.semanticSearch.rerank.rerankers[1].url must be an http(s) URL',
+        'rag.search.tools.semanticSearch.rerank.rerankers[2].weight must be between 0 and 1'
+      ]);
+    });
+
+    it('ドキュメントタイプごとのチャンク分割を検証する', () => {
+      configManager.update({
+        rag: {
+          provider: 'local',
+          model: 'local-hash',
+          chunking: {
+            strategies: {
+              typescript: { type: 'function', maxTokens: 256 },
+              markdown: { type: 'heading' as any, maxTokens: 0, overlap: -1 }
+            },
+            defaults: { maxTokens: 1.5 }
+          }
+        }
+      });
+
+      expect(configManager.validate().errors.filter(e => e.startsWith('rag.'))).toEqual([
+        'rag.chunking.defaults.maxTokens must be a positive integer',
+        'rag.chunking.strategies.markdown.type must be one of: function, class, interface, variable, enum, namespace, module, section, paragraph, issue, comment',
+        'rag.chunking.strategies.markdown.maxTokens must be a positive integer',
+        'rag.chunking.strategies.markdown.overlap must be a non-negative integer'
+      ]);
+    });
   });
 
   describe('設定サマリー', () => {
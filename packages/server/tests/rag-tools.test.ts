@@ -0,0 +1,89 @@
+/**
+ * RAGToolsManager テストスイート
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const engineOptions = vi.hoisted(() => [] as any[]);
+const searchOptions = vi.hoisted(() => [] as any[]);
+
+vi.mock('@cqm/rag', () => ({
+  RAGEngine: class {
+    constructor(options: any) {
+      engineOptions.push(options);
+    }
+    async initialize(): Promise<void> {}
+    isReady(): boolean {
+      return true;
+    }
+    async searchPage(options: any): Promise<{ results: unknown[] }> {
+      searchOptions.push(options);
+      return { results: [] };
+    }
+  }
+}));
+
+import { RAGToolsManager } from '../src/tools/rag-tools.js';
+import { ConfigManager } from '../src/config/index.js';
+
+describe('RAGToolsManager', () => {
+  let configManager: ConfigManager;
+
+  beforeEach(() => {
+    engineOptions.length = 0;
+    searchOptions.length = 0;
+    configManager = new ConfigManager();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('RAGエンジンの初期化', () => {
+    it('設定の chunking を省略値を補って RAG エンジンに渡す', async () => {
+      configManager.update({
+        rag: {
+          provider: 'local',
+          model: 'local-hash',
+          chunking: {
+            strategies: {
+              typescript: { type: 'function', maxTokens: 256 },
+              markdown: { type: 'section', overlap: 0, preserveContext: true }
+            },
+            defaults: { maxTokens: 384 }
+          }
+        }
+      });
+
+      await new RAGToolsManager(configManager).initialize();
+
+      expect(engineOptions[0].chunkingStrategies).toEqual({
+        typescript: { type: 'function', maxTokens: 256, overlap: 50, preserveContext: false },
+        markdown: { type: 'section', maxTokens: 384, overlap: 0, preserveContext: true }
+      });
+    });
+
+    it('chunking が未設定の場合は RAG エンジンの既定値に任せる', async () => {
+      await new RAGToolsManager(configManager).initialize();
+
+      expect(engineOptions[0].chunkingStrategies).toBeUndefined();
+    });
+  });
+
+  describe('検索モード', () => {
+    const codeSearch = async (params: Record<string, unknown>) => {
+      const manager = new RAGToolsManager(configManager);
+      await manager.initialize();
+      const tool = manager.getTools().find(definition => definition.name === 'codeSearch')!;
+      await tool.handler({ query: 'handleToolsCall', ...params }, {} as any);
+      return searchOptions[searchOptions.length - 1];
+    };
+
+    it('codeSearch は既定で語彙一致を重視した hybrid で検索する', async () => {
+      expect(await codeSearch({})).toMatchObject({ mode: 'hybrid', weights: { vector: 1, lexical: 2 }, threshold: 0.6 });
+    });
+
+    it('引数の mode を設定・既定値より優先する', async () => {
+      configManager.update({ rag: { provider: 'local', model: 'local-hash', search: { tools: { codeSearch: { mode: 'lexical' } } } } });
+
+      expect((await codeSearch({})).mode).toBe('lexical');
+      expect((await codeSearch({ mode: 'vector' })).mode).toBe('vector');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 /**
  * 共通定数定義
  */
+import { BUILTIN_EMBEDDING_MODELS, EmbeddingProviderName } from '../models/index.js';
 
 // MCPプロトコル関連
 export const MCP_PROTOCOL_VERSION = '2024-11-05';
@@ -45,14 +46,15 @@ export const SUPPORTED_FILE_TYPES = [
   '.yml',
 ] as const;
 
-// 埋め込みモデル情報
-export const EMBEDDING_MODELS = {
-  openai: {
-    'text-embedding-3-small': { dimensions: 1536, maxTokens: 8191 },
-    'text-embedding-3-large': { dimensions: 3072, maxTokens: 8191 },
-  },
-  ollama: {
-    'nomic-embed-text': { dimensions: 768, maxTokens: 8192 },
-    'mxbai-embed-large': { dimensions: 1024, maxTokens: 512 },
-  },
-} as const;
\ No newline at end of file
+/**
+ * 組み込み埋め込みモデルの次元数と最大トークン数（プロバイダー別）
+ * @deprecated modelRegistry（@cqm/shared）を使用してください
+ */
+export const EMBEDDING_MODELS = Object.fromEntries(
+  (['openai', 'ollama', 'local'] as const).map(provider => [
+    provider,
+    Object.fromEntries(BUILTIN_EMBEDDING_MODELS
+      .filter(model => model.provider === provider)
+      .map(model => [model.name, { dimensions: model.dimensions, maxTokens: model.contextLength }]))
+  ])
+) as Readonly<Record<EmbeddingProviderName, Readonly<Record<string, { dimensions: number; maxTokens: number }>>>>;
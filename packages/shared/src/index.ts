@@ -8,4 +8,5 @@
 export * from './types/index.js';
 export * from './schemas/index.js';
 export * from './utils/index.js';
-export * from './constants/index.js';
\ No newline at end of file
+export * from './constants/index.js';
+export * from './models/index.js';
\ No newline at end of file
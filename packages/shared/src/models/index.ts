@@ -0,0 +1,205 @@
+/**
+ * 埋め込みモデルレジストリ
+ *
+ * 組み込みモデルと設定ファイルで定義したカスタムモデルを一元管理し、
+ * プロバイダー実装・設定バリデーション・CLI から同じ定義を参照する。
+ */
+import { CQMError } from '../types/index.js';
+
+export type EmbeddingProviderName = 'openai' | 'ollama' | 'local';
+export type DistanceMetric = 'cosine' | 'dot' | 'euclidean';
+export type EmbeddingTask = 'code' | 'docs';
+
+/**
+ * テンプレート中の `{text}` を入力テキストに置換する（含まない場合は接頭辞として付与）
+ */
+export interface EmbeddingPromptTemplate {
+  query?: string;
+  document?: string;
+}
+
+export interface EmbeddingPrompts extends EmbeddingPromptTemplate {
+  tasks?: Partial<Record<EmbeddingTask, EmbeddingPromptTemplate>>;
+}
+
+export interface EmbeddingModelDefinition {
+  name: string;
+  provider: EmbeddingProviderName;
+  dimensions: number;
+  contextLength: number; // 1入力あたりの最大トークン数
+  distance?: DistanceMetric; // コレクション作成時の距離関数（既定: cosine）
+  description?: string;
+  prompts?: EmbeddingPrompts;
+}
+
+export const BUILTIN_EMBEDDING_MODELS: readonly EmbeddingModelDefinition[] = [
+  {
+    name: 'text-embedding-3-small',
+    provider: 'openai',
+    dimensions: 1536,
+    contextLength: 8191,
+    distance: 'cosine',
+    description: 'OpenAI text-embedding-3-small - Cost efficient embeddings'
+  },
+  {
+    name: 'text-embedding-3-large',
+    provider: 'openai',
+    dimensions: 3072,
+    contextLength: 8191,
+    distance: 'cosine',
+    description: 'OpenAI text-embedding-3-large - Highest quality embeddings'
+  },
+  {
+    name: 'text-embedding-ada-002',
+    provider: 'openai',
+    dimensions: 1536,
+    contextLength: 8191,
+    distance: 'cosine',
+    description: 'OpenAI Ada v2 - Legacy embeddings'
+  },
+  {
+    name: 'nomic-embed-text',
+    provider: 'ollama',
+    dimensions: 768,
+    contextLength: 8192,
+    distance: 'cosine',
+    description: 'Nomic Embed Text v1.5 - High quality text embeddings',
+    prompts: {
+      query: 'search_query: {text}',
+      document: 'search_document: {text}'
+    }
+  },
+  {
+    name: 'mxbai-embed-large',
+    provider: 'ollama',
+    dimensions: 1024,
+    contextLength: 512,
+    distance: 'cosine',
+    description: 'MixedBread AI Large Embeddings - Multilingual support',
+    prompts: {
+      query: 'Represent this sentence for searching relevant passages: {text}',
+      tasks: {
+        code: { query: 'Represent this query for searching relevant code: {text}' }
+      }
+    }
+  },
+  {
+    name: 'all-minilm',
+    provider: 'ollama',
+    dimensions: 384,
+    contextLength: 256,
+    distance: 'cosine',
+    description: 'All-MiniLM-L6-v2 - Fast and lightweight embeddings'
+  },
+  {
+    name: 'local-hash',
+    provider: 'local',
+    dimensions: 512,
+    contextLength: 8192,
+    distance: 'cosine',
+    description: 'Hashed n-gram feature vectors - Offline, deterministic embeddings'
+  }
+];
+
+const PROVIDERS: readonly EmbeddingProviderName[] = ['openai', 'ollama', 'local'];
+const DISTANCE_METRICS: readonly DistanceMetric[] = ['cosine', 'dot', 'euclidean'];
+
+/**
+ * モデル定義の検証（問題がなければ空配列）
+ */
+export function validateModelDefinition(definition: EmbeddingModelDefinition): string[] {
+  const errors: string[] = [];
+  const label = definition.name ? `model '${definition.name}'` : 'model';
+
+  if (!definition.name || !definition.name.trim()) {
+    errors.push('model name is required');
+  }
+  if (!PROVIDERS.includes(definition.provider)) {
+    errors.push(`${label}: provider must be one of: ${PROVIDERS.join(', ')}`);
+  }
+  if (!Number.isInteger(definition.dimensions) || definition.dimensions < 1) {
+    errors.push(`${label}: dimensions must be a positive integer`);
+  }
+  if (!Number.isInteger(definition.contextLength) || definition.contextLength < 1) {
+    errors.push(`${label}: contextLength must be a positive integer`);
+  }
+  if (definition.distance !== undefined && !DISTANCE_METRICS.includes(definition.distance)) {
+    errors.push(`${label}: distance must be one of: ${DISTANCE_METRICS.join(', ')}`);
+  }
+
+  return errors;
+}
+
+export class ModelRegistry {
+  private readonly models = new Map<string, EmbeddingModelDefinition>();
+  private readonly customNames = new Set<string>();
+
+  constructor(builtins: readonly EmbeddingModelDefinition[] = BUILTIN_EMBEDDING_MODELS) {
+    builtins.forEach(definition => this.store(definition));
+  }
+
+  /**
+   * カスタムモデルを登録する。同名のモデルは上書きされる（組み込みモデルのプロンプト変更等）
+   */
+  register(definition: EmbeddingModelDefinition): void {
+    this.store(definition);
+    this.customNames.add(definition.name);
+  }
+
+  registerAll(definitions: readonly EmbeddingModelDefinition[] = []): void {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * モデル定義を取得する。provider を指定した場合は一致するもののみ返す
+   */
+  get(name: string, provider?: EmbeddingProviderName): EmbeddingModelDefinition | undefined {
+    const definition = this.models.get(name);
+    if (!definition || (provider && definition.provider !== provider)) {
+      return undefined;
+    }
+    return { ...definition };
+  }
+
+  has(name: string, provider?: EmbeddingProviderName): boolean {
+    return this.get(name, provider) !== undefined;
+  }
+
+  /**
+   * 登録済みモデルを取得する（見つからない場合は MODEL_NOT_FOUND）
+   */
+  resolve(name: string, provider?: EmbeddingProviderName): EmbeddingModelDefinition {
+    const definition = this.get(name, provider);
+    if (!definition) {
+      const available = this.list(provider).map(model => model.name);
+      throw new CQMError(
+        `Unknown ${provider ? `${provider} ` : ''}embedding model: ${name} (available: ${available.join(', ')})`,
+        'MODEL_NOT_FOUND',
+        { model: name, provider, available }
+      );
+    }
+    return definition;
+  }
+
+  list(provider?: EmbeddingProviderName): EmbeddingModelDefinition[] {
+    return Array.from(this.models.values())
+      .filter(definition => !provider || definition.provider === provider)
+      .map(definition => ({ ...definition }));
+  }
+
+  isCustom(name: string): boolean {
+    return this.customNames.has(name);
+  }
+
+  private store(definition: EmbeddingModelDefinition): void {
+    const errors = validateModelDefinition(definition);
+    if (errors.length > 0) {
+      throw new CQMError(`Invalid embedding model definition: ${errors.join('; ')}`, 'CONFIG_ERROR', { errors });
+    }
+
+    this.models.set(definition.name, { ...definition });
+  }
+}
+
+// プロセス全体で共有するレジストリ（設定読み込み時にカスタムモデルを登録する）
+export const modelRegistry = new ModelRegistry();
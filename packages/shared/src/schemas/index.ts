@@ -3,6 +3,28 @@
  */
 import { z } from 'zod';
 
+// プロンプトテンプレートスキーマ
+const EmbeddingPromptTemplateSchema = z.object({
+  query: z.string().optional(),
+  document: z.string().optional(),
+});
+
+// 埋め込みモデル定義スキーマ
+export const EmbeddingModelDefinitionSchema = z.object({
+  name: z.string().min(1),
+  provider: z.enum(['openai', 'ollama', 'local']),
+  dimensions: z.number().int().positive(),
+  contextLength: z.number().int().positive(),
+  distance: z.enum(['cosine', 'dot', 'euclidean']).optional(),
+  description: z.string().optional(),
+  prompts: EmbeddingPromptTemplateSchema.extend({
+    tasks: z.object({
+      code: EmbeddingPromptTemplateSchema.optional(),
+      docs: EmbeddingPromptTemplateSchema.optional(),
+    }).optional(),
+  }).optional(),
+});
+
 // 設定スキーマ
 export const CQMConfigSchema = z.object({
   server: z.object({
@@ -10,8 +32,59 @@ export const CQMConfigSchema = z.object({
     host: z.string(),
   }),
   rag: z.object({
-    provider: z.enum(['openai', 'ollama']),
+    provider: z.enum(['openai', 'ollama', 'local']),
     model: z.string(),
+    fallbacks: z.array(z.object({
+      provider: z.enum(['openai', 'ollama', 'local']),
+      model: z.string().optional(),
+      baseUrl: z.string().optional(),
+    })).optional(),
+    models: z.array(EmbeddingModelDefinitionSchema).optional(),
+    vectorStore: z.object({
+      type: z.enum(['qdrant', 'memory', 'embedded']).optional(),
+      persistPath: z.string().optional(),
+      directory: z.string().optional(),
+    }).optional(),
+    search: z.object({
+      tools: z.record(z.object({
+        mode: z.enum(['vector', 'lexical', 'hybrid']).optional(),
+        vectorWeight: z.number().min(0).optional(),
+        lexicalWeight: z.number().min(0).optional(),
+        rerank: z.object({
+          topN: z.number().int().min(1).optional(),
+          rerankers: z.array(z.discriminatedUnion('type', [
+            z.object({ type: z.literal('lexical'), weight: z.number().min(0).max(1).optional() }),
+            z.object({ type: z.literal('symbol'), boost: z.number().min(0).optional() }),
+            z.object({
+              type: z.literal('cross-encoder'),
+              url: z.string().url(),
+              model: z.string().optional(),
+              weight: z.number().min(0).max(1).optional(),
+              timeout: z.number().min(1).optional(),
+            }),
+          ])),
+        }).optional(),
+      })).optional(),
+    }).optional(),
+    enrichment: z.object({
+      enabled: z.boolean().optional(),
+      template: z.string().optional(),
+    }).optional(),
+    chunking: z.object({
+      strategies: z.record(z.object({
+        type: z.enum([
+          'function', 'class', 'interface', 'variable', 'enum', 'namespace', 'module',
+          'section', 'paragraph', 'issue', 'comment',
+        ]),
+        maxTokens: z.number().int().min(1).optional(),
+        overlap: z.number().int().min(0).optional(),
+        preserveContext: z.boolean().optional(),
+      })).optional(),
+      defaults: z.object({
+        maxTokens: z.number().int().min(1).optional(),
+        overlap: z.number().int().min(0).optional(),
+      }).optional(),
+    }).optional(),
   }),
   plugins: z.object({
     enabled: z.array(z.string()),
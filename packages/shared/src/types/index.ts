@@ -1,6 +1,7 @@
 /**
  * 共通型定義
  */
+import type { EmbeddingModelDefinition } from '../models/index.js';
 
 // 基本型定義
 export interface CQMConfig {
@@ -9,14 +10,83 @@ export interface CQMConfig {
     host: string;
   };
   rag: {
-    provider: 'openai' | 'ollama';
+    provider: 'openai' | 'ollama' | 'local';
     model: string;
+    fallbacks?: Array<{
+      provider: 'openai' | 'ollama' | 'local';
+      model?: string;
+      baseUrl?: string;
+    }>;
+    models?: EmbeddingModelDefinition[]; // カスタム埋め込みモデル定義
+    vectorStore?: {
+      type?: 'qdrant' | 'memory' | 'embedded';
+      persistPath?: string; // memory ストアの JSON スナップショット保存先
+      directory?: string; // embedded ストアの保存先（既定: .cqm/vectors）
+    };
+    search?: {
+      tools?: Record<string, ToolSearchSettings>; // ツール名ごとの検索モードと融合の重み
+    };
+    enrichment?: ChunkEnrichmentSettings; // 埋め込み前にチャンクへ付加する文脈
+    chunking?: ChunkingSettings; // ドキュメントタイプごとのチャンク分割の上書き
   };
   plugins: {
     enabled: string[];
   };
 }
 
+/**
+ * 埋め込み前のチャンクの文脈付加（ファイルパス、パッケージ名、所属するクラス・セクション、関連するインポート）
+ * 表示・語彙検索には元のチャンクを使い、埋め込む文字列にのみ付加する
+ */
+export interface ChunkEnrichmentSettings {
+  enabled?: boolean; // 有効・無効を切り替えて検索品質を比較できる（既定: false）
+  template?: string; // {path}、{package}、{breadcrumbs}、{imports}、{content} を置き換える
+}
+
+/**
+ * ドキュメントタイプ（typescript、markdown など）ごとのチャンク分割
+ * 指定したタイプは組み込みの戦略を置き換え、maxTokens・overlap の省略時は defaults を使う
+ */
+export interface ChunkingSettings {
+  strategies?: Record<string, ChunkingStrategySettings>;
+  defaults?: {
+    maxTokens?: number; // 既定: 512
+    overlap?: number; // 既定: 50
+  };
+}
+
+export interface ChunkingStrategySettings {
+  type:
+    | 'function' | 'class' | 'interface' | 'variable' | 'enum' | 'namespace' | 'module'
+    | 'section' | 'paragraph' | 'issue' | 'comment';
+  maxTokens?: number;
+  overlap?: number;
+  preserveContext?: boolean; // 既定: false
+}
+
+/**
+ * 検索ツールごとの検索モード（hybrid はベクトル検索と BM25 を相互順位融合で統合）
+ */
+export interface ToolSearchSettings {
+  mode?: 'vector' | 'lexical' | 'hybrid';
+  vectorWeight?: number;
+  lexicalWeight?: number;
+  rerank?: RerankSettings; // 検索後の再ランキング（未指定の場合は行わない）
+}
+
+/**
+ * 再ランキングの設定（上位 topN 件の候補に rerankers を順に適用する）
+ */
+export interface RerankSettings {
+  topN?: number; // 再ランキングする上位候補数（既定: 50）
+  rerankers: RerankerSettings[];
+}
+
+export type RerankerSettings =
+  | { type: 'lexical'; weight?: number } // クエリ語との重なり（weight: 0〜1、既定: 0.3）
+  | { type: 'symbol'; boost?: number } // クエリ中の識別子とシンボル名の完全一致に加点（既定: 0.2）
+  | { type: 'cross-encoder'; url: string; model?: string; weight?: number; timeout?: number }; // ローカルの HTTP エンドポイント
+
 // MCPプロトコル関連型
 export interface MCPRequest {
   jsonrpc: '2.0';
@@ -26,13 +26,20 @@ describe('MCP-RAG Integration Tests', () => {
     // テスト用ファイル作成
     await createTestFiles();
 
+    // Qdrant・Ollama なしで RAG ツールを動かすため、ローカル埋め込みとインメモリストアを使う
+    const configPath = join(testDir, 'cqm.config.json');
+    writeFileSync(configPath, JSON.stringify({
+      rag: { provider: 'local', model: 'local-hash', vectorStore: { type: 'memory' } }
+    }));
+
     // テスト用MCPサーバー起動
     server = new MCPServerCore({
       port: serverPort,
       host: 'localhost',
       maxConnections: 5,
       enableWebSocket: true,
-      enableStdio: false
+      enableStdio: false,
+      configPath
     });
 
     await server.start();